@@ -6,6 +6,16 @@ import LoginPage from './pages/LoginPage';
 import LandingPage from './pages/LandingPage';
 import UserManagementPage from './pages/UserManagementPage';
 import AuditLogPage from './pages/AuditLogPage';
+import PageBuilderPage from './pages/PageBuilderPage';
+import PageHistoryPage from './pages/PageHistoryPage';
+import ExperimentResultsPage from './pages/ExperimentResultsPage';
+import FragmentsPage from './pages/FragmentsPage';
+import ThemesPage from './pages/ThemesPage';
+import TranslationsPage from './pages/TranslationsPage';
+import AnalyticsPage from './pages/AnalyticsPage';
+import SubmissionsPage from './pages/SubmissionsPage';
+import SubmissionInboxPage from './pages/SubmissionInboxPage';
+import DynamicPage from './pages/DynamicPage';
 import './App.css';
 
 const App: React.FC = () => {
@@ -42,6 +52,90 @@ const App: React.FC = () => {
             }
           />
 
+          <Route
+            path="/page-builder"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'moderator']}>
+                <PageBuilderPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/page-builder/:pageId/history"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'moderator']}>
+                <PageHistoryPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/page-builder/:pageId/experiment"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'moderator']}>
+                <ExperimentResultsPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/fragments"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'moderator']}>
+                <FragmentsPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/themes"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'moderator']}>
+                <ThemesPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/translations"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'moderator']}>
+                <TranslationsPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/analytics"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'moderator']}>
+                <AnalyticsPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/submissions"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'moderator']}>
+                <SubmissionsPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/submissions/:pageId/:formId"
+            element={
+              <ProtectedRoute allowedRoles={['admin', 'moderator']}>
+                <SubmissionInboxPage />
+              </ProtectedRoute>
+            }
+          />
+
+          {/* Config-driven pages */}
+          <Route path="/:pageId" element={<DynamicPage />} />
+
           {/* Redirect to login for unknown routes */}
           <Route path="*" element={<Navigate to="/login" replace />} />
         </Routes>
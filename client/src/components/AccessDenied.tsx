@@ -0,0 +1,25 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+interface AccessDeniedProps {
+  message?: string;
+}
+
+// Shown when a logged-in user is not allowed to view a page
+const AccessDenied: React.FC<AccessDeniedProps> = ({
+  message = 'You do not have permission to view this page.',
+}) => {
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50">
+      <div className="text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Access denied</h1>
+        <p className="text-gray-600 mb-4">{message}</p>
+        <Link to="/" className="text-blue-600 hover:text-blue-800">
+          Back to Home
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default AccessDenied;
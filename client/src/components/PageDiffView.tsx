@@ -0,0 +1,120 @@
+import React from 'react';
+import { ComponentLocation, FieldChange, PageDiff } from '../types/pageDiff';
+
+interface PageDiffViewProps {
+  diff: PageDiff;
+  fromLabel: string;
+  toLabel: string;
+}
+
+const describeLocation = ({ parentId, index }: ComponentLocation) =>
+  `${parentId ? `in ${parentId}` : 'top level'}, position ${index + 1}`;
+
+const Value: React.FC<{ value: any }> = ({ value }) => {
+  if (value === undefined) return <span className="text-gray-500 italic">not set</span>;
+  if (typeof value === 'string') return <span>{value}</span>;
+  return <pre className="text-xs whitespace-pre-wrap">{JSON.stringify(value, null, 2)}</pre>;
+};
+
+// Field changes with the old and new values side by side
+const ChangeTable: React.FC<{ changes: FieldChange[]; fromLabel: string; toLabel: string }> = ({
+  changes,
+  fromLabel,
+  toLabel,
+}) => (
+  <table className="min-w-full divide-y divide-gray-200 text-sm" style={{ tableLayout: 'fixed' }}>
+    <thead className="bg-gray-50">
+      <tr>
+        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase" style={{ width: '25%' }}>Field</th>
+        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{fromLabel}</th>
+        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{toLabel}</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-gray-200">
+      {changes.map((change) => (
+        <tr key={change.field}>
+          <td className="px-4 py-2 align-top"><code>{change.field}</code></td>
+          <td className="px-4 py-2 align-top bg-red-50"><Value value={change.oldValue} /></td>
+          <td className="px-4 py-2 align-top bg-green-50"><Value value={change.newValue} /></td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="bg-white shadow rounded-lg p-4 mb-4">
+    <h3 className="text-sm font-semibold text-gray-700 uppercase mb-3">{title}</h3>
+    {children}
+  </section>
+);
+
+// Structural diff between two page configs, as returned by the admin diff endpoints
+const PageDiffView: React.FC<PageDiffViewProps> = ({ diff, fromLabel, toLabel }) => {
+  const { fields, added, removed, moved, changed } = diff;
+
+  if ([fields, added, removed, moved, changed].every((list) => list.length === 0)) {
+    return <p className="text-gray-500">No differences.</p>;
+  }
+
+  return (
+    <div>
+      {fields.length > 0 && (
+        <Section title="Page settings">
+          <ChangeTable changes={fields} fromLabel={fromLabel} toLabel={toLabel} />
+        </Section>
+      )}
+
+      {added.length > 0 && (
+        <Section title={`Added components (${added.length})`}>
+          <ul className="text-sm space-y-1">
+            {added.map((entry) => (
+              <li key={entry.id} className="text-green-700">
+                + <code>{entry.id}</code> ({entry.type}) — {describeLocation(entry)}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {removed.length > 0 && (
+        <Section title={`Removed components (${removed.length})`}>
+          <ul className="text-sm space-y-1">
+            {removed.map((entry) => (
+              <li key={entry.id} className="text-red-700">
+                − <code>{entry.id}</code> ({entry.type}) — was {describeLocation(entry)}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {moved.length > 0 && (
+        <Section title={`Moved components (${moved.length})`}>
+          <ul className="text-sm space-y-1">
+            {moved.map((move) => (
+              <li key={move.id}>
+                <code>{move.id}</code> ({move.type}): {describeLocation(move.from)} → {describeLocation(move.to)}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {changed.length > 0 && (
+        <Section title={`Changed components (${changed.length})`}>
+          {changed.map((component) => (
+            <div key={component.id} className="mb-4">
+              <h4 className="text-sm font-medium text-gray-900 mb-2">
+                <code>{component.id}</code> ({component.type})
+              </h4>
+              <ChangeTable changes={component.changes} fromLabel={fromLabel} toLabel={toLabel} />
+            </div>
+          ))}
+        </Section>
+      )}
+    </div>
+  );
+};
+
+export default PageDiffView;
@@ -1,10 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Link } from 'react-router-dom';
+import axios from 'axios';
 import { useAuth } from '../context/AuthContext';
 
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
 const ProfileDropdown: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, setLocale } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
+  const [locales, setLocales] = useState<string[]>([]);
+  const [localeError, setLocaleError] = useState<string | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Close dropdown when clicking outside
@@ -21,10 +27,28 @@ const ProfileDropdown: React.FC = () => {
     };
   }, []);
 
+  // Load the languages pages can be served in the first time the menu opens
+  useEffect(() => {
+    if (!isOpen || locales.length > 0) return;
+    axios
+      .get(`${API_URL}/locales`)
+      .then((response) => setLocales(response.data.locales))
+      .catch((err) => console.warn('Could not load languages:', err.response?.data?.message || err.message));
+  }, [isOpen, locales.length]);
+
   const handleLogout = async () => {
     await logout();
   };
 
+  const handleLocaleChange = async (locale: string) => {
+    try {
+      setLocaleError(null);
+      await setLocale(locale || null);
+    } catch (err: any) {
+      setLocaleError(err.response?.data?.message || 'Could not save language');
+    }
+  };
+
   if (!user) return null;
 
   return (
@@ -57,6 +81,25 @@ const ProfileDropdown: React.FC = () => {
             >
               Your Profile
             </Link>
+            <div className="px-4 py-2">
+              <label htmlFor="profile-locale" className="block text-xs text-gray-500 mb-1">
+                Page language
+              </label>
+              <select
+                id="profile-locale"
+                value={user.locale || ''}
+                onChange={(e) => handleLocaleChange(e.target.value)}
+                className="block w-full border border-gray-300 rounded-md text-sm px-2 py-1"
+              >
+                <option value="">Browser default</option>
+                {locales.map((locale) => (
+                  <option key={locale} value={locale}>
+                    {locale}
+                  </option>
+                ))}
+              </select>
+              {localeError && <p className="text-xs text-red-600 mt-1">{localeError}</p>}
+            </div>
             <button
               onClick={() => {
                 setIsOpen(false);
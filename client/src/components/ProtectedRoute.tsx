@@ -6,11 +6,14 @@ import { User } from '../context/AuthContext';
 interface ProtectedRouteProps {
   children: React.ReactNode;
   allowedRoles?: User['role'][];
+  // Rendered instead of redirecting home when the user's role is not allowed
+  fallback?: React.ReactNode;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
   allowedRoles = [],
+  fallback,
 }) => {
   const { user, loading } = useAuth();
   const location = useLocation();
@@ -39,7 +42,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
 
   // Check if user has required role
   if (!allowedRoles.includes(user.role)) {
-    return <Navigate to="/" replace />;
+    return fallback !== undefined ? <>{fallback}</> : <Navigate to="/" replace />;
   }
 
   return <>{children}</>;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { PageComponent } from '../../types/pageConfig';
+import { DragItem, getDragItem, isBuilderDrag, setDragItem } from './dragData';
+import { getRegisteredComponent } from '../custom/registry';
+
+interface BuilderCanvasProps {
+  components: PageComponent[];
+  selectedId: string | null;
+  invalidIds: Set<string>;
+  onSelect: (id: string | null) => void;
+  onDrop: (item: DragItem, parentId: string | null, index: number) => void;
+}
+
+// One-line summary of a component's main props for its canvas block
+const describe = (component: PageComponent): string => {
+  const { props } = component;
+  switch (component.type) {
+    case 'text':
+      return String(props.value ?? '');
+    case 'button':
+      return props.label || '';
+    case 'image':
+      return props.src || 'No image source';
+    case 'form':
+      return `${props.fields?.length ?? 0} field(s) → ${props.submit?.store ? 'stored submissions' : props.submit?.api?.url || 'no submit URL'}`;
+    case 'table':
+      return `${props.columns?.length ?? 0} column(s) from ${props.api?.url || 'no API URL'}`;
+    case 'spacer':
+      return `Size: ${props.size ?? 'md'}`;
+    case 'container':
+      return props.direction === 'row' ? 'Row' : 'Column';
+    case 'fragment': {
+      const overridden = Object.keys(component.overrides || {}).length;
+      return component.ref ? `Fragment ${component.ref}${overridden ? `, ${overridden} override(s)` : ''}` : 'No fragment selected';
+    }
+    default:
+      return getRegisteredComponent(component.type)?.describe?.(props) ?? '';
+  }
+};
+
+interface DropZoneProps {
+  parentId: string | null;
+  index: number;
+  onDrop: BuilderCanvasProps['onDrop'];
+  empty?: boolean;
+}
+
+// Target between blocks where a dragged component can be dropped
+const DropZone: React.FC<DropZoneProps> = ({ parentId, index, onDrop, empty }) => {
+  const [active, setActive] = useState<boolean>(false);
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (!isBuilderDrag(e)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setActive(true);
+      }}
+      onDragLeave={() => setActive(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setActive(false);
+        const item = getDragItem(e);
+        if (item) onDrop(item, parentId, index);
+      }}
+      className={`rounded transition-all ${
+        empty
+          ? `py-6 border-2 border-dashed text-center text-sm ${
+              active ? 'border-blue-400 bg-blue-50 text-blue-600' : 'border-gray-300 text-gray-400'
+            }`
+          : active
+            ? 'h-8 bg-blue-100 border-2 border-dashed border-blue-400'
+            : 'h-2'
+      }`}
+    >
+      {empty && 'Drop components here'}
+    </div>
+  );
+};
+
+interface BlockListProps extends Omit<BuilderCanvasProps, 'onSelect'> {
+  parentId: string | null;
+  onSelect: (id: string) => void;
+}
+
+const BlockList: React.FC<BlockListProps> = (props) => {
+  const { components, parentId, selectedId, invalidIds, onSelect, onDrop } = props;
+
+  if (components.length === 0) {
+    return <DropZone parentId={parentId} index={0} onDrop={onDrop} empty />;
+  }
+
+  return (
+    <div>
+      <DropZone parentId={parentId} index={0} onDrop={onDrop} />
+      {components.map((component, index) => (
+        <React.Fragment key={component.id}>
+          <div
+            draggable
+            onDragStart={(e) => {
+              e.stopPropagation();
+              setDragItem(e, { kind: 'move', id: component.id });
+            }}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect(component.id);
+            }}
+            className={`bg-white border rounded-md p-3 cursor-move ${
+              component.id === selectedId
+                ? 'border-blue-500 ring-2 ring-blue-200'
+                : invalidIds.has(component.id)
+                  ? 'border-red-400'
+                  : 'border-gray-200 hover:border-gray-400'
+            }`}
+          >
+            <div className="flex items-center text-xs text-gray-500 mb-1">
+              <span className="px-2 py-0.5 bg-gray-100 rounded uppercase font-semibold">
+                {component.type}
+              </span>
+              <span className="ml-2">{component.id}</span>
+            </div>
+            <p className="text-sm text-gray-800 truncate">{describe(component)}</p>
+            {component.type === 'container' && (
+              <div className="mt-2 pl-3 border-l-2 border-gray-200">
+                <BlockList {...props} components={component.children || []} parentId={component.id} />
+              </div>
+            )}
+          </div>
+          <DropZone parentId={parentId} index={index + 1} onDrop={onDrop} />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+// Editable outline of the page: drag blocks to reorder or nest them in containers
+const BuilderCanvas: React.FC<BuilderCanvasProps> = ({ onSelect, ...props }) => {
+  return (
+    <div className="bg-gray-50 border rounded-lg p-4" style={{ minHeight: 400 }} onClick={() => onSelect(null)}>
+      <BlockList {...props} parentId={null} onSelect={onSelect} />
+    </div>
+  );
+};
+
+export default BuilderCanvas;
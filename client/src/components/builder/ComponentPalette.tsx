@@ -0,0 +1,53 @@
+import React from 'react';
+import { COMPONENT_TYPES, ComponentType } from '../../types/pageConfig';
+import { setDragItem } from './dragData';
+import { listRegisteredComponents } from '../custom/registry';
+
+// Short descriptions shown under each palette entry
+const DESCRIPTIONS: Record<ComponentType, string> = {
+  text: 'Paragraph or heading',
+  form: 'Inputs with validation and submit',
+  table: 'Rows loaded from an API',
+  button: 'Runs an action on click',
+  image: 'Picture with alt text',
+  divider: 'Horizontal rule',
+  spacer: 'Vertical whitespace',
+  container: 'Groups other components',
+  fragment: 'Shared block from the fragment library',
+};
+
+interface ComponentPaletteProps {
+  onAdd: (type: string) => void;
+}
+
+// Components that can be dragged onto the canvas (or clicked to append)
+const ComponentPalette: React.FC<ComponentPaletteProps> = ({ onAdd }) => {
+  const entries = [
+    ...COMPONENT_TYPES.map((type) => ({ type, description: DESCRIPTIONS[type] })),
+    ...listRegisteredComponents().map(({ type, description }) => ({ type, description })),
+  ];
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <h2 className="text-sm font-semibold text-gray-700 uppercase mb-3">Components</h2>
+      <ul className="space-y-2">
+        {entries.map(({ type, description }) => (
+          <li key={type}>
+            <button
+              type="button"
+              draggable
+              onDragStart={(e) => setDragItem(e, { kind: 'new', type })}
+              onClick={() => onAdd(type)}
+              className="w-full text-left px-3 py-2 border border-gray-200 rounded-md hover:border-blue-400 hover:bg-blue-50 cursor-grab"
+            >
+              <span className="block text-sm font-medium text-gray-900 capitalize">{type}</span>
+              <span className="block text-xs text-gray-500">{description}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ComponentPalette;
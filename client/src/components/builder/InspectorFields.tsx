@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+
+// Small labelled inputs shared by the props inspector editors
+
+const labelClass = 'block text-xs font-medium text-gray-700 mb-1';
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm';
+
+interface FieldProps<T> {
+  label: string;
+  value: T;
+  onChange: (value: T) => void;
+  required?: boolean;
+}
+
+export const TextInput: React.FC<FieldProps<string> & { multiline?: boolean; placeholder?: string; disabled?: boolean }> = ({
+  label,
+  value,
+  onChange,
+  required,
+  multiline,
+  placeholder,
+  disabled,
+}) => (
+  <label className="block mb-3">
+    <span className={labelClass}>
+      {label}
+      {required && <span className="text-red-500"> *</span>}
+    </span>
+    {multiline ? (
+      <textarea
+        value={value}
+        rows={3}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClass}
+      />
+    ) : (
+      <input
+        type="text"
+        value={value}
+        placeholder={placeholder}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        className={`${inputClass} ${required && !value ? 'border-red-400' : ''}`}
+      />
+    )}
+  </label>
+);
+
+// Number input; an empty box maps to undefined so the prop is left out
+export const NumberInput: React.FC<FieldProps<number | undefined>> = ({ label, value, onChange }) => (
+  <label className="block mb-3">
+    <span className={labelClass}>{label}</span>
+    <input
+      type="number"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      className={inputClass}
+    />
+  </label>
+);
+
+export const SelectInput: React.FC<FieldProps<string> & { options: readonly string[]; allowEmpty?: boolean }> = ({
+  label,
+  value,
+  onChange,
+  options,
+  allowEmpty,
+}) => (
+  <label className="block mb-3">
+    <span className={labelClass}>{label}</span>
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      {allowEmpty && <option value="">(none)</option>}
+      {options.map((option) => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+export const CheckboxInput: React.FC<FieldProps<boolean>> = ({ label, value, onChange }) => (
+  <label className="flex items-center mb-3 text-sm text-gray-700">
+    <input type="checkbox" checked={value} onChange={(e) => onChange(e.target.checked)} className="mr-2" />
+    {label}
+  </label>
+);
+
+// Raw JSON editor for props without a dedicated form (actions, conditions, options).
+// Changes are applied on blur, and only when the text parses.
+export const JsonInput: React.FC<FieldProps<any> & { help?: string }> = ({ label, value, onChange, help }) => {
+  const format = (current: any) => (current === undefined ? '' : JSON.stringify(current, null, 2));
+  const [text, setText] = useState<string>(format(value));
+  const [error, setError] = useState<string | null>(null);
+
+  // Pick up outside changes such as undo/redo or selecting another component
+  useEffect(() => {
+    setText(format(value));
+    setError(null);
+  }, [value]);
+
+  const apply = () => {
+    if (text.trim() === '') {
+      setError(null);
+      onChange(undefined);
+      return;
+    }
+    try {
+      onChange(JSON.parse(text));
+      setError(null);
+    } catch {
+      setError('Invalid JSON');
+    }
+  };
+
+  return (
+    <label className="block mb-3">
+      <span className={labelClass}>{label}</span>
+      <textarea
+        value={text}
+        rows={5}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={apply}
+        className={`${inputClass} font-mono text-xs ${error ? 'border-red-400' : ''}`}
+      />
+      {error && <span className="block text-xs text-red-600 mt-1">{error}</span>}
+      {help && !error && <span className="block text-xs text-gray-500 mt-1">{help}</span>}
+    </label>
+  );
+};
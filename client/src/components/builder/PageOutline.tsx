@@ -0,0 +1,99 @@
+import React from 'react';
+import { PageComponent } from '../../types/pageConfig';
+
+interface PageOutlineProps {
+  components: PageComponent[];
+  selectedId: string | null;
+  invalidIds: Set<string>;
+  onSelect: (id: string) => void;
+  onMove: (id: string, parentId: string | null, index: number) => void;
+  onRemove: (id: string) => void;
+}
+
+interface OutlineListProps extends PageOutlineProps {
+  parentId: string | null;
+  depth: number;
+}
+
+const OutlineList: React.FC<OutlineListProps> = (props) => {
+  const { components, parentId, depth, selectedId, invalidIds, onSelect, onMove, onRemove } = props;
+
+  return (
+    <ul>
+      {components.map((component, index) => (
+        <li key={component.id}>
+          <div
+            className={`group flex items-center text-sm rounded px-2 py-1 cursor-pointer ${
+              component.id === selectedId ? 'bg-blue-100 text-blue-900' : 'hover:bg-gray-100'
+            }`}
+            style={{ paddingLeft: 8 + depth * 16 }}
+            onClick={() => onSelect(component.id)}
+          >
+            <span className="truncate">
+              <span className={invalidIds.has(component.id) ? 'text-red-600 font-medium' : ''}>
+                {component.id}
+              </span>
+              <span className="ml-1 text-xs text-gray-500">{component.type}</span>
+            </span>
+            <span className="ml-auto flex space-x-1 opacity-0 group-hover:opacity-100">
+              <button
+                type="button"
+                title="Move up"
+                disabled={index === 0}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMove(component.id, parentId, index - 1);
+                }}
+                className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                title="Move down"
+                disabled={index === components.length - 1}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMove(component.id, parentId, index + 2);
+                }}
+                className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                title="Delete"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(component.id);
+                }}
+                className="px-1 text-red-500 hover:text-red-700"
+              >
+                ×
+              </button>
+            </span>
+          </div>
+          {component.children && component.children.length > 0 && (
+            <OutlineList {...props} components={component.children} parentId={component.id} depth={depth + 1} />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+// Tree view of the page with reordering controls
+const PageOutline: React.FC<PageOutlineProps> = (props) => {
+  return (
+    <div className="bg-white shadow rounded-lg p-4">
+      <h2 className="text-sm font-semibold text-gray-700 uppercase mb-3">Outline</h2>
+      {props.components.length === 0 ? (
+        <p className="text-sm text-gray-500">No components yet.</p>
+      ) : (
+        <OutlineList {...props} parentId={null} depth={0} />
+      )}
+    </div>
+  );
+};
+
+export default PageOutline;
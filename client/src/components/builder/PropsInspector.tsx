@@ -0,0 +1,364 @@
+import React from 'react';
+import {
+  COLUMN_FORMATS,
+  COMPONENT_TYPES,
+  ComponentType,
+  FIELD_TYPES,
+  FormField,
+  PageComponent,
+  TableColumn,
+} from '../../types/pageConfig';
+import { STYLE_PROPERTIES, THEME_TOKENS } from '../../types/theme';
+import { CheckboxInput, JsonInput, NumberInput, SelectInput, TextInput } from './InspectorFields';
+import { getRegisteredComponent } from '../custom/registry';
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+interface EditorProps {
+  props: Record<string, any>;
+  // `group` merges consecutive edits of one input into a single undo step
+  update: (changes: Record<string, any>, group: string) => void;
+}
+
+// URL, or a named server-side data source and path (see /api/data)
+const ApiTargetInputs: React.FC<{
+  api: Record<string, any>;
+  onChange: (api: Record<string, any>, key: string) => void;
+}> = ({ api, onChange }) => {
+  // Keep method, payloadMapping etc. when switching between URL and data source
+  const { url, source, path, ...rest } = api;
+
+  return source !== undefined ? (
+    <>
+      <TextInput label="Data source" value={source} onChange={(next) => onChange({ ...api, source: next }, 'source')} required />
+      <TextInput label="Path" value={path ?? ''} onChange={(next) => onChange({ ...api, path: next }, 'path')} required placeholder="/..." />
+      <button
+        type="button"
+        onClick={() => onChange({ ...rest, url: '' }, 'target')}
+        className="text-xs text-blue-600 hover:text-blue-800 mb-3"
+      >
+        Use a URL instead
+      </button>
+    </>
+  ) : (
+    <>
+      <TextInput label="URL" value={url ?? ''} onChange={(next) => onChange({ ...api, url: next }, 'url')} required placeholder="/api/..." />
+      <button
+        type="button"
+        onClick={() => onChange({ ...rest, source: '', path: '/' }, 'target')}
+        className="text-xs text-blue-600 hover:text-blue-800 mb-3"
+      >
+        Use a data source instead
+      </button>
+    </>
+  );
+};
+
+const TextEditor: React.FC<EditorProps> = ({ props, update }) => (
+  <TextInput label="Text" value={props.value ?? ''} onChange={(value) => update({ value }, 'value')} multiline />
+);
+
+// Labels for the style props, in the order they are shown
+const STYLE_LABELS: Record<keyof typeof STYLE_PROPERTIES, string> = {
+  fontSize: 'Font size',
+  fontWeight: 'Font weight',
+  fontFamily: 'Font',
+  color: 'Text color',
+  background: 'Background',
+  borderColor: 'Border',
+  padding: 'Padding',
+  radius: 'Corner radius',
+};
+
+// Theme tokens for the component's `style`; any component can be styled
+const StyleEditor: React.FC<EditorProps> = ({ props, update }) => {
+  const style = props.style || {};
+  const setStyle = (key: string, value: string) => {
+    const next = { ...style, [key]: value || undefined };
+    const empty = Object.values(next).every((entry) => entry === undefined);
+    update({ style: empty ? undefined : next }, `style.${key}`);
+  };
+
+  return (
+    <>
+      {(Object.keys(STYLE_LABELS) as (keyof typeof STYLE_PROPERTIES)[]).map((key) => (
+        <SelectInput
+          key={key}
+          label={STYLE_LABELS[key]}
+          value={style[key] || ''}
+          options={THEME_TOKENS[STYLE_PROPERTIES[key]]}
+          onChange={(value) => setStyle(key, value)}
+          allowEmpty
+        />
+      ))}
+      <SelectInput label="Alignment" value={style.align || ''} options={['left', 'center', 'right']} onChange={(value) => setStyle('align', value)} allowEmpty />
+    </>
+  );
+};
+
+const ImageEditor: React.FC<EditorProps> = ({ props, update }) => (
+  <>
+    <TextInput label="Image URL" value={props.src ?? ''} onChange={(src) => update({ src }, 'src')} required />
+    <TextInput label="Alt text" value={props.alt ?? ''} onChange={(alt) => update({ alt }, 'alt')} />
+    <NumberInput label="Width" value={props.width} onChange={(width) => update({ width }, 'width')} />
+    <NumberInput label="Height" value={props.height} onChange={(height) => update({ height }, 'height')} />
+  </>
+);
+
+const SpacerEditor: React.FC<EditorProps> = ({ props, update }) => (
+  <SelectInput label="Size" value={props.size ?? 'md'} options={['sm', 'md', 'lg', 'xl']} onChange={(size) => update({ size }, 'size')} />
+);
+
+const ContainerEditor: React.FC<EditorProps> = ({ props, update }) => (
+  <>
+    <SelectInput label="Direction" value={props.direction ?? 'column'} options={['column', 'row']} onChange={(direction) => update({ direction }, 'direction')} />
+    <NumberInput label="Gap (px)" value={props.gap} onChange={(gap) => update({ gap }, 'gap')} />
+  </>
+);
+
+const ButtonEditor: React.FC<EditorProps> = ({ props, update }) => (
+  <>
+    <TextInput label="Label" value={props.label ?? ''} onChange={(label) => update({ label }, 'label')} required />
+    <JsonInput
+      label="On click"
+      value={props.onClick}
+      onChange={(onClick) => update({ onClick }, 'onClick')}
+      help='e.g. { "confirm": "Are you sure?", "api": { "method": "POST", "url": "/api/..." } }'
+    />
+  </>
+);
+
+const FormEditor: React.FC<EditorProps> = ({ props, update }) => {
+  const fields: FormField[] = props.fields || [];
+  const submit = props.submit || { api: { url: '' } };
+
+  const setField = (index: number, changes: Partial<FormField>, key: string) =>
+    update({ fields: fields.map((field, i) => (i === index ? { ...field, ...changes } : field)) }, `fields.${index}.${key}`);
+  const setSubmit = (changes: Record<string, any>, key: string) =>
+    update({ submit: { ...submit, ...changes } }, `submit.${key}`);
+
+  return (
+    <>
+      <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2">Fields</h3>
+      {fields.map((field, index) => (
+        <div key={index} className="border border-gray-200 rounded-md p-2 mb-2">
+          <TextInput label="Field ID" value={field.id} onChange={(id) => setField(index, { id }, 'id')} required />
+          <TextInput label="Label" value={field.label ?? ''} onChange={(label) => setField(index, { label }, 'label')} />
+          <SelectInput label="Type" value={field.type ?? 'text'} options={FIELD_TYPES} onChange={(type) => setField(index, { type: type as FormField['type'] }, 'type')} />
+          <TextInput label="Placeholder" value={field.placeholder ?? ''} onChange={(placeholder) => setField(index, { placeholder }, 'placeholder')} />
+          {field.type === 'select' && (
+            <JsonInput
+              label="Options"
+              value={field.options}
+              onChange={(options) => setField(index, { options }, 'options')}
+              help='[{ "label": "Yes", "value": "yes" }]'
+            />
+          )}
+          <CheckboxInput label="Required" value={!!field.required} onChange={(required) => setField(index, { required }, 'required')} />
+          <button
+            type="button"
+            onClick={() => update({ fields: fields.filter((_, i) => i !== index) }, `fields.remove.${index}`)}
+            className="text-xs text-red-600 hover:text-red-800"
+          >
+            Remove field
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => update({ fields: [...fields, { id: `field${fields.length + 1}`, label: '', type: 'text' }] }, 'fields.add')}
+        className="text-sm text-blue-600 hover:text-blue-800 mb-4"
+      >
+        + Add field
+      </button>
+
+      <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2">Submit</h3>
+      <TextInput label="Button label" value={submit.label ?? ''} onChange={(label) => setSubmit({ label }, 'label')} />
+      <CheckboxInput
+        label="Store submissions (no API needed)"
+        value={!!submit.store}
+        onChange={(store) => {
+          const { api, store: _, ...rest } = submit;
+          update({ submit: store ? { ...rest, store: true } : { ...rest, api: { url: '' } } }, 'submit.store');
+        }}
+      />
+      {!submit.store && (
+        <>
+          <SelectInput label="Method" value={submit.api?.method ?? 'POST'} options={METHODS} onChange={(method) => setSubmit({ api: { ...submit.api, method } }, 'method')} />
+          <ApiTargetInputs api={submit.api || {}} onChange={(api, key) => setSubmit({ api }, key)} />
+        </>
+      )}
+      <TextInput label="Success message" value={submit.successMessage ?? ''} onChange={(successMessage) => setSubmit({ successMessage }, 'successMessage')} />
+      <TextInput label="Error message" value={submit.errorMessage ?? ''} onChange={(errorMessage) => setSubmit({ errorMessage }, 'errorMessage')} />
+    </>
+  );
+};
+
+const TableEditor: React.FC<EditorProps> = ({ props, update }) => {
+  const columns: TableColumn[] = props.columns || [];
+  const api = props.api || { url: '' };
+
+  const setColumn = (index: number, changes: Partial<TableColumn>, key: string) =>
+    update({ columns: columns.map((column, i) => (i === index ? { ...column, ...changes } : column)) }, `columns.${index}.${key}`);
+
+  return (
+    <>
+      <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2">Data</h3>
+      <SelectInput label="Method" value={api.method ?? 'GET'} options={METHODS} onChange={(method) => update({ api: { ...api, method } }, 'api.method')} />
+      <ApiTargetInputs api={api} onChange={(next, key) => update({ api: next }, `api.${key}`)} />
+      <TextInput label="Rows path" value={props.dataPath ?? ''} onChange={(dataPath) => update({ dataPath: dataPath || undefined }, 'dataPath')} placeholder="e.g. users" />
+      <SelectInput
+        label="Pagination"
+        value={props.pagination?.mode ?? ''}
+        options={['client', 'server']}
+        onChange={(mode) => update({ pagination: mode ? { ...props.pagination, mode } : undefined }, 'pagination.mode')}
+        allowEmpty
+      />
+      {props.pagination && (
+        <NumberInput
+          label="Page size"
+          value={props.pagination.pageSize}
+          onChange={(pageSize) => update({ pagination: { ...props.pagination, pageSize } }, 'pagination.pageSize')}
+        />
+      )}
+
+      <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2">Columns</h3>
+      {columns.map((column, index) => (
+        <div key={index} className="border border-gray-200 rounded-md p-2 mb-2">
+          <TextInput label="Field" value={column.field} onChange={(field) => setColumn(index, { field }, 'field')} required />
+          <TextInput label="Label" value={column.label ?? ''} onChange={(label) => setColumn(index, { label }, 'label')} />
+          <SelectInput
+            label="Format"
+            value={column.format ?? ''}
+            options={COLUMN_FORMATS}
+            onChange={(format) => setColumn(index, { format: (format || undefined) as TableColumn['format'] }, 'format')}
+            allowEmpty
+          />
+          <CheckboxInput label="Sortable" value={!!column.sortable} onChange={(sortable) => setColumn(index, { sortable }, 'sortable')} />
+          <button
+            type="button"
+            onClick={() => update({ columns: columns.filter((_, i) => i !== index) }, `columns.remove.${index}`)}
+            className="text-xs text-red-600 hover:text-red-800"
+          >
+            Remove column
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => update({ columns: [...columns, { field: '', label: '' }] }, 'columns.add')}
+        className="text-sm text-blue-600 hover:text-blue-800"
+      >
+        + Add column
+      </button>
+    </>
+  );
+};
+
+// Dedicated editors per component type; dividers have no props and fragments are
+// configured through their ref and overrides instead
+const PROP_EDITORS: Record<ComponentType, React.FC<EditorProps> | null> = {
+  text: TextEditor,
+  form: FormEditor,
+  table: TableEditor,
+  button: ButtonEditor,
+  image: ImageEditor,
+  divider: null,
+  spacer: SpacerEditor,
+  container: ContainerEditor,
+  fragment: null,
+};
+
+// Custom types without their own form: every prop but style as JSON
+const CustomPropsEditor: React.FC<EditorProps> = ({ props, update }) => {
+  const { style, ...rest } = props;
+
+  return (
+    <JsonInput
+      label="Props"
+      value={rest}
+      onChange={(next) => {
+        // Keys left out of the JSON are cleared; style is edited below
+        const cleared = Object.fromEntries(Object.keys(rest).map((key) => [key, undefined]));
+        update({ ...cleared, ...(next || {}), style }, 'props');
+      }}
+    />
+  );
+};
+
+// Editor for a component: built-in form, the custom type's own form, or JSON
+const editorFor = (type: string): React.FC<EditorProps> | null => {
+  if ((COMPONENT_TYPES as readonly string[]).includes(type)) return PROP_EDITORS[type as ComponentType];
+  const registration = getRegisteredComponent(type);
+  return registration ? registration.editor || CustomPropsEditor : null;
+};
+
+interface PropsInspectorProps {
+  component: PageComponent;
+  onChange: (component: PageComponent, group: string) => void;
+}
+
+// Edits the selected component's ID, props and visibility rules
+const PropsInspector: React.FC<PropsInspectorProps> = ({ component, onChange }) => {
+  const Editor = editorFor(component.type);
+  const group = (key: string) => `${component.id}.${key}`;
+
+  return (
+    <div>
+      <TextInput
+        label="Component ID"
+        value={component.id}
+        onChange={(id) => onChange({ ...component, id }, 'id')}
+        required
+      />
+      {component.type === 'fragment' ? (
+        <>
+          <TextInput
+            label="Fragment ID"
+            value={component.ref ?? ''}
+            onChange={(ref) => onChange({ ...component, ref }, group('ref'))}
+            required
+          />
+          <JsonInput
+            label="Overrides"
+            value={component.overrides}
+            onChange={(overrides) => onChange({ ...component, overrides }, group('overrides'))}
+            help={`Props to change per component of the fragment, e.g. { "cta": { "label": "Sign up" } }`}
+          />
+        </>
+      ) : Editor ? (
+        <Editor
+          props={component.props}
+          update={(changes, key) => onChange({ ...component, props: { ...component.props, ...changes } }, group(key))}
+        />
+      ) : (
+        <p className="text-sm text-gray-500 mb-3">This component has no properties.</p>
+      )}
+
+      {component.type !== 'fragment' && (
+        <>
+          <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2 mt-4">Style</h3>
+          <StyleEditor
+            props={component.props}
+            update={(changes, key) => onChange({ ...component, props: { ...component.props, ...changes } }, group(key))}
+          />
+        </>
+      )}
+
+      <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2 mt-4">Conditions</h3>
+      <JsonInput
+        label="Visible when"
+        value={component.visibleWhen}
+        onChange={(visibleWhen) => onChange({ ...component, visibleWhen }, group('visibleWhen'))}
+        help='e.g. { "source": "user", "path": "role", "op": "eq", "value": "admin" }'
+      />
+      <JsonInput
+        label="Enabled when"
+        value={component.enabledWhen}
+        onChange={(enabledWhen) => onChange({ ...component, enabledWhen }, group('enabledWhen'))}
+      />
+    </div>
+  );
+};
+
+export default PropsInspector;
@@ -0,0 +1,26 @@
+import React from 'react';
+
+// What is being dragged: a new component from the palette (built-in or custom
+// type) or an existing one
+export type DragItem = { kind: 'new'; type: string } | { kind: 'move'; id: string };
+
+// Custom MIME type so unrelated drags (files, text) are ignored
+const DRAG_MIME = 'application/x-page-builder';
+
+export const setDragItem = (event: React.DragEvent, item: DragItem) => {
+  event.dataTransfer.setData(DRAG_MIME, JSON.stringify(item));
+  event.dataTransfer.effectAllowed = item.kind === 'new' ? 'copy' : 'move';
+};
+
+export const getDragItem = (event: React.DragEvent): DragItem | null => {
+  const data = event.dataTransfer.getData(DRAG_MIME);
+  if (!data) return null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+};
+
+export const isBuilderDrag = (event: React.DragEvent) =>
+  event.dataTransfer.types.includes(DRAG_MIME);
@@ -0,0 +1,46 @@
+import React from 'react';
+import { PageComponent } from '../../types/pageConfig';
+import { useTemplate } from '../../context/PageContext';
+import { SelectInput, TextInput } from '../builder/InspectorFields';
+import { registerComponent } from './registry';
+
+const TONES: Record<string, string> = {
+  info: 'bg-blue-50 border-blue-300 text-blue-800',
+  success: 'bg-green-50 border-green-300 text-green-800',
+  warning: 'bg-yellow-50 border-yellow-300 text-yellow-800',
+  error: 'bg-red-50 border-red-300 text-red-800',
+};
+
+// Highlighted notice with an optional title, e.g. for announcements or warnings
+const Callout: React.FC<{ component: PageComponent }> = ({ component }) => {
+  const { text = '', title, tone } = component.props;
+  const render = useTemplate();
+  const toneClass = TONES[tone] || TONES.info;
+
+  return (
+    <div role={tone === 'error' ? 'alert' : 'note'} className={`border rounded-md px-4 py-3 ${toneClass}`}>
+      {title && <strong className="block">{render(String(title))}</strong>}
+      <p>{render(String(text))}</p>
+    </div>
+  );
+};
+
+registerComponent({
+  type: 'callout',
+  description: 'Highlighted notice',
+  render: Callout,
+  defaultProps: () => ({ text: 'New notice', tone: 'info' }),
+  editor: ({ props, update }) => (
+    <>
+      <TextInput label="Title" value={props.title ?? ''} onChange={(title) => update({ title: title || undefined }, 'title')} />
+      <TextInput label="Text" value={props.text ?? ''} onChange={(text) => update({ text }, 'text')} multiline required />
+      <SelectInput
+        label="Tone"
+        value={props.tone ?? 'info'}
+        options={Object.keys(TONES)}
+        onChange={(tone) => update({ tone }, 'tone')}
+      />
+    </>
+  ),
+  describe: (props) => String(props.text ?? ''),
+});
@@ -0,0 +1,3 @@
+// Custom component types. Each module registers its type with registerComponent()
+// (./registry); add new ones to this list.
+import './Callout';
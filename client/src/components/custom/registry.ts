@@ -0,0 +1,40 @@
+import React from 'react';
+import { PageComponent } from '../../types/pageConfig';
+
+// Props of a custom type's inspector form (same shape as the built-in editors)
+export interface ComponentEditorProps {
+  props: Record<string, any>;
+  update: (changes: Record<string, any>, group: string) => void;
+}
+
+// A component type added outside the built-in set. The server must register the
+// same type with a props schema (server/components) or pages using it won't save.
+export interface ComponentRegistration {
+  type: string;
+  // Shown under the type in the builder palette
+  description: string;
+  // Receives the component with `props` always an object; style tokens are
+  // applied around it by ComponentRenderer
+  render: React.FC<{ component: PageComponent }>;
+  // Starting props for components added from the palette
+  defaultProps: () => Record<string, any>;
+  // Inspector form; without one the props are edited as JSON
+  editor?: React.FC<ComponentEditorProps>;
+  // One-line summary for the builder canvas
+  describe?: (props: Record<string, any>) => string;
+}
+
+const registrations = new Map<string, ComponentRegistration>();
+
+// Add a component type to the renderer and the page builder
+export const registerComponent = (registration: ComponentRegistration) => {
+  if (registrations.has(registration.type)) {
+    throw new Error(`Component type "${registration.type}" is already registered`);
+  }
+  registrations.set(registration.type, registration);
+};
+
+export const getRegisteredComponent = (type: string) => registrations.get(type);
+
+// Registered types, in registration order
+export const listRegisteredComponents = () => Array.from(registrations.values());
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ButtonAction, ConfirmConfig, PageComponent } from '../../types/pageConfig';
+import { usePage, useTemplate } from '../../context/PageContext';
+import { useTheme } from '../../context/ThemeContext';
+import { primaryButtonStyle } from '../../utils/theme';
+import { bindAction, runAction } from '../../utils/actions';
+import { PAGE_EVENT_TYPES } from '../../utils/analytics';
+import ConfirmModal from './ConfirmModal';
+
+interface PendingConfirm {
+  config: ConfirmConfig;
+  resolve: (confirmed: boolean) => void;
+}
+
+const ButtonComponent: React.FC<{ component: PageComponent }> = ({ component }) => {
+  const { label } = component.props;
+  const onClick: ButtonAction | undefined = component.props.onClick;
+  const { refresh, track } = usePage();
+  const render = useTemplate();
+  const theme = useTheme();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState<boolean>(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(null);
+
+  // Show the confirmation modal and wait for the user's choice
+  const confirm = (config: ConfirmConfig) =>
+    new Promise<boolean>((resolve) => setPendingConfirm({ config, resolve }));
+
+  const closeConfirm = (confirmed: boolean) => {
+    pendingConfirm?.resolve(confirmed);
+    setPendingConfirm(null);
+  };
+
+  // Handle button click
+  const handleClick = async () => {
+    track(PAGE_EVENT_TYPES.BUTTON_CLICK, component.id);
+    if (!onClick) return;
+
+    setLoading(true);
+    setMessage(null);
+    // Templates are filled in at click time so they see the latest form values
+    await runAction(bindAction(onClick, render), {
+      confirm,
+      refresh,
+      navigate: (pageId) => navigate(`/${pageId}`),
+      notify: (type, text) => setMessage({ type, text }),
+    });
+    setLoading(false);
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={loading}
+        className={`px-4 py-2 border border-transparent shadow-sm text-sm font-medium ${loading ? 'cursor-not-allowed' : ''}`}
+        style={primaryButtonStyle(theme, loading)}
+      >
+        {loading ? 'Please wait...' : render(label)}
+      </button>
+      {message && (
+        <p className={`mt-2 text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+      {pendingConfirm && (
+        <ConfirmModal
+          config={pendingConfirm.config}
+          onConfirm={() => closeConfirm(true)}
+          onCancel={() => closeConfirm(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ButtonComponent;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { PageComponent } from '../../types/pageConfig';
+import UnknownComponent from './UnknownComponent';
+
+interface ComponentErrorBoundaryProps {
+  component: PageComponent;
+  children: React.ReactNode;
+}
+
+interface ComponentErrorBoundaryState {
+  hasError: boolean;
+}
+
+// Keeps a single broken component from taking down the whole page
+class ComponentErrorBoundary extends React.Component<
+  ComponentErrorBoundaryProps,
+  ComponentErrorBoundaryState
+> {
+  state: ComponentErrorBoundaryState = { hasError: false };
+
+  static getDerivedStateFromError(): ComponentErrorBoundaryState {
+    return { hasError: true };
+  }
+
+  componentDidCatch(error: Error) {
+    console.error(`Error rendering component "${this.props.component.id}":`, error);
+  }
+
+  render() {
+    if (this.state.hasError) {
+      return (
+        <UnknownComponent
+          component={this.props.component}
+          reason={`Component "${this.props.component.type}" failed to render`}
+        />
+      );
+    }
+
+    return this.props.children;
+  }
+}
+
+export default ComponentErrorBoundary;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { PageComponent } from '../../types/pageConfig';
+import { useCondition } from '../../context/PageContext';
+import { useTheme } from '../../context/ThemeContext';
+import { styleFor } from '../../utils/theme';
+import ComponentErrorBoundary from './ComponentErrorBoundary';
+import TextComponent from './TextComponent';
+import FormComponent from './FormComponent';
+import TableComponent from './TableComponent';
+import ButtonComponent from './ButtonComponent';
+import ImageComponent from './ImageComponent';
+import DividerComponent from './DividerComponent';
+import SpacerComponent from './SpacerComponent';
+import ContainerComponent from './ContainerComponent';
+import UnknownComponent from './UnknownComponent';
+import { getRegisteredComponent } from '../custom/registry';
+
+interface ComponentRendererProps {
+  component: PageComponent;
+}
+
+// Render a single component by switching on its type; types outside the built-in
+// set come from the custom component registry
+const renderComponent = (component: PageComponent): React.ReactNode => {
+  switch (component.type) {
+    case 'text':
+      return <TextComponent component={component} />;
+    case 'form':
+      return <FormComponent component={component} />;
+    case 'table':
+      return <TableComponent component={component} />;
+    case 'button':
+      return <ButtonComponent component={component} />;
+    case 'image':
+      return <ImageComponent component={component} />;
+    case 'divider':
+      return <DividerComponent />;
+    case 'spacer':
+      return <SpacerComponent component={component} />;
+    case 'container':
+      return (
+        <ContainerComponent component={component}>
+          {(component.children || []).map((child) => (
+            <ComponentRenderer key={child.id} component={child} />
+          ))}
+        </ContainerComponent>
+      );
+    case 'fragment':
+      // Served pages have their fragments expanded; only the builder preview gets here
+      return (
+        <UnknownComponent
+          component={component}
+          reason={`Fragment "${component.ref || ''}" is included when the page is served`}
+        />
+      );
+    default: {
+      const registration = getRegisteredComponent(component.type);
+      if (!registration) return <UnknownComponent component={component} />;
+      const Custom = registration.render;
+      return <Custom component={component} />;
+    }
+  }
+};
+
+// Central renderer for config-driven components
+const ComponentRenderer: React.FC<ComponentRendererProps> = ({ component }) => {
+  const visible = useCondition(component.visibleWhen);
+  const enabled = useCondition(component.enabledWhen);
+  const theme = useTheme();
+
+  if (!visible) return null;
+
+  // Normalise props so leaf components can rely on an object
+  const normalized: PageComponent = { ...component, props: component.props || {} };
+  const { style } = normalized.props;
+  const rendered = (
+    <ComponentErrorBoundary component={normalized}>
+      {/* Style tokens apply to the component's whole block; text inherits them */}
+      {style ? <div style={styleFor(style, theme)}>{renderComponent(normalized)}</div> : renderComponent(normalized)}
+    </ComponentErrorBoundary>
+  );
+
+  // A disabled fieldset disables every input and button inside the component
+  if (component.enabledWhen) {
+    return (
+      <fieldset disabled={!enabled} aria-disabled={!enabled} className={enabled ? '' : 'opacity-50'}>
+        {rendered}
+      </fieldset>
+    );
+  }
+
+  return rendered;
+};
+
+export default ComponentRenderer;
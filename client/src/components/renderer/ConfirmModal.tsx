@@ -0,0 +1,40 @@
+import React from 'react';
+import { ConfirmConfig } from '../../types/pageConfig';
+
+interface ConfirmModalProps {
+  config: ConfirmConfig;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Confirmation dialog for button actions, styled like the delete confirmation on the user management page
+const ConfirmModal: React.FC<ConfirmModalProps> = ({ config, onConfirm, onCancel }) => {
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center p-4">
+      <div role="dialog" aria-modal="true" className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="px-12 py-4 border-b">
+          <h3 className="text-lg font-medium">{config.title || 'Are you sure?'}</h3>
+        </div>
+        <div className="px-12 py-4">
+          <p>{config.message}</p>
+        </div>
+        <div className="px-12 py-4 bg-gray-50 flex justify-end space-x-2 rounded-b-lg">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {config.cancelLabel || 'Cancel'}
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          >
+            {config.confirmLabel || 'Confirm'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmModal;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { PageComponent } from '../../types/pageConfig';
+
+interface ContainerComponentProps {
+  component: PageComponent;
+  children: React.ReactNode;
+}
+
+const ContainerComponent: React.FC<ContainerComponentProps> = ({ component, children }) => {
+  const { direction = 'column', gap = 16 } = component.props;
+
+  return (
+    <div
+      className={direction === 'row' ? 'flex flex-wrap' : 'flex flex-col'}
+      style={{ gap }}
+    >
+      {children}
+    </div>
+  );
+};
+
+export default ContainerComponent;
@@ -0,0 +1,7 @@
+import React from 'react';
+
+const DividerComponent: React.FC = () => {
+  return <hr className="my-4 border-gray-200" />;
+};
+
+export default DividerComponent;
@@ -0,0 +1,42 @@
+import React, { useContext } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import FormComponent from './FormComponent';
+import PageContext from '../../context/PageContext';
+import { PageComponent } from '../../types/pageConfig';
+
+// The axios build is ESM, which jest doesn't load; nothing is submitted here
+jest.mock('axios', () => ({ request: jest.fn() }));
+
+const PageState: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const defaults = useContext(PageContext);
+  return (
+    <PageContext.Provider
+      value={{ ...defaults, templateContext: { ...defaults.templateContext, user: { first_name: 'Ada' } } }}
+    >
+      {children}
+    </PageContext.Provider>
+  );
+};
+
+const form = (submit: Record<string, unknown>): PageComponent => ({
+  id: 'signup',
+  type: 'form',
+  props: { fields: [{ id: 'email', type: 'email', label: 'Email' }], submit },
+});
+
+const markup = (component: PageComponent) =>
+  renderToStaticMarkup(
+    <PageState>
+      <FormComponent component={component} />
+    </PageState>
+  );
+
+describe('FormComponent', () => {
+  it('renders templates in the submit label', () => {
+    expect(markup(form({ label: 'Join, {{user.first_name}}', store: true }))).toContain('>Join, Ada</button>');
+  });
+
+  it('falls back to a default submit label', () => {
+    expect(markup(form({ store: true }))).toContain('>Submit</button>');
+  });
+});
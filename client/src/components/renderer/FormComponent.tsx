@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import { FormField, FormSubmitConfig, FormValue, PageComponent } from '../../types/pageConfig';
+import { bindApi, resolveApi } from '../../utils/apiUrl';
+import { usePage, useTemplate } from '../../context/PageContext';
+import { useTheme } from '../../context/ThemeContext';
+import { primaryButtonStyle } from '../../utils/theme';
+import { evaluateCondition } from '../../utils/conditions';
+import {
+  FormErrors,
+  FormValues,
+  buildPayload,
+  getInitialValue,
+  mapServerErrors,
+  validateField,
+  validateForm,
+} from '../../utils/formValidation';
+import FormFieldInput from './FormFieldInput';
+import { PAGE_EVENT_TYPES } from '../../utils/analytics';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+const initialValues = (fields: FormField[]): FormValues =>
+  Object.fromEntries(fields.map((field) => [field.id, getInitialValue(field)]));
+
+const FormComponent: React.FC<{ component: PageComponent }> = ({ component }) => {
+  const fields: FormField[] = component.props.fields || [];
+  const submit: FormSubmitConfig = component.props.submit || {};
+  const [values, setValues] = useState<FormValues>(() => initialValues(fields));
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const { setFormValues, track, pageId, conditionContext } = usePage();
+  const render = useTemplate();
+  const theme = useTheme();
+
+  // Share current values so conditions elsewhere on the page can react to them
+  useEffect(() => {
+    setFormValues(component.id, values);
+  }, [setFormValues, component.id, values]);
+
+  // Hidden fields are neither validated nor submitted
+  const visibleFields = fields.filter(
+    (field) => !field.visibleWhen || evaluateCondition(field.visibleWhen, conditionContext)
+  );
+
+  // Handle field value change, re-validating fields the user has already left
+  const handleChange = (fieldId: string, value: FormValue) => {
+    setValues((prev) => ({ ...prev, [fieldId]: value }));
+    if (touched[fieldId]) {
+      const field = fields.find((f) => f.id === fieldId);
+      const error = field ? validateField(field, value) : null;
+      setErrors((prev) => {
+        const { [fieldId]: _, ...rest } = prev;
+        return error ? { ...rest, [fieldId]: error } : rest;
+      });
+    }
+  };
+
+  // Validate a field when it loses focus
+  const handleBlur = (fieldId: string) => {
+    setTouched((prev) => ({ ...prev, [fieldId]: true }));
+    const field = fields.find((f) => f.id === fieldId);
+    const error = field ? validateField(field, values[fieldId]) : null;
+    setErrors((prev) => {
+      const { [fieldId]: _, ...rest } = prev;
+      return error ? { ...rest, [fieldId]: error } : rest;
+    });
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    track(PAGE_EVENT_TYPES.FORM_SUBMIT, component.id);
+
+    // Validate all fields before submitting
+    const validationErrors = validateForm(visibleFields, values);
+    setErrors(validationErrors);
+    setTouched(Object.fromEntries(visibleFields.map((field) => [field.id, true])));
+    if (Object.keys(validationErrors).length > 0) {
+      track(PAGE_EVENT_TYPES.FORM_FAILURE, component.id);
+      return;
+    }
+
+    // Stored forms post every field under its own id to the built-in store
+    let request;
+    if (submit.store) {
+      if (!pageId) {
+        setMessage({ type: 'error', text: 'Submissions are only stored from the published page' });
+        track(PAGE_EVENT_TYPES.FORM_FAILURE, component.id);
+        return;
+      }
+      request = {
+        method: 'POST',
+        url: `${API_URL}/page-config/${encodeURIComponent(pageId)}/forms/${encodeURIComponent(component.id)}/submissions`,
+        data: buildPayload(visibleFields, values),
+      };
+    } else if (submit.api?.url || submit.api?.source) {
+      request = {
+        method: submit.api.method || 'POST',
+        url: resolveApi(bindApi(submit.api, render)),
+        data: buildPayload(visibleFields, values, submit.api.payloadMapping),
+      };
+    } else {
+      setMessage({ type: 'error', text: 'This form has no submit target configured' });
+      track(PAGE_EVENT_TYPES.FORM_FAILURE, component.id);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await axios.request(request);
+      setMessage({ type: 'success', text: render(submit.successMessage || 'Submitted successfully') });
+      track(PAGE_EVENT_TYPES.FORM_SUCCESS, component.id);
+      if (submit.resetOnSuccess !== false) {
+        setValues(initialValues(fields));
+        setTouched({});
+      }
+    } catch (err: any) {
+      const status = err.response?.status;
+      track(PAGE_EVENT_TYPES.FORM_FAILURE, component.id);
+
+      // Map 4xx field errors back onto the matching inputs
+      if (status >= 400 && status < 500) {
+        setErrors(mapServerErrors(visibleFields, err.response?.data, submit.api?.payloadMapping));
+      }
+
+      setMessage({
+        type: 'error',
+        text: submit.errorMessage ? render(submit.errorMessage) : err.response?.data?.message || 'Submission failed',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      {visibleFields.map((field) => (
+        <FormFieldInput
+          key={field.id}
+          formId={component.id}
+          field={field}
+          value={values[field.id] ?? ''}
+          error={errors[field.id]}
+          disabled={submitting}
+          onChange={handleChange}
+          onBlur={handleBlur}
+        />
+      ))}
+      {message && (
+        <div
+          role={message.type === 'error' ? 'alert' : 'status'}
+          className={
+            message.type === 'success'
+              ? 'bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded'
+              : 'bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded'
+          }
+        >
+          {message.text}
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={submitting}
+        className={`px-4 py-2 border border-transparent shadow-sm text-sm font-medium ${submitting ? 'cursor-not-allowed' : ''}`}
+        style={primaryButtonStyle(theme, submitting)}
+      >
+        {submitting ? 'Submitting...' : render(submit.label || 'Submit')}
+      </button>
+    </form>
+  );
+};
+
+export default FormComponent;
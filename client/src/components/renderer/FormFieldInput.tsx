@@ -0,0 +1,123 @@
+import React from 'react';
+import { FormField, FormValue } from '../../types/pageConfig';
+
+interface FormFieldInputProps {
+  formId: string;
+  field: FormField;
+  value: FormValue;
+  error?: string;
+  disabled?: boolean;
+  onChange: (fieldId: string, value: FormValue) => void;
+  onBlur: (fieldId: string) => void;
+}
+
+const inputClassName = (hasError: boolean) =>
+  `block w-full border ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  } rounded-md shadow-sm py-1.5 px-3 bg-white`;
+
+// Render a single form field by its type
+const FormFieldInput: React.FC<FormFieldInputProps> = ({
+  formId,
+  field,
+  value,
+  error,
+  disabled,
+  onChange,
+  onBlur,
+}) => {
+  const inputId = `${formId}-${field.id}`;
+  const errorId = `${inputId}-error`;
+  const commonProps = {
+    id: inputId,
+    name: field.id,
+    disabled,
+    'aria-invalid': Boolean(error),
+    'aria-describedby': error ? errorId : undefined,
+    onBlur: () => onBlur(field.id),
+  };
+
+  let input: React.ReactNode;
+  switch (field.type) {
+    case 'textarea':
+      input = (
+        <textarea
+          {...commonProps}
+          value={String(value)}
+          placeholder={field.placeholder}
+          onChange={(e) => onChange(field.id, e.target.value)}
+          className={inputClassName(Boolean(error))}
+          rows={4}
+        />
+      );
+      break;
+    case 'select':
+      input = (
+        <select
+          {...commonProps}
+          value={String(value)}
+          onChange={(e) => onChange(field.id, e.target.value)}
+          className={inputClassName(Boolean(error))}
+        >
+          <option value="">{field.placeholder || 'Select...'}</option>
+          {(field.options || []).map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+      break;
+    case 'checkbox':
+      input = (
+        <input
+          {...commonProps}
+          type="checkbox"
+          checked={value === true}
+          onChange={(e) => onChange(field.id, e.target.checked)}
+          className="h-4 w-4"
+        />
+      );
+      break;
+    default:
+      input = (
+        <input
+          {...commonProps}
+          type={field.type || 'text'}
+          value={String(value)}
+          placeholder={field.placeholder}
+          onChange={(e) => onChange(field.id, e.target.value)}
+          className={inputClassName(Boolean(error))}
+        />
+      );
+  }
+
+  return (
+    <div className="space-y-2">
+      {field.type === 'checkbox' ? (
+        <div className="flex items-center space-x-2">
+          {input}
+          <label htmlFor={inputId} className="text-sm font-medium text-gray-700">
+            {field.label || field.id}
+            {field.required && <span className="text-red-600"> *</span>}
+          </label>
+        </div>
+      ) : (
+        <>
+          <label htmlFor={inputId} className="block text-sm font-medium text-gray-700">
+            {field.label || field.id}
+            {field.required && <span className="text-red-600"> *</span>}
+          </label>
+          {input}
+        </>
+      )}
+      {error && (
+        <p id={errorId} className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FormFieldInput;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { PageComponent } from '../../types/pageConfig';
+import { useTemplate } from '../../context/PageContext';
+
+const ImageComponent: React.FC<{ component: PageComponent }> = ({ component }) => {
+  const { src, alt = '', width, height } = component.props;
+  const render = useTemplate();
+
+  if (!src) return null;
+
+  return (
+    <img
+      src={render(src)}
+      alt={render(alt)}
+      width={width}
+      height={height}
+      className="max-w-full h-auto rounded"
+    />
+  );
+};
+
+export default ImageComponent;
@@ -0,0 +1,14 @@
+import React from 'react';
+import { PageComponent } from '../../types/pageConfig';
+import { useTheme } from '../../context/ThemeContext';
+
+// Size is a spacing token of the page theme, or a number of pixels
+const SpacerComponent: React.FC<{ component: PageComponent }> = ({ component }) => {
+  const { size = 'md' } = component.props;
+  const { spacing } = useTheme();
+  const height = typeof size === 'number' ? size : (spacing as Record<string, number | string>)[size] ?? spacing.md;
+
+  return <div aria-hidden="true" style={{ height }} />;
+};
+
+export default SpacerComponent;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom/server';
+import TableCell from './TableCell';
+import { TableColumn } from '../../types/pageConfig';
+
+const markup = (column: TableColumn, row: any) =>
+  renderToStaticMarkup(
+    <StaticRouter location="/">
+      <TableCell column={column} row={row} />
+    </StaticRouter>
+  );
+
+const link: TableColumn = { field: 'url', label: 'Link', format: 'link', formatOptions: { labelField: 'name' } };
+
+describe('TableCell link format', () => {
+  it('renders http(s) and relative URLs as links', () => {
+    expect(markup(link, { url: 'https://example.com/a', name: 'A' })).toContain('href="https://example.com/a"');
+    expect(markup(link, { url: '/orders/1', name: 'Order' })).toContain('href="/orders/1"');
+  });
+
+  it('renders javascript: URLs from row data as plain text', () => {
+    // eslint-disable-next-line no-script-url
+    for (const url of ['javascript:alert(document.cookie)', ' JavaScript:alert(1)', 'data:text/html,<script>alert(1)</script>']) {
+      expect(markup(link, { url, name: 'Click me' })).toBe('Click me');
+    }
+  });
+
+  it('encodes row values filled into an href template', () => {
+    const column: TableColumn = { ...link, formatOptions: { href: '/customers/{id}', labelField: 'name' } };
+    // eslint-disable-next-line no-script-url
+    expect(markup(column, { url: 'x', id: 'javascript:alert(1)', name: 'Ada' })).toContain('href="/customers/javascript%3Aalert(1)"');
+  });
+});
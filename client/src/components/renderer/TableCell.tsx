@@ -0,0 +1,98 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { TableColumn } from '../../types/pageConfig';
+import { isSafeUrl } from '../../utils/apiUrl';
+import { getByPath } from '../../utils/path';
+
+// Badge colour classes, matching the role badges on the user management page
+const BADGE_COLORS: Record<string, string> = {
+  green: 'bg-green-100 text-green-800',
+  red: 'bg-red-100 text-red-800',
+  blue: 'bg-blue-100 text-blue-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  purple: 'bg-purple-100 text-purple-800',
+  gray: 'bg-gray-100 text-gray-800',
+};
+
+// Replace {field} placeholders in a link template with row values
+const fillTemplate = (template: string, row: any): string =>
+  template.replace(/\{([^}]+)\}/g, (_, path) => encodeURIComponent(String(getByPath(row, path) ?? '')));
+
+interface TableCellProps {
+  column: TableColumn;
+  row: any;
+}
+
+// Render a table cell value using the column's formatter
+const TableCell: React.FC<TableCellProps> = ({ column, row }) => {
+  const value = getByPath(row, column.field);
+  const options = column.formatOptions || {};
+
+  if (value === null || value === undefined || value === '') {
+    return <>-</>;
+  }
+
+  switch (column.format) {
+    case 'date':
+    case 'datetime': {
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) return <>{String(value)}</>;
+      return (
+        <>
+          {column.format === 'date'
+            ? date.toLocaleDateString(options.locale)
+            : date.toLocaleString(options.locale)}
+        </>
+      );
+    }
+    case 'currency': {
+      const amount = Number(value);
+      if (Number.isNaN(amount)) return <>{String(value)}</>;
+      return (
+        <>
+          {new Intl.NumberFormat(options.locale, {
+            style: 'currency',
+            currency: options.currency || 'USD',
+          }).format(amount)}
+        </>
+      );
+    }
+    case 'badge':
+      return (
+        <span
+          className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+            BADGE_COLORS[options.colors?.[String(value)] || 'gray'] || BADGE_COLORS.gray
+          }`}
+        >
+          {String(value)}
+        </span>
+      );
+    case 'link': {
+      const href = options.href ? fillTemplate(options.href, row) : String(value);
+      const label = options.labelField ? getByPath(row, options.labelField) : value;
+
+      // URLs come from API data, so anything but relative and http(s) URLs is shown as text
+      if (!isSafeUrl(href)) {
+        return <>{String(label)}</>;
+      }
+
+      // Links to other pages of this app stay inside the router
+      if (href.startsWith('/') && !href.startsWith('/api/')) {
+        return (
+          <Link to={href} className="text-blue-600 hover:text-blue-800">
+            {String(label)}
+          </Link>
+        );
+      }
+      return (
+        <a href={href} className="text-blue-600 hover:text-blue-800" target="_blank" rel="noopener noreferrer">
+          {String(label)}
+        </a>
+      );
+    }
+    default:
+      return <>{typeof value === 'object' ? JSON.stringify(value) : String(value)}</>;
+  }
+};
+
+export default TableCell;
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import axios from 'axios';
+import { PageComponent, TableColumn, TablePagination } from '../../types/pageConfig';
+import { usePage, useTemplate } from '../../context/PageContext';
+import { bindApi, resolveApi } from '../../utils/apiUrl';
+import { getByPath } from '../../utils/path';
+import TableCell from './TableCell';
+
+type SortState = { field: string; direction: 'asc' | 'desc' } | null;
+
+// Pick the rows out of an API response: the value at dataPath when configured,
+// otherwise the response itself or its first array property (e.g. { users: [...] })
+const extractRows = (data: any, dataPath?: string): any[] => {
+  if (dataPath) {
+    const rows = getByPath(data, dataPath);
+    return Array.isArray(rows) ? rows : [];
+  }
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === 'object') {
+    const firstArray = Object.values(data).find(Array.isArray);
+    if (firstArray) return firstArray as any[];
+  }
+  return [];
+};
+
+// Compare two cell values for sorting (numbers and dates numerically, everything else as text)
+const compareValues = (a: any, b: any): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+const TableComponent: React.FC<{ component: PageComponent }> = ({ component }) => {
+  const columns: TableColumn[] = component.props.columns || [];
+  const { api, dataPath } = component.props;
+  const pagination: TablePagination | undefined = component.props.pagination;
+  const pageSize = pagination?.pageSize || 20;
+  const isServerPaged = pagination?.mode === 'server';
+  const isServerSorted = isServerPaged && Boolean(pagination?.sortParam);
+
+  const [rows, setRows] = useState<any[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [page, setPage] = useState<number>(1);
+  const [sort, setSort] = useState<SortState>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const { registerRefresh, setComponentData } = usePage();
+  const render = useTemplate();
+
+  // Paging and sorting only trigger refetches when the server handles them
+  const serverPage = isServerPaged ? page : 0;
+  const serverSort = isServerSorted ? sort : null;
+
+  // Plain URL or data source proxy URL
+  const requestUrl = api?.url || api?.source ? resolveApi(bindApi(api, render)) : null;
+
+  // Fetch rows, passing paging and sorting params when the server handles them
+  const fetchRows = useCallback(async () => {
+    if (!requestUrl) return;
+    try {
+      setLoading(true);
+      const params: Record<string, string | number> = {};
+      if (isServerPaged) {
+        params[pagination?.pageParam || 'page'] = serverPage;
+        params[pagination?.limitParam || 'limit'] = pageSize;
+        if (serverSort) {
+          params[pagination?.sortParam as string] = serverSort.field;
+          params[pagination?.orderParam || 'order'] = serverSort.direction;
+        }
+      }
+
+      const response = await axios.request({
+        method: api.method || 'GET',
+        url: requestUrl,
+        params,
+      });
+      const fetchedRows = extractRows(response.data, dataPath);
+      setRows(fetchedRows);
+      setComponentData(component.id, fetchedRows);
+      setTotal(
+        isServerPaged
+          ? Number(getByPath(response.data, pagination?.totalPath || 'pagination.total')) || fetchedRows.length
+          : fetchedRows.length
+      );
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error fetching data');
+    } finally {
+      setLoading(false);
+    }
+  }, [
+    component.id,
+    setComponentData,
+    requestUrl,
+    api?.method,
+    dataPath,
+    isServerPaged,
+    pageSize,
+    serverPage,
+    serverSort,
+    pagination?.pageParam,
+    pagination?.limitParam,
+    pagination?.sortParam,
+    pagination?.orderParam,
+    pagination?.totalPath,
+  ]);
+
+  useEffect(() => {
+    fetchRows();
+  }, [fetchRows]);
+
+  // Let button actions on the page reload this table by id
+  useEffect(() => registerRefresh(component.id, fetchRows), [registerRefresh, component.id, fetchRows]);
+
+  // Rows for the current page, sorted locally unless the server sorts them
+  const visibleRows = useMemo(() => {
+    const sorted =
+      sort && !isServerSorted
+        ? [...rows].sort((a, b) => {
+            const result = compareValues(getByPath(a, sort.field), getByPath(b, sort.field));
+            return sort.direction === 'asc' ? result : -result;
+          })
+        : rows;
+
+    if (pagination && !isServerPaged) {
+      return sorted.slice((page - 1) * pageSize, page * pageSize);
+    }
+    return sorted;
+  }, [rows, sort, isServerSorted, pagination, isServerPaged, page, pageSize]);
+
+  const pages = pagination ? Math.max(1, Math.ceil(total / pageSize)) : 1;
+
+  // Toggle sorting on a column: ascending, then descending
+  const handleSort = (column: TableColumn) => {
+    if (!column.sortable) return;
+    setSort((prev) =>
+      prev?.field === column.field && prev.direction === 'asc'
+        ? { field: column.field, direction: 'desc' }
+        : { field: column.field, direction: 'asc' }
+    );
+    setPage(1);
+  };
+
+  // Handle page change
+  const handlePageChange = (newPage: number) => {
+    if (newPage < 1 || newPage > pages) return;
+    setPage(newPage);
+  };
+
+  if (loading && rows.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <div className="spinner"></div>
+        <p>Loading...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {columns.map((column) => (
+                <th
+                  key={column.field}
+                  onClick={() => handleSort(column)}
+                  aria-sort={
+                    sort?.field === column.field
+                      ? sort.direction === 'asc'
+                        ? 'ascending'
+                        : 'descending'
+                      : undefined
+                  }
+                  className={`px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider ${
+                    column.sortable ? 'cursor-pointer select-none hover:text-gray-700' : ''
+                  }`}
+                >
+                  {column.label || column.field}
+                  {sort?.field === column.field && (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleRows.length === 0 ? (
+              <tr>
+                <td colSpan={columns.length} className="px-6 py-4 text-center text-gray-500">
+                  No data found
+                </td>
+              </tr>
+            ) : (
+              visibleRows.map((row, index) => (
+                <tr key={row.id ?? index}>
+                  {columns.map((column) => (
+                    <td key={column.field} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      <TableCell column={column} row={row} />
+                    </td>
+                  ))}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      {pagination && total > 0 && (
+        <div className="mt-4 flex items-center justify-between">
+          <div className="text-sm text-gray-700">
+            Showing <span className="font-medium">{(page - 1) * pageSize + 1}</span> to{' '}
+            <span className="font-medium">{Math.min(page * pageSize, total)}</span> of{' '}
+            <span className="font-medium">{total}</span> results
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => handlePageChange(page - 1)}
+              disabled={page === 1}
+              className={`px-3 py-1 border rounded-md ${
+                page === 1 ? 'bg-gray-100 text-gray-400 cursor-not-allowed' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              Previous
+            </button>
+            <span className="px-3 py-1 text-sm text-gray-700">
+              Page {page} of {pages}
+            </span>
+            <button
+              onClick={() => handlePageChange(page + 1)}
+              disabled={page === pages}
+              className={`px-3 py-1 border rounded-md ${
+                page === pages
+                  ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TableComponent;
@@ -0,0 +1,14 @@
+import React from 'react';
+import { PageComponent } from '../../types/pageConfig';
+import { useTemplate } from '../../context/PageContext';
+
+// Font, color and alignment come from the component's style tokens, applied by
+// ComponentRenderer, and otherwise from the page theme
+const TextComponent: React.FC<{ component: PageComponent }> = ({ component }) => {
+  const { value = '' } = component.props;
+  const render = useTemplate();
+
+  return <p>{render(String(value))}</p>;
+};
+
+export default TextComponent;
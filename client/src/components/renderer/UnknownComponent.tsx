@@ -0,0 +1,19 @@
+import React from 'react';
+import { PageComponent } from '../../types/pageConfig';
+
+interface UnknownComponentProps {
+  component: PageComponent;
+  reason?: string;
+}
+
+// Visible placeholder for components that cannot be rendered
+const UnknownComponent: React.FC<UnknownComponentProps> = ({ component, reason }) => {
+  return (
+    <div className="border border-dashed border-yellow-400 bg-yellow-50 text-yellow-800 text-sm px-4 py-3 rounded">
+      {reason || `Unsupported component type "${component.type}"`}
+      {component.id && <span className="text-yellow-600"> (id: {component.id})</span>}
+    </div>
+  );
+};
+
+export default UnknownComponent;
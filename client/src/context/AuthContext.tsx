@@ -11,6 +11,7 @@ export interface User {
   last_name: string;
   email: string;
   role: 'admin' | 'moderator' | 'user';
+  locale?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -24,6 +25,7 @@ interface AuthContextType {
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
   initAdmin: (userData: InitAdminData) => Promise<void>;
+  setLocale: (locale: string | null) => Promise<void>;
 }
 
 // Initial admin data interface
@@ -43,6 +45,7 @@ const AuthContext = createContext<AuthContextType>({
   logout: async () => {},
   checkAuth: async () => {},
   initAdmin: async () => {},
+  setLocale: async () => {},
 });
 
 // Auth provider component
@@ -117,6 +120,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Save the logged-in user's preferred page language (null to follow the browser)
+  const setLocale = async (locale: string | null): Promise<void> => {
+    if (!user) return;
+    const response = await axios.put(`${API_URL}/users/${user.id}`, { locale });
+    setUser({ ...user, locale: response.data.user.locale });
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -127,6 +137,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         logout,
         checkAuth,
         initAdmin,
+        setLocale,
       }}
     >
       {children}
@@ -0,0 +1,132 @@
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import { useLocation, useParams } from 'react-router-dom';
+import { useAuth } from './AuthContext';
+import { Condition } from '../types/pageConfig';
+import { ConditionContext, evaluateCondition } from '../utils/conditions';
+import { RenderOptions, TemplateContext, renderTemplate } from '../utils/template';
+import { PageEventType } from '../utils/analytics';
+
+type RefreshHandler = () => void | Promise<void>;
+
+// Page context interface
+interface PageContextType {
+  registerRefresh: (componentId: string, handler: RefreshHandler) => () => void;
+  refresh: (componentId: string) => Promise<void>;
+  setFormValues: (formId: string, values: Record<string, any>) => void;
+  setComponentData: (componentId: string, data: any) => void;
+  track: (type: PageEventType, componentId: string) => void;
+  // ID of the published page being viewed; not set for builder previews
+  pageId?: string;
+  conditionContext: ConditionContext;
+  templateContext: TemplateContext;
+}
+
+// Create context with default values
+const PageContext = createContext<PageContextType>({
+  registerRefresh: () => () => {},
+  refresh: async () => {},
+  setFormValues: () => {},
+  setComponentData: () => {},
+  track: () => {},
+  conditionContext: { form: {}, user: null, query: {}, data: {} },
+  templateContext: { form: {}, user: null, route: {}, query: {}, data: {} },
+});
+
+interface PageProviderProps {
+  children: React.ReactNode;
+  pageId?: string;
+  // Receives button clicks and form submits from the page's components
+  // (analytics, A/B conversions). Not set for builder previews.
+  onEvent?: (type: PageEventType, componentId: string) => void;
+}
+
+// Page provider component, shared by every component rendered on one config-driven page
+export const PageProvider: React.FC<PageProviderProps> = ({ children, pageId, onEvent }) => {
+  const { user } = useAuth();
+  const location = useLocation();
+  const routeParams = useParams();
+  const refreshHandlers = useRef<Map<string, RefreshHandler>>(new Map());
+  const [formValues, setFormValuesState] = useState<Record<string, Record<string, any>>>({});
+  const [componentData, setComponentDataState] = useState<Record<string, any>>({});
+
+  // Let a component (e.g. a table) expose a way to reload its data
+  const registerRefresh = useCallback((componentId: string, handler: RefreshHandler) => {
+    refreshHandlers.current.set(componentId, handler);
+    return () => {
+      if (refreshHandlers.current.get(componentId) === handler) {
+        refreshHandlers.current.delete(componentId);
+      }
+    };
+  }, []);
+
+  // Reload a component's data by its id
+  const refresh = useCallback(async (componentId: string) => {
+    const handler = refreshHandlers.current.get(componentId);
+    if (!handler) {
+      console.warn(`No refreshable component with id "${componentId}" on this page`);
+      return;
+    }
+    await handler();
+  }, []);
+
+  // Share a form's current values with conditions elsewhere on the page
+  const setFormValues = useCallback((formId: string, values: Record<string, any>) => {
+    setFormValuesState((prev) => ({ ...prev, [formId]: values }));
+  }, []);
+
+  // Share data loaded by a component (e.g. table rows) with conditions elsewhere on the page
+  const setComponentData = useCallback((componentId: string, data: any) => {
+    setComponentDataState((prev) => ({ ...prev, [componentId]: data }));
+  }, []);
+
+  const track = useCallback(
+    (type: PageEventType, componentId: string) => onEvent?.(type, componentId),
+    [onEvent]
+  );
+
+  const conditionContext = useMemo<ConditionContext>(
+    () => ({
+      form: formValues,
+      user: user as Record<string, any> | null,
+      query: Object.fromEntries(new URLSearchParams(location.search)),
+      data: componentData,
+    }),
+    [formValues, user, location.search, componentData]
+  );
+
+  // Templates can also read route params such as :pageId
+  const templateContext = useMemo<TemplateContext>(
+    () => ({ ...conditionContext, route: routeParams }),
+    [conditionContext, routeParams]
+  );
+
+  return (
+    <PageContext.Provider
+      value={{ registerRefresh, refresh, setFormValues, setComponentData, track, pageId, conditionContext, templateContext }}
+    >
+      {children}
+    </PageContext.Provider>
+  );
+};
+
+// Custom hook to use page context
+export const usePage = () => useContext(PageContext);
+
+// Evaluate a condition against the current page state; missing conditions use the fallback
+export const useCondition = (condition: Condition | undefined, fallback: boolean = true): boolean => {
+  const { conditionContext } = usePage();
+  if (!condition) return fallback;
+  return evaluateCondition(condition, conditionContext);
+};
+
+// Render {{ }} template expressions in props against the current page state
+export const useTemplate = () => {
+  const { templateContext } = usePage();
+  return useCallback(
+    (template: string | undefined, options?: RenderOptions) =>
+      template === undefined ? '' : renderTemplate(template, templateContext, options),
+    [templateContext]
+  );
+};
+
+export default PageContext;
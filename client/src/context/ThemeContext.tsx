@@ -0,0 +1,20 @@
+import React, { createContext, useContext } from 'react';
+import { DEFAULT_THEME, ThemeTokens } from '../types/theme';
+
+// Token values of the theme the current page is rendered with
+const ThemeContext = createContext<ThemeTokens>(DEFAULT_THEME);
+
+interface ThemeProviderProps {
+  theme?: ThemeTokens;
+  children: React.ReactNode;
+}
+
+// Theme provider for config-driven pages; falls back to the built-in values
+export const ThemeProvider: React.FC<ThemeProviderProps> = ({ theme, children }) => (
+  <ThemeContext.Provider value={theme || DEFAULT_THEME}>{children}</ThemeContext.Provider>
+);
+
+// Custom hook to use the page theme
+export const useTheme = () => useContext(ThemeContext);
+
+export default ThemeContext;
@@ -0,0 +1,75 @@
+import { useCallback, useRef, useState } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+// Maximum number of undo steps kept in memory
+const HISTORY_LIMIT = 100;
+
+// State with undo/redo. Consecutive updates that pass the same `group` (e.g.
+// keystrokes in one input) are merged into a single undo step.
+export const useUndoableState = <T,>(initial: T) => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+  const lastGroup = useRef<string | null>(null);
+
+  const set = useCallback((update: T | ((previous: T) => T), group?: string) => {
+    const merge = group !== undefined && group === lastGroup.current;
+    lastGroup.current = group ?? null;
+
+    setHistory((current) => {
+      const next = typeof update === 'function'
+        ? (update as (previous: T) => T)(current.present)
+        : update;
+      if (next === current.present) return current;
+
+      return {
+        past: merge ? current.past : [...current.past, current.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastGroup.current = null;
+    setHistory((current) => {
+      if (current.past.length === 0) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastGroup.current = null;
+    setHistory((current) => {
+      if (current.future.length === 0) return current;
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1),
+      };
+    });
+  }, []);
+
+  // Replace the state and clear the history (e.g. after loading another document)
+  const reset = useCallback((value: T) => {
+    lastGroup.current = null;
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
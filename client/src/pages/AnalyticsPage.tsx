@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import ProfileDropdown from '../components/ProfileDropdown';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+interface PageSummary {
+  page_id: string;
+  title: string | null;
+  views: number;
+  visitors: number;
+  clicks: number;
+  form_submits: number;
+  form_successes: number;
+}
+
+interface FormFunnel {
+  component_id: string;
+  attempts: number;
+  successes: number;
+  failures: number;
+  viewed_visitors: number;
+  attempted_visitors: number;
+  succeeded_visitors: number;
+}
+
+interface PageDetails {
+  pageId: string;
+  traffic: { date: string; views: number; visitors: number }[];
+  buttons: { component_id: string; clicks: number; visitors: number }[];
+  forms: FormFunnel[];
+}
+
+const thClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const tdClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—');
+
+// Daily views as a bar chart
+const TrafficChart: React.FC<{ traffic: PageDetails['traffic'] }> = ({ traffic }) => {
+  if (traffic.length === 0) {
+    return <p className="text-sm text-gray-500">No views in this period.</p>;
+  }
+
+  const max = Math.max(...traffic.map((day) => day.views));
+  return (
+    <div>
+      <div className="flex" style={{ height: 160, gap: 4, alignItems: 'flex-end' }}>
+        {traffic.map((day) => (
+          <div
+            key={day.date}
+            title={`${day.date}: ${day.views} views, ${day.visitors} visitors`}
+            className="bg-blue-600 rounded-t"
+            style={{ flex: 1, height: `${Math.max((day.views / max) * 100, 2)}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{traffic[0].date}</span>
+        <span>{traffic[traffic.length - 1].date}</span>
+      </div>
+    </div>
+  );
+};
+
+// Visitors at each step of a form: saw the page → tried to submit → submitted successfully
+const FunnelRow: React.FC<{ form: FormFunnel }> = ({ form }) => {
+  const steps = [
+    { label: 'Viewed page', value: form.viewed_visitors },
+    { label: 'Tried to submit', value: form.attempted_visitors },
+    { label: 'Submitted', value: form.succeeded_visitors },
+  ];
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-sm font-medium text-gray-900 mb-2">
+        <code>{form.component_id}</code>
+        <span className="text-gray-500 font-normal">
+          {' '}— {form.attempts} attempts, {form.successes} successful, {form.failures} failed
+        </span>
+      </h4>
+      {steps.map((step, index) => (
+        <div key={step.label} className="flex items-center text-sm mb-1">
+          <span className="text-gray-700" style={{ width: 140 }}>{step.label}</span>
+          <div className="bg-gray-100 rounded" style={{ flex: 1, height: 16 }}>
+            <div
+              className="bg-green-600 rounded"
+              style={{ height: '100%', width: percent(step.value, form.viewed_visitors).replace('—', '0%') }}
+            />
+          </div>
+          <span className="text-gray-900 text-right" style={{ width: 160 }}>
+            {step.value}
+            {index > 0 && ` (${percent(step.value, steps[index - 1].value)} of previous)`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Per-page traffic, top buttons and form drop-off, filtered by date
+const AnalyticsPage: React.FC = () => {
+  const [filters, setFilters] = useState({ from: '', to: '' });
+  const [pages, setPages] = useState<PageSummary[]>([]);
+  const [selectedPageId, setSelectedPageId] = useState<string | null>(null);
+  const [details, setDetails] = useState<PageDetails | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const params = Object.fromEntries(Object.entries(filters).filter(([, value]) => value));
+
+  // Fetch per-page totals whenever the filters change
+  useEffect(() => {
+    const fetchPages = async () => {
+      setLoading(true);
+      try {
+        const response = await axios.get(`${API_URL}/admin/analytics/pages`, { params: filters });
+        setPages(response.data.pages);
+        setError(null);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Error fetching analytics');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPages();
+  }, [filters]);
+
+  // Fetch the selected page's details
+  useEffect(() => {
+    if (!selectedPageId) {
+      setDetails(null);
+      return;
+    }
+
+    const fetchDetails = async () => {
+      try {
+        const response = await axios.get(
+          `${API_URL}/admin/analytics/pages/${encodeURIComponent(selectedPageId)}`,
+          { params: filters }
+        );
+        setDetails(response.data);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Error fetching page analytics');
+      }
+    };
+
+    fetchDetails();
+  }, [selectedPageId, filters]);
+
+  // Handle filter change
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFilters((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const selected = pages.find((page) => page.page_id === selectedPageId);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
+          <div className="flex items-center space-x-4 ml-auto">
+            <Link to="/" className="text-blue-600 hover:text-blue-800">
+              Back to Home
+            </Link>
+            <ProfileDropdown />
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Filters */}
+        <div className="bg-white shadow rounded-lg p-6 mb-6">
+          <h2 className="text-lg font-medium mb-4">Filters</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="from" className="block text-sm font-medium text-gray-700 mb-1">
+                From Date
+              </label>
+              <input
+                type="date"
+                id="from"
+                name="from"
+                value={filters.from}
+                onChange={handleFilterChange}
+                className="block w-full border border-gray-300 rounded-md shadow-sm py-1.5 px-3"
+              />
+            </div>
+            <div>
+              <label htmlFor="to" className="block text-sm font-medium text-gray-700 mb-1">
+                To Date
+              </label>
+              <input
+                type="date"
+                id="to"
+                name="to"
+                value={filters.to}
+                onChange={handleFilterChange}
+                className="block w-full border border-gray-300 rounded-md shadow-sm py-1.5 px-3"
+              />
+            </div>
+          </div>
+          <div className="mt-4 flex justify-end">
+            <button
+              onClick={() => setFilters({ from: '', to: '' })}
+              disabled={Object.keys(params).length === 0}
+              className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Clear Filters
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+            {error}
+          </div>
+        )}
+
+        {/* Pages */}
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="spinner"></div>
+            <p>Loading analytics...</p>
+          </div>
+        ) : (
+          <div className="bg-white shadow rounded-lg overflow-hidden mb-6">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={thClass}>Page</th>
+                  <th className={thClass}>Views</th>
+                  <th className={thClass}>Visitors</th>
+                  <th className={thClass}>Button clicks</th>
+                  <th className={thClass}>Form submits</th>
+                  <th className={thClass}>Successful submits</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {pages.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
+                      No events recorded in this period
+                    </td>
+                  </tr>
+                ) : (
+                  pages.map((page) => (
+                    <tr
+                      key={page.page_id}
+                      onClick={() => setSelectedPageId(page.page_id === selectedPageId ? null : page.page_id)}
+                      className={page.page_id === selectedPageId ? 'bg-blue-50' : 'hover:bg-gray-50'}
+                      style={{ cursor: 'pointer' }}
+                    >
+                      <td className={tdClass}>
+                        {page.title ?? <span className="text-gray-500 italic">deleted</span>}{' '}
+                        <span className="text-gray-500">/{page.page_id}</span>
+                      </td>
+                      <td className={tdClass}>{page.views}</td>
+                      <td className={tdClass}>{page.visitors}</td>
+                      <td className={tdClass}>{page.clicks}</td>
+                      <td className={tdClass}>{page.form_submits}</td>
+                      <td className={tdClass}>{page.form_successes}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Selected page */}
+        {selected && details && details.pageId === selected.page_id && (
+          <div className="grid gap-6" style={{ gridTemplateColumns: 'minmax(0, 2fr) minmax(0, 1fr)', alignItems: 'start' }}>
+            <section className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium mb-4">Traffic: /{selected.page_id}</h2>
+              <TrafficChart traffic={details.traffic} />
+
+              <h2 className="text-lg font-medium mt-6 mb-4">Form drop-off</h2>
+              {details.forms.length === 0 ? (
+                <p className="text-sm text-gray-500">No form submissions in this period.</p>
+              ) : (
+                details.forms.map((form) => <FunnelRow key={form.component_id} form={form} />)
+              )}
+            </section>
+
+            <section className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium mb-4">Top buttons</h2>
+              {details.buttons.length === 0 ? (
+                <p className="text-sm text-gray-500">No button clicks in this period.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead>
+                    <tr>
+                      <th className="py-2 text-left text-xs font-medium text-gray-500 uppercase">Button</th>
+                      <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase">Clicks</th>
+                      <th className="py-2 text-right text-xs font-medium text-gray-500 uppercase">Visitors</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {details.buttons.map((button) => (
+                      <tr key={button.component_id}>
+                        <td className="py-2"><code>{button.component_id}</code></td>
+                        <td className="py-2 text-right">{button.clicks}</td>
+                        <td className="py-2 text-right">{button.visitors}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AnalyticsPage;
@@ -50,6 +50,22 @@ const AuditLogPage: React.FC = () => {
     if (metadata.user_details) {
       return `User: ${metadata.user_details.email} (${metadata.user_details.role})`;
     }
+
+    if (metadata.page_details) {
+      return `Page: ${metadata.page_details.title} (/${metadata.page_details.page_id})`;
+    }
+
+    if (metadata.fragment_details) {
+      return `Fragment: ${metadata.fragment_details.title} (${metadata.fragment_details.fragment_id})`;
+    }
+
+    if (metadata.theme_details) {
+      return `Theme: ${metadata.theme_details.name} (${metadata.theme_details.theme_id})`;
+    }
+
+    if (metadata.translation_details) {
+      return `Translations: ${metadata.translation_details.locale} (${metadata.translation_details.keys} strings)`;
+    }
     
     if (metadata.browser) {
       return `Browser: ${metadata.browser}`;
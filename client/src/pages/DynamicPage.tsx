@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { Page, PageResponse } from '../types/pageConfig';
+import ComponentRenderer from '../components/renderer/ComponentRenderer';
+import { PageProvider } from '../context/PageContext';
+import { ThemeProvider } from '../context/ThemeContext';
+import { DEFAULT_THEME, ThemeTokens } from '../types/theme';
+import { pageStyle } from '../utils/theme';
+import { useAuth } from '../context/AuthContext';
+import ProtectedRoute from '../components/ProtectedRoute';
+import AccessDenied from '../components/AccessDenied';
+import { PAGE_EVENT_TYPES, PageEventType, trackEvent } from '../utils/analytics';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+const DynamicPage: React.FC = () => {
+  const { pageId } = useParams<{ pageId: string }>();
+  const [page, setPage] = useState<Page | null>(null);
+  const [variant, setVariant] = useState<string | null>(null);
+  const [theme, setTheme] = useState<ThemeTokens>(DEFAULT_THEME);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [notFound, setNotFound] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deniedStatus, setDeniedStatus] = useState<401 | 403 | null>(null);
+  const [locale, setLocale] = useState<string | null>(null);
+  const { user } = useAuth();
+  const userId = user?.id;
+  const userLocale = user?.locale;
+  const [searchParams] = useSearchParams();
+  const lang = searchParams.get('lang') || undefined;
+
+  // Fetch page config whenever the page ID, the requested language or the
+  // logged-in user (or their language preference) changes
+  useEffect(() => {
+    const fetchPage = async () => {
+      try {
+        setLoading(true);
+        setNotFound(false);
+        setDeniedStatus(null);
+        setError(null);
+        const response = await axios.get<PageResponse>(`${API_URL}/page-config/${encodeURIComponent(pageId || '')}`, {
+          params: { lang }
+        });
+        setPage(response.data.page);
+        setVariant(response.data.variant ?? null);
+        setTheme(response.data.theme);
+        setLocale(response.data.locale);
+        trackEvent({ type: PAGE_EVENT_TYPES.PAGE_VIEW, pageId: response.data.page.pageId, variant: response.data.variant });
+      } catch (err: any) {
+        setPage(null);
+        const status = err.response?.status;
+        if (status === 404) {
+          setNotFound(true);
+        } else if (status === 401 || status === 403) {
+          setDeniedStatus(status);
+        } else {
+          setError(err.response?.data?.message || 'Error loading page');
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPage();
+  }, [pageId, lang, userId, userLocale]);
+
+  // Send clicks and form submits to analytics. On A/B tested pages, successful
+  // form submissions also count as conversions; the server works out the
+  // variant again from the visitor's user or cookie.
+  const handleEvent = useCallback(
+    (type: PageEventType, componentId: string) => {
+      if (!pageId) return;
+      trackEvent({ type, pageId, componentId, variant: variant ?? undefined });
+
+      if (type !== PAGE_EVENT_TYPES.FORM_SUCCESS || !variant) return;
+      axios
+        .post(`${API_URL}/page-config/${encodeURIComponent(pageId)}/conversions`, { componentId })
+        .catch((err) => console.warn('Could not record conversion:', err.response?.data?.message || err.message));
+    },
+    [pageId, variant]
+  );
+
+  // Keep the browser title in sync with the page
+  useEffect(() => {
+    if (page?.title) {
+      document.title = page.title;
+    }
+  }, [page?.title]);
+
+  // Let the browser (spell checking, hyphenation, screen readers) know the page's language
+  useEffect(() => {
+    if (locale) {
+      document.documentElement.lang = locale;
+    }
+  }, [locale]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="spinner"></div>
+          <p>Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (notFound) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Page not found</h1>
+          <p className="text-gray-600 mb-4">The page "/{pageId}" does not exist.</p>
+          <Link to="/" className="text-blue-600 hover:text-blue-800">
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Not logged in: ProtectedRoute redirects to login and back here afterwards
+  if (deniedStatus === 401) {
+    return (
+      <ProtectedRoute>
+        <AccessDenied message="Your session has expired. Please log in again." />
+      </ProtectedRoute>
+    );
+  }
+
+  if (deniedStatus === 403) {
+    return <AccessDenied />;
+  }
+
+  if (error || !page) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error || 'Error loading page'}
+        </div>
+      </div>
+    );
+  }
+
+  const content = (
+    <PageProvider key={page.pageId} pageId={page.pageId} onEvent={handleEvent}>
+      <ThemeProvider theme={theme}>
+        <div className="min-h-screen" style={pageStyle(theme)}>
+          <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+            {page.components.map((component) => (
+              <ComponentRenderer key={component.id} component={component} />
+            ))}
+          </main>
+        </div>
+      </ThemeProvider>
+    </PageProvider>
+  );
+
+  // Restricted pages are also guarded on the client, so logging out
+  // while viewing one leaves the page straight away
+  if (page.access && page.access.level !== 'public') {
+    return (
+      <ProtectedRoute
+        allowedRoles={page.access.level === 'roles' ? page.access.roles : []}
+        fallback={<AccessDenied />}
+      >
+        {content}
+      </ProtectedRoute>
+    );
+  }
+
+  return content;
+};
+
+export default DynamicPage;
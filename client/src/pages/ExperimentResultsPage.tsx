@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import axios from 'axios';
+import ProfileDropdown from '../components/ProfileDropdown';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+interface VariantResult {
+  id: string;
+  weight: number | null;
+  exposures: number;
+  visitors: number;
+  conversions: number;
+  converted_visitors: number;
+  conversion_rate: number | null;
+}
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${(rate * 100).toFixed(1)}%`);
+
+// Exposures and form-submission conversions per A/B variant of a page
+const ExperimentResultsPage: React.FC = () => {
+  const { pageId = '' } = useParams<{ pageId: string }>();
+  const [variants, setVariants] = useState<VariantResult[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const experimentUrl = `${API_URL}/admin/page-config/${encodeURIComponent(pageId)}/experiment`;
+
+  const fetchResults = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get(experimentUrl);
+      setVariants(response.data.variants);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error loading experiment results');
+    } finally {
+      setLoading(false);
+    }
+  }, [experimentUrl]);
+
+  useEffect(() => {
+    fetchResults();
+  }, [fetchResults]);
+
+  const handleReset = async () => {
+    if (!window.confirm('Delete all recorded exposures and conversions for this page?')) return;
+    try {
+      await axios.delete(experimentUrl);
+      fetchResults();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error clearing experiment results');
+    }
+  };
+
+  const totalWeight = variants.reduce((sum, variant) => sum + (variant.weight ?? 0), 0);
+  const headers = ['Variant', 'Traffic', 'Exposures', 'Visitors', 'Conversions', 'Converted visitors', 'Conversion rate'];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-900">A/B Results: /{pageId}</h1>
+          <div className="flex items-center space-x-4 ml-auto">
+            <Link to="/page-builder" className="text-blue-600 hover:text-blue-800">
+              Back to Page Builder
+            </Link>
+            <ProfileDropdown />
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {headers.map((header) => (
+                  <th key={header} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                <tr>
+                  <td colSpan={headers.length} className="px-6 py-4 text-center text-gray-500">
+                    Loading...
+                  </td>
+                </tr>
+              ) : variants.length === 0 ? (
+                <tr>
+                  <td colSpan={headers.length} className="px-6 py-4 text-center text-gray-500">
+                    The published page has no variants and no results were recorded.
+                  </td>
+                </tr>
+              ) : (
+                variants.map((variant) => (
+                  <tr key={variant.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{variant.id}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {variant.weight === null ? 'removed' : formatRate(variant.weight / totalWeight)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{variant.exposures}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{variant.visitors}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{variant.conversions}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{variant.converted_visitors}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatRate(variant.conversion_rate)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center mt-4">
+          <p className="text-sm text-gray-500">
+            Visitors and converted visitors are unique per logged-in user or browser. The conversion rate is converted
+            visitors divided by visitors.
+          </p>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="ml-auto px-4 py-2 text-sm text-red-600 border border-red-600 rounded-md hover:bg-red-50"
+          >
+            Reset results
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ExperimentResultsPage;
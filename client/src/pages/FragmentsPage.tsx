@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import ProfileDropdown from '../components/ProfileDropdown';
+import { PageComponent } from '../types/pageConfig';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+interface Fragment {
+  fragmentId: string;
+  title: string;
+  components: PageComponent[];
+  updated_at?: string;
+}
+
+interface FragmentUsage {
+  fragments: string[];
+  pages: { page_id: string; title: string; draft: boolean; published: boolean }[];
+}
+
+interface ValidationError {
+  path: string;
+  message: string;
+}
+
+const emptyFragment = (): Fragment => ({ fragmentId: '', title: '', components: [] });
+
+const formatComponents = (components: PageComponent[]) => JSON.stringify(components, null, 2);
+
+// Library of shared component blocks: edit a fragment and see which pages include it
+const FragmentsPage: React.FC = () => {
+  const [fragments, setFragments] = useState<Fragment[]>([]);
+  const [fragment, setFragment] = useState<Fragment>(emptyFragment());
+  const [componentsText, setComponentsText] = useState<string>('[]');
+  const [isNew, setIsNew] = useState<boolean>(true);
+  const [usage, setUsage] = useState<FragmentUsage | null>(null);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const fetchFragments = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_URL}/admin/fragments`);
+      setFragments(response.data.fragments);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error fetching fragments' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFragments();
+  }, [fetchFragments]);
+
+  const fragmentUrl = (fragmentId: string) => `${API_URL}/admin/fragments/${encodeURIComponent(fragmentId)}`;
+
+  const openFragment = async (fragmentId: string) => {
+    try {
+      const [fragmentResponse, usageResponse] = await Promise.all([
+        axios.get(fragmentUrl(fragmentId)),
+        axios.get(`${fragmentUrl(fragmentId)}/usage`),
+      ]);
+      setFragment(fragmentResponse.data.fragment);
+      setComponentsText(formatComponents(fragmentResponse.data.fragment.components));
+      setUsage(usageResponse.data);
+      setIsNew(false);
+      setErrors([]);
+      setMessage(null);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error fetching fragment' });
+    }
+  };
+
+  const newFragment = () => {
+    setFragment(emptyFragment());
+    setComponentsText('[]');
+    setUsage(null);
+    setIsNew(true);
+    setErrors([]);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    let components: PageComponent[];
+    try {
+      components = JSON.parse(componentsText);
+    } catch {
+      setErrors([]);
+      setMessage({ type: 'error', text: 'Components must be valid JSON' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setErrors([]);
+      setMessage(null);
+
+      const body = { fragmentId: fragment.fragmentId, title: fragment.title, components };
+      if (isNew) {
+        await axios.post(`${API_URL}/admin/fragments`, body);
+        setUsage({ fragments: [], pages: [] });
+        setMessage({ type: 'success', text: 'Fragment created' });
+      } else {
+        const response = await axios.put(fragmentUrl(fragment.fragmentId), body);
+        const affected: FragmentUsage = response.data.usage;
+        setUsage(affected);
+        // Published pages keep the fragment as it was until they are published again
+        const published = affected.pages.filter((page) => page.published).length;
+        setMessage({
+          type: 'success',
+          text: published > 0
+            ? `Saved. Publish the ${published} published page(s) that include this fragment again to show the change.`
+            : 'Saved',
+        });
+      }
+
+      setFragment({ ...fragment, components });
+      setIsNew(false);
+      fetchFragments();
+    } catch (err: any) {
+      setErrors(err.response?.data?.errors || []);
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error saving fragment' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete fragment "${fragment.fragmentId}"?`)) return;
+
+    try {
+      await axios.delete(fragmentUrl(fragment.fragmentId));
+      newFragment();
+      setMessage({ type: 'success', text: 'Fragment deleted' });
+      fetchFragments();
+    } catch (err: any) {
+      // A fragment that is still included somewhere cannot be deleted
+      if (err.response?.status === 409 && err.response.data.usage) {
+        setUsage(err.response.data.usage);
+      }
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error deleting fragment' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-900">Fragments</h1>
+          <div className="flex items-center space-x-4 ml-auto">
+            <Link to="/page-builder" className="text-blue-600 hover:text-blue-800">
+              Back to Page Builder
+            </Link>
+            <ProfileDropdown />
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {message && (
+          <div
+            className={`mb-6 px-4 py-3 rounded border ${
+              message.type === 'success'
+                ? 'bg-green-100 border-green-400 text-green-700'
+                : 'bg-red-100 border-red-400 text-red-700'
+            }`}
+          >
+            <p>{message.text}</p>
+            {errors.length > 0 && (
+              <ul className="mt-2 text-sm list-disc pl-5">
+                {errors.map((error, index) => (
+                  <li key={index}>
+                    <code>{error.path}</code>: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="grid gap-6" style={{ gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 3fr)', alignItems: 'start' }}>
+          {/* List */}
+          <aside className="bg-white shadow rounded-lg p-4">
+            <button
+              type="button"
+              onClick={newFragment}
+              className="w-full mb-4 px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700"
+            >
+              New fragment
+            </button>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : fragments.length === 0 ? (
+              <p className="text-sm text-gray-500">No fragments yet.</p>
+            ) : (
+              <ul className="text-sm">
+                {fragments.map((item) => (
+                  <li key={item.fragmentId}>
+                    <button
+                      type="button"
+                      onClick={() => openFragment(item.fragmentId)}
+                      className={`w-full text-left px-2 py-2 rounded ${
+                        !isNew && fragment.fragmentId === item.fragmentId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <span className="block text-gray-900">{item.title}</span>
+                      <span className="block text-xs text-gray-500">{item.fragmentId}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </aside>
+
+          <div>
+            {/* Editor */}
+            <section className="bg-white shadow rounded-lg p-6 mb-6">
+              <div className="grid gap-4 mb-4" style={{ gridTemplateColumns: '1fr 1fr' }}>
+                <label className="block text-sm font-medium text-gray-700">
+                  Fragment ID
+                  <input
+                    type="text"
+                    value={fragment.fragmentId}
+                    onChange={(e) => setFragment({ ...fragment, fragmentId: e.target.value })}
+                    disabled={!isNew}
+                    placeholder="e.g. site-footer"
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 disabled:opacity-50"
+                  />
+                </label>
+                <label className="block text-sm font-medium text-gray-700">
+                  Title
+                  <input
+                    type="text"
+                    value={fragment.title}
+                    onChange={(e) => setFragment({ ...fragment, title: e.target.value })}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3"
+                  />
+                </label>
+              </div>
+              <label className="block text-sm font-medium text-gray-700 mb-4">
+                Components
+                <textarea
+                  value={componentsText}
+                  onChange={(e) => setComponentsText(e.target.value)}
+                  rows={20}
+                  spellCheck={false}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 font-mono text-sm"
+                />
+              </label>
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : isNew ? 'Create' : 'Save'}
+                </button>
+                {!isNew && (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </section>
+
+            {/* Where used */}
+            {usage && (
+              <section className="bg-white shadow rounded-lg p-6">
+                <h2 className="text-lg font-medium mb-3">Used by</h2>
+                {usage.pages.length === 0 && usage.fragments.length === 0 ? (
+                  <p className="text-sm text-gray-500">No page or fragment includes this fragment.</p>
+                ) : (
+                  <>
+                    {usage.pages.length > 0 && (
+                      <ul className="text-sm mb-3">
+                        {usage.pages.map((page) => (
+                          <li key={page.page_id} className="mb-1">
+                            <Link to={`/${page.page_id}`} className="text-blue-600 hover:text-blue-800">
+                              {page.title} (/{page.page_id})
+                            </Link>
+                            <span className="text-gray-500">
+                              {' '}
+                              — {[page.published && 'published', page.draft && 'draft'].filter(Boolean).join(' and ')}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {usage.fragments.length > 0 && (
+                      <p className="text-sm text-gray-700">
+                        Through fragments: {usage.fragments.join(', ')}
+                      </p>
+                    )}
+                  </>
+                )}
+              </section>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default FragmentsPage;
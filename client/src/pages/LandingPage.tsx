@@ -66,6 +66,102 @@ const LandingPage: React.FC = () => {
               </Link>
             </div>
 
+            {/* Page Builder Card (Admin and Moderator) */}
+            {(user?.role === 'admin' || user?.role === 'moderator') && (
+              <div className="border rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow">
+                <h3 className="text-lg font-medium mb-2">Page Builder</h3>
+                <p className="text-gray-600 mb-4">
+                  Design, preview, and publish config-driven pages.
+                </p>
+                <Link
+                  to="/page-builder"
+                  className="inline-block px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
+                >
+                  Open Page Builder
+                </Link>
+              </div>
+            )}
+
+            {/* Fragments Card (Admin and Moderator) */}
+            {(user?.role === 'admin' || user?.role === 'moderator') && (
+              <div className="border rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow">
+                <h3 className="text-lg font-medium mb-2">Fragments</h3>
+                <p className="text-gray-600 mb-4">
+                  Maintain shared blocks such as headers and footers used across pages.
+                </p>
+                <Link
+                  to="/fragments"
+                  className="inline-block px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
+                >
+                  Manage Fragments
+                </Link>
+              </div>
+            )}
+
+            {/* Themes Card (Admin and Moderator) */}
+            {(user?.role === 'admin' || user?.role === 'moderator') && (
+              <div className="border rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow">
+                <h3 className="text-lg font-medium mb-2">Themes</h3>
+                <p className="text-gray-600 mb-4">
+                  Set the colors, fonts and spacing of every generated page.
+                </p>
+                <Link
+                  to="/themes"
+                  className="inline-block px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
+                >
+                  Manage Themes
+                </Link>
+              </div>
+            )}
+
+            {/* Translations Card (Admin and Moderator) */}
+            {(user?.role === 'admin' || user?.role === 'moderator') && (
+              <div className="border rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow">
+                <h3 className="text-lg font-medium mb-2">Translations</h3>
+                <p className="text-gray-600 mb-4">
+                  Translate page text per language and find strings that are still missing.
+                </p>
+                <Link
+                  to="/translations"
+                  className="inline-block px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
+                >
+                  Manage Translations
+                </Link>
+              </div>
+            )}
+
+            {/* Analytics Card (Admin and Moderator) */}
+            {(user?.role === 'admin' || user?.role === 'moderator') && (
+              <div className="border rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow">
+                <h3 className="text-lg font-medium mb-2">Analytics</h3>
+                <p className="text-gray-600 mb-4">
+                  See page views, button clicks and form drop-off.
+                </p>
+                <Link
+                  to="/analytics"
+                  className="inline-block px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  View Analytics
+                </Link>
+              </div>
+            )}
+
+            {/* Form Submissions Card (Admin and Moderator) */}
+            {(user?.role === 'admin' || user?.role === 'moderator') && (
+              <div className="border rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow">
+                <h3 className="text-lg font-medium mb-2">Form Submissions</h3>
+                <p className="text-gray-600 mb-4">
+                  Review, triage and export submissions of stored forms.
+                </p>
+                <Link
+                  to="/submissions"
+                  className="inline-block px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
+                >
+                  Open Inbox
+                </Link>
+              </div>
+            )}
+
             {/* Audit Logs Card (Admin Only) */}
             {user?.role === 'admin' && (
               <div className="border rounded-lg p-6 shadow-sm hover:shadow-md transition-shadow">
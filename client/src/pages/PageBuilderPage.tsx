@@ -0,0 +1,595 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import { Page, PageAccess } from '../types/pageConfig';
+import ProfileDropdown from '../components/ProfileDropdown';
+import ComponentPalette from '../components/builder/ComponentPalette';
+import PageOutline from '../components/builder/PageOutline';
+import BuilderCanvas from '../components/builder/BuilderCanvas';
+import PropsInspector from '../components/builder/PropsInspector';
+import { DragItem } from '../components/builder/dragData';
+import { JsonInput, SelectInput, TextInput } from '../components/builder/InspectorFields';
+import ComponentRenderer from '../components/renderer/ComponentRenderer';
+import { PageProvider } from '../context/PageContext';
+import { ThemeProvider } from '../context/ThemeContext';
+import { Theme } from '../types/theme';
+import { mergeTheme, pageStyle } from '../utils/theme';
+import { useUndoableState } from '../hooks/useUndoableState';
+import {
+  collectIds,
+  createComponent,
+  findComponent,
+  insertComponent,
+  moveComponent,
+  removeComponent,
+  updateComponent,
+} from '../utils/builderTree';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+interface PageSummary {
+  pageId: string;
+  title: string;
+  status: 'draft' | 'published';
+  has_unpublished_changes: boolean;
+  // Published with an older copy of a fragment it includes
+  has_fragment_changes: boolean;
+}
+
+interface ValidationError {
+  path: string;
+  message: string;
+  // Set for pages saved as YAML
+  line?: number;
+  column?: number;
+}
+
+// Lint finding from POST /admin/page-config/lint
+interface LintFinding {
+  rule: string;
+  severity: 'error' | 'warning' | 'info';
+  path: string;
+  message: string;
+}
+
+const SEVERITY_CLASSES: Record<LintFinding['severity'], string> = {
+  error: 'bg-red-100 text-red-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-blue-100 text-blue-800',
+};
+
+const EMPTY_PAGE: Page = { pageId: '', title: '', components: [] };
+
+// Resolve a validation error path such as "components[1].children[0].props.api"
+// to the ID of the component it points at
+const componentIdForPath = (components: Page['components'], path: string): string | null => {
+  const pattern = /^(components|children)\[(\d+)\]\.?/;
+  let list = components;
+  let rest = path;
+  let id: string | null = null;
+
+  let match = rest.match(pattern);
+  while (match && list) {
+    const component = list[Number(match[2])];
+    if (!component) break;
+    id = component.id;
+    list = component.children || [];
+    rest = rest.slice(match[0].length);
+    match = rest.match(pattern);
+  }
+  return id;
+};
+
+const PageBuilderPage: React.FC = () => {
+  const { state: page, set: setPage, undo, redo, reset, canUndo, canRedo } = useUndoableState<Page>(EMPTY_PAGE);
+  const [pages, setPages] = useState<PageSummary[]>([]);
+  const [themes, setThemes] = useState<Theme[]>([]);
+  const [isNew, setIsNew] = useState<boolean>(true);
+  const [sourceFormat, setSourceFormat] = useState<'json' | 'yaml'>('json');
+  const [savedPage, setSavedPage] = useState<Page>(EMPTY_PAGE);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<'edit' | 'preview'>('edit');
+  const [changeNote, setChangeNote] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [findings, setFindings] = useState<LintFinding[] | null>(null);
+  const [checking, setChecking] = useState<boolean>(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Fetch existing pages on component mount
+  useEffect(() => {
+    fetchPages();
+  }, []);
+
+  // Themes for the page settings and the preview
+  useEffect(() => {
+    const fetchThemes = async () => {
+      try {
+        const response = await axios.get(`${API_URL}/admin/themes`);
+        setThemes(response.data.themes);
+      } catch (err: any) {
+        setMessage({ type: 'error', text: err.response?.data?.message || 'Error loading themes' });
+      }
+    };
+
+    fetchThemes();
+  }, []);
+
+  // Undo/redo with the usual shortcuts, except while typing in an input
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const fetchPages = async () => {
+    try {
+      const response = await axios.get(`${API_URL}/admin/page-config`);
+      setPages(response.data.pages);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error loading pages' });
+    }
+  };
+
+  // Open an existing page's draft for editing
+  const openPage = async (pageId: string) => {
+    try {
+      setMessage(null);
+      setErrors([]);
+      setFindings(null);
+      const response = await axios.get(`${API_URL}/admin/page-config/${encodeURIComponent(pageId)}`);
+      reset(response.data.page);
+      setSavedPage(response.data.page);
+      setSourceFormat(response.data.source_format);
+      setIsNew(false);
+      setSelectedId(null);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error loading page' });
+    }
+  };
+
+  const newPage = () => {
+    reset(EMPTY_PAGE);
+    setSavedPage(EMPTY_PAGE);
+    setSourceFormat('json');
+    setIsNew(true);
+    setSelectedId(null);
+    setErrors([]);
+    setFindings(null);
+    setMessage(null);
+  };
+
+  const setComponents = (update: (components: Page['components']) => Page['components'], group?: string) =>
+    setPage((current) => ({ ...current, components: update(current.components) }), group);
+
+  // Append a component from the palette to the selected container, or the page
+  const addComponent = (type: string) => {
+    const component = createComponent(type, page.components);
+    const selected = selectedId ? findComponent(page.components, selectedId) : null;
+
+    if (selected?.type === 'container') {
+      setComponents((components) =>
+        insertComponent(components, selected.id, selected.children?.length ?? 0, component)
+      );
+    } else {
+      setComponents((components) => [...components, component]);
+    }
+    setSelectedId(component.id);
+  };
+
+  // Drop from the palette (new component) or from the canvas (move)
+  const handleDrop = (item: DragItem, parentId: string | null, index: number) => {
+    if (item.kind === 'new') {
+      const component = createComponent(item.type, page.components);
+      setComponents((components) => insertComponent(components, parentId, index, component));
+      setSelectedId(component.id);
+    } else {
+      setComponents((components) => moveComponent(components, item.id, parentId, index));
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    setComponents((components) => removeComponent(components, id));
+    if (selectedId && !findComponent(removeComponent(page.components, id), selectedId)) {
+      setSelectedId(null);
+    }
+  };
+
+  // Apply inspector edits; renames that would clash with another component are ignored
+  const handleComponentChange = (updated: Page['components'][number], group: string) => {
+    if (!selectedId) return;
+    if (updated.id !== selectedId && collectIds(page.components).has(updated.id)) return;
+
+    setComponents((components) => updateComponent(components, selectedId, () => updated), group);
+    setSelectedId(updated.id);
+  };
+
+  const handleAccessChange = (level: string) => {
+    const access: PageAccess | undefined = level === 'public'
+      ? undefined
+      : { level: level as PageAccess['level'], roles: level === 'roles' ? page.access?.roles || ['admin'] : undefined };
+    setPage({ ...page, access });
+  };
+
+  const toggleRole = (role: 'admin' | 'moderator' | 'user') => {
+    const roles = page.access?.roles || [];
+    setPage({
+      ...page,
+      access: {
+        level: 'roles',
+        roles: roles.includes(role) ? roles.filter((r) => r !== role) : [...roles, role],
+      },
+    });
+  };
+
+  // Save the page as a new version on the server
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setErrors([]);
+      setMessage(null);
+
+      const body = { ...page, change_note: changeNote || undefined };
+      const response = isNew
+        ? await axios.post(`${API_URL}/admin/page-config`, body)
+        : await axios.put(`${API_URL}/admin/page-config/${encodeURIComponent(page.pageId)}`, body);
+
+      setSavedPage(page);
+      setSourceFormat('json');
+      setIsNew(false);
+      setChangeNote('');
+      setMessage({ type: 'success', text: `Saved as version ${response.data.version}` });
+      fetchPages();
+    } catch (err: any) {
+      setErrors(err.response?.data?.errors || []);
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error saving page' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Lint the page as it is in the editor, without saving it
+  const handleCheck = async () => {
+    try {
+      setChecking(true);
+      const response = await axios.post(`${API_URL}/admin/page-config/lint`, { page });
+      setFindings(response.data.findings);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error checking page' });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  // Publish the latest saved version
+  const handlePublish = async () => {
+    try {
+      setMessage(null);
+      await axios.post(`${API_URL}/admin/page-config/${encodeURIComponent(page.pageId)}/publish`, {});
+      setMessage({ type: 'success', text: 'Page published' });
+      fetchPages();
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error publishing page' });
+    }
+  };
+
+  const selected = selectedId ? findComponent(page.components, selectedId) : null;
+  const dirty = page !== savedPage;
+  const summary = pages.find((p) => p.pageId === page.pageId);
+
+  // Token values the page would be served with: its theme over the default theme
+  const previewTheme = useMemo(
+    () =>
+      mergeTheme(
+        themes.find((theme) => theme.isDefault)?.tokens,
+        themes.find((theme) => theme.themeId === page.theme)?.tokens
+      ),
+    [themes, page.theme]
+  );
+
+  // Components with validation errors from the last save attempt
+  const invalidIds = useMemo(() => {
+    const ids = new Set<string>();
+    errors.forEach((error) => {
+      const id = componentIdForPath(page.components, error.path);
+      if (id) ids.add(id);
+    });
+    return ids;
+  }, [errors, page.components]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-900">Page Builder</h1>
+          <div className="flex items-center space-x-4 ml-auto">
+            <Link to="/fragments" className="text-blue-600 hover:text-blue-800">
+              Fragments
+            </Link>
+            <Link to="/themes" className="text-blue-600 hover:text-blue-800">
+              Themes
+            </Link>
+            <Link to="/translations" className="text-blue-600 hover:text-blue-800">
+              Translations
+            </Link>
+            <Link to="/" className="text-blue-600 hover:text-blue-800">
+              Back to Home
+            </Link>
+            <ProfileDropdown />
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Toolbar */}
+        <div className="bg-white shadow rounded-lg p-4 mb-6 flex items-center space-x-4">
+          <select
+            value={isNew ? '' : page.pageId}
+            onChange={(e) => (e.target.value ? openPage(e.target.value) : newPage())}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="">New page</option>
+            {pages.map((p) => (
+              <option key={p.pageId} value={p.pageId}>
+                {p.title} (/{p.pageId}){p.status === 'draft' ? ' — draft' : ''}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={undo} disabled={!canUndo} className="px-3 py-2 border border-gray-300 rounded-md text-sm disabled:opacity-50">
+            Undo
+          </button>
+          <button type="button" onClick={redo} disabled={!canRedo} className="px-3 py-2 border border-gray-300 rounded-md text-sm disabled:opacity-50">
+            Redo
+          </button>
+          {!isNew && (
+            <Link to={`/page-builder/${encodeURIComponent(page.pageId)}/history`} className="text-sm text-blue-600 hover:text-blue-800">
+              History
+            </Link>
+          )}
+          {!isNew && savedPage.variants && (
+            <Link to={`/page-builder/${encodeURIComponent(page.pageId)}/experiment`} className="text-sm text-blue-600 hover:text-blue-800">
+              A/B results
+            </Link>
+          )}
+          <div className="flex ml-auto space-x-2">
+            <input
+              type="text"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="Change note (optional)"
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+            <button
+              type="button"
+              onClick={handleCheck}
+              disabled={checking}
+              className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              {checking ? 'Checking...' : 'Check'}
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || (!dirty && !isNew)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            {!isNew && (
+              <button
+                type="button"
+                onClick={handlePublish}
+                disabled={
+                  dirty ||
+                  (summary?.status === 'published' && !summary.has_unpublished_changes && !summary.has_fragment_changes)
+                }
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                Publish
+              </button>
+            )}
+          </div>
+        </div>
+
+        {message && (
+          <div
+            className={`mb-6 px-4 py-3 rounded border ${
+              message.type === 'success'
+                ? 'bg-green-100 border-green-400 text-green-700'
+                : 'bg-red-100 border-red-400 text-red-700'
+            }`}
+          >
+            <p>{message.text}</p>
+            {errors.length > 0 && (
+              <ul className="mt-2 text-sm list-disc pl-5">
+                {errors.map((error, index) => (
+                  <li key={index}>
+                    <code>{error.path}</code>
+                    {error.line !== undefined && ` (line ${error.line}, column ${error.column})`}: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {findings && (
+          <div className="mb-6 bg-white shadow rounded-lg px-4 py-3">
+            <div className="flex justify-between items-center">
+              <h2 className="text-sm font-semibold text-gray-700">
+                {findings.length === 0 ? 'No problems found' : `${findings.length} problem(s) found`}
+              </h2>
+              <button type="button" onClick={() => setFindings(null)} className="text-sm text-gray-500 hover:text-gray-700">
+                Dismiss
+              </button>
+            </div>
+            {findings.length > 0 && (
+              <ul className="mt-2 space-y-1 text-sm">
+                {findings.map((finding, index) => (
+                  <li key={index}>
+                    <span className={`inline-block w-16 text-center text-xs font-medium rounded mr-2 ${SEVERITY_CLASSES[finding.severity]}`}>
+                      {finding.severity}
+                    </span>
+                    {finding.path && <code className="mr-1">{finding.path}:</code>}
+                    {finding.message} <span className="text-gray-400">({finding.rule})</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Palette and outline | canvas | inspector */}
+        <div className="grid gap-6" style={{ gridTemplateColumns: '240px minmax(0, 1fr) 300px', alignItems: 'start' }}>
+          <aside className="space-y-6">
+            <ComponentPalette onAdd={addComponent} />
+            <PageOutline
+              components={page.components}
+              selectedId={selectedId}
+              invalidIds={invalidIds}
+              onSelect={setSelectedId}
+              onMove={(id, parentId, index) => setComponents((components) => moveComponent(components, id, parentId, index))}
+              onRemove={handleRemove}
+            />
+          </aside>
+
+          {/* Canvas / preview */}
+          <section>
+            <div className="flex mb-2 space-x-2">
+              {(['edit', 'preview'] as const).map((tab) => (
+                <button
+                  key={tab}
+                  type="button"
+                  onClick={() => setMode(tab)}
+                  className={`px-3 py-1 rounded-md text-sm capitalize ${
+                    mode === tab ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700'
+                  }`}
+                >
+                  {tab}
+                </button>
+              ))}
+            </div>
+            {mode === 'edit' ? (
+              <BuilderCanvas
+                components={page.components}
+                selectedId={selectedId}
+                invalidIds={invalidIds}
+                onSelect={setSelectedId}
+                onDrop={handleDrop}
+              />
+            ) : (
+              // Rendered exactly as DynamicPage would, using the unsaved config
+              <PageProvider key={page.pageId || 'new'}>
+                <ThemeProvider theme={previewTheme}>
+                  <div className="border rounded-lg p-6 space-y-6" style={pageStyle(previewTheme)}>
+                    {page.components.map((component) => (
+                      <ComponentRenderer key={component.id} component={component} />
+                    ))}
+                  </div>
+                </ThemeProvider>
+              </PageProvider>
+            )}
+          </section>
+
+          {/* Inspector */}
+          <aside className="bg-white shadow rounded-lg p-4">
+            <h2 className="text-sm font-semibold text-gray-700 uppercase mb-3">
+              {selected ? `${selected.type} properties` : 'Page settings'}
+            </h2>
+            {selected ? (
+              <>
+                <PropsInspector component={selected} onChange={handleComponentChange} />
+                <button
+                  type="button"
+                  onClick={() => handleRemove(selected.id)}
+                  className="mt-2 text-sm text-red-600 hover:text-red-800"
+                >
+                  Delete component
+                </button>
+              </>
+            ) : (
+              <>
+                <TextInput
+                  label="Page ID"
+                  value={page.pageId}
+                  onChange={(pageId) => setPage({ ...page, pageId }, 'page.pageId')}
+                  disabled={!isNew}
+                  required
+                  placeholder="e.g. contact-us"
+                />
+                <TextInput
+                  label="Title"
+                  value={page.title}
+                  onChange={(title) => setPage({ ...page, title }, 'page.title')}
+                  required
+                />
+                <SelectInput
+                  label="Who can view"
+                  value={page.access?.level ?? 'public'}
+                  options={['public', 'authenticated', 'roles']}
+                  onChange={handleAccessChange}
+                />
+                {page.access?.level === 'roles' && (
+                  <div className="mb-3 space-y-1">
+                    {(['admin', 'moderator', 'user'] as const).map((role) => (
+                      <label key={role} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={page.access?.roles?.includes(role) ?? false}
+                          onChange={() => toggleRole(role)}
+                          className="mr-2"
+                        />
+                        {role}
+                      </label>
+                    ))}
+                  </div>
+                )}
+                <SelectInput
+                  label="Theme"
+                  value={page.theme ?? ''}
+                  options={themes.map((theme) => theme.themeId)}
+                  onChange={(theme) => setPage({ ...page, theme: theme || undefined })}
+                  allowEmpty
+                />
+                <JsonInput
+                  label="A/B variants"
+                  value={page.variants}
+                  onChange={(variants) => setPage({ ...page, variants })}
+                  help={`e.g. [{ "id": "control", "weight": 50 }, { "id": "b", "weight": 50, "components": [...] }]. Variants without components show the page's own components.`}
+                />
+                {sourceFormat === 'yaml' && (
+                  <p className="text-xs text-yellow-700 mb-2">
+                    This page was saved as YAML. Saving it here stores JSON instead, and the YAML comments are lost.
+                  </p>
+                )}
+                {!isNew && summary && (
+                  <p className="text-xs text-gray-500">
+                    Status: {summary.status}
+                    {summary.has_unpublished_changes ? ' (unpublished changes)' : ''}
+                    {summary.has_fragment_changes ? ' (fragments changed since publishing)' : ''}
+                  </p>
+                )}
+              </>
+            )}
+          </aside>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PageBuilderPage;
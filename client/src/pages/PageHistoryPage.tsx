@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import axios from 'axios';
+import ProfileDropdown from '../components/ProfileDropdown';
+import PageDiffView from '../components/PageDiffView';
+import { PageDiffResponse, PageVersion } from '../types/pageDiff';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+interface ValidationError {
+  path: string;
+  message: string;
+}
+
+// Version history of a page, with a diff between any two versions or
+// between a version and a config file that hasn't been saved
+const PageHistoryPage: React.FC = () => {
+  const { pageId = '' } = useParams<{ pageId: string }>();
+  const [versions, setVersions] = useState<PageVersion[]>([]);
+  const [publishedVersion, setPublishedVersion] = useState<number | null>(null);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | 'file' | null>(null);
+  const [candidate, setCandidate] = useState<{ name: string; page: any } | null>(null);
+  const [result, setResult] = useState<PageDiffResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+
+  const pageUrl = `${API_URL}/admin/page-config/${encodeURIComponent(pageId)}`;
+
+  // Load the versions and compare the published version with the draft by default
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const [draft, history] = await Promise.all([
+          axios.get(pageUrl),
+          axios.get(`${pageUrl}/versions`),
+        ]);
+        const current: number = history.data.current_version;
+        const published: number | null = draft.data.published_version;
+
+        setVersions(history.data.versions);
+        setPublishedVersion(published);
+        setFrom(published !== null && published !== current ? published : Math.max(current - 1, 1));
+        setTo(current);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Error loading page history');
+      }
+    };
+
+    fetchHistory();
+  }, [pageUrl]);
+
+  useEffect(() => {
+    if (from === null || to === null || (to === 'file' && !candidate)) return;
+
+    const fetchDiff = async () => {
+      try {
+        setError(null);
+        setErrors([]);
+        const response = to === 'file'
+          ? await axios.post(`${API_URL}/admin/page-config/diff`, {
+              from: { pageId, version: from },
+              to: { page: candidate?.page },
+            })
+          : await axios.get(`${pageUrl}/diff`, { params: { from, to } });
+        setResult(response.data);
+      } catch (err: any) {
+        setResult(null);
+        setErrors(err.response?.data?.errors || []);
+        setError(err.response?.data?.message || 'Error comparing versions');
+      }
+    };
+
+    fetchDiff();
+  }, [pageId, pageUrl, from, to, candidate]);
+
+  // Compare against a JSON config file picked by the user
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const page = JSON.parse(await file.text());
+      setCandidate({ name: file.name, page: { ...page, pageId } });
+      setTo('file');
+    } catch {
+      setError(`${file.name} is not valid JSON`);
+    }
+  };
+
+  const versionLabel = (version: number) =>
+    `Version ${version}${version === publishedVersion ? ' (published)' : ''}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-900">History: /{pageId}</h1>
+          <div className="flex items-center space-x-4 ml-auto">
+            <Link to="/page-builder" className="text-blue-600 hover:text-blue-800">
+              Back to Page Builder
+            </Link>
+            <ProfileDropdown />
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Version pickers */}
+        <div className="bg-white shadow rounded-lg p-4 mb-6 flex items-center space-x-4">
+          <label className="text-sm text-gray-700">
+            Compare{' '}
+            <select
+              value={from ?? ''}
+              onChange={(e) => setFrom(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {versions.map((v) => (
+                <option key={v.version} value={v.version}>{versionLabel(v.version)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            with{' '}
+            <select
+              value={to ?? ''}
+              onChange={(e) => setTo(e.target.value === 'file' ? 'file' : Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {versions.map((v) => (
+                <option key={v.version} value={v.version}>{versionLabel(v.version)}</option>
+              ))}
+              {candidate && <option value="file">{candidate.name}</option>}
+            </select>
+          </label>
+          <label className="text-sm text-blue-600 hover:text-blue-800 ml-auto" style={{ cursor: 'pointer' }}>
+            Compare with a file...
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              style={{ display: 'none' }}
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+            <p>{error}</p>
+            {errors.length > 0 && (
+              <ul className="mt-2 text-sm list-disc pl-5">
+                {errors.map((e, index) => (
+                  <li key={index}>
+                    <code>{e.path}</code>: {e.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="grid gap-6" style={{ gridTemplateColumns: '280px minmax(0, 1fr)', alignItems: 'start' }}>
+          {/* Versions */}
+          <aside className="bg-white shadow rounded-lg p-4">
+            <h2 className="text-sm font-semibold text-gray-700 uppercase mb-3">Versions</h2>
+            <ul className="space-y-3">
+              {versions.map((v) => (
+                <li key={v.version} className="text-sm">
+                  <p className="font-medium text-gray-900">{versionLabel(v.version)}</p>
+                  {v.change_note && <p className="text-gray-700">{v.change_note}</p>}
+                  <p className="text-xs text-gray-500">
+                    {new Date(v.created_at).toLocaleString()}
+                    {v.author ? ` by ${v.author.first_name} ${v.author.last_name}` : ''}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </aside>
+
+          {/* Diff */}
+          <section>
+            {result && (
+              <PageDiffView
+                diff={result.diff}
+                fromLabel={versionLabel(from as number)}
+                toLabel={to === 'file' ? candidate?.name ?? 'File' : versionLabel(to as number)}
+              />
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PageHistoryPage;
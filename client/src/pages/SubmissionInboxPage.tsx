@@ -0,0 +1,324 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import axios from 'axios';
+import ProfileDropdown from '../components/ProfileDropdown';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+const STATUSES = ['new', 'handled', 'spam'] as const;
+
+type SubmissionStatus = typeof STATUSES[number];
+
+interface Submission {
+  id: number;
+  data: Record<string, unknown>;
+  status: SubmissionStatus;
+  variant_id: string | null;
+  visitor_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+}
+
+const STATUS_STYLES: Record<SubmissionStatus, string> = {
+  new: 'bg-blue-100 text-blue-800',
+  handled: 'bg-green-100 text-green-800',
+  spam: 'bg-gray-100 text-gray-600',
+};
+
+const formatValue = (value: unknown) =>
+  typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value === undefined || value === null ? '' : String(value);
+
+// Short preview of a submission for the list
+const preview = (data: Record<string, unknown>) =>
+  Object.values(data)
+    .filter((value) => typeof value === 'string' && value !== '')
+    .slice(0, 3)
+    .join(' · ');
+
+// Inbox for one stored form: search, status filter, detail view and export
+const SubmissionInboxPage: React.FC = () => {
+  const { pageId = '', formId = '' } = useParams<{ pageId: string; formId: string }>();
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [counts, setCounts] = useState<Record<SubmissionStatus, number>>({ new: 0, handled: 0, spam: 0 });
+  const [pagination, setPagination] = useState<Pagination>({ total: 0, page: 1, limit: 20, pages: 0 });
+  const [status, setStatus] = useState<SubmissionStatus | ''>('new');
+  const [searchInput, setSearchInput] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [selected, setSelected] = useState<Submission | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const formUrl = `${API_URL}/admin/submissions/${encodeURIComponent(pageId)}/${encodeURIComponent(formId)}`;
+
+  const fetchSubmissions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get(formUrl, {
+        params: { status: status || undefined, search: search || undefined, page: pagination.page, limit: pagination.limit },
+      });
+      setSubmissions(response.data.submissions);
+      setCounts(response.data.counts);
+      setPagination(response.data.pagination);
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error fetching submissions');
+    } finally {
+      setLoading(false);
+    }
+  }, [formUrl, status, search, pagination.page, pagination.limit]);
+
+  useEffect(() => {
+    fetchSubmissions();
+  }, [fetchSubmissions]);
+
+  // Load the full submission when one is opened
+  const openSubmission = async (id: number) => {
+    try {
+      const response = await axios.get(`${formUrl}/${id}`);
+      setSelected(response.data.submission);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error fetching submission');
+    }
+  };
+
+  const changeStatus = async (submission: Submission, next: SubmissionStatus) => {
+    try {
+      await axios.patch(`${formUrl}/${submission.id}`, { status: next });
+      setSelected({ ...submission, status: next });
+      fetchSubmissions();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Error updating submission');
+    }
+  };
+
+  // Download the submissions matching the current filters
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      const response = await axios.get(`${formUrl}/export`, {
+        params: { status: status || undefined, search: search || undefined, format },
+        responseType: 'blob',
+      });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${pageId}-${formId}-submissions.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError('Error exporting submissions');
+    }
+  };
+
+  const changeFilter = (changes: { status?: SubmissionStatus | ''; search?: string }) => {
+    if (changes.status !== undefined) setStatus(changes.status);
+    if (changes.search !== undefined) setSearch(changes.search);
+    setPagination((prev) => ({ ...prev, page: 1 }));
+    setSelected(null);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    changeFilter({ search: searchInput.trim() });
+  };
+
+  const tabs: { value: SubmissionStatus | ''; label: string }[] = [
+    { value: 'new', label: `New (${counts.new})` },
+    { value: 'handled', label: `Handled (${counts.handled})` },
+    { value: 'spam', label: `Spam (${counts.spam})` },
+    { value: '', label: 'All' },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-900">
+            Submissions: /{pageId} · {formId}
+          </h1>
+          <div className="flex items-center space-x-4 ml-auto">
+            <Link to="/submissions" className="text-blue-600 hover:text-blue-800">
+              Back to Submissions
+            </Link>
+            <ProfileDropdown />
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+            {error}
+          </div>
+        )}
+
+        {/* Toolbar */}
+        <div className="flex items-center mb-4" style={{ gap: 8, flexWrap: 'wrap' }}>
+          {tabs.map((tab) => (
+            <button
+              key={tab.label}
+              type="button"
+              onClick={() => changeFilter({ status: tab.value })}
+              className={`px-3 py-1 text-sm rounded-md border ${
+                status === tab.value ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+          <form onSubmit={handleSearch} className="flex ml-auto" style={{ gap: 8 }}>
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search field values"
+              className="border border-gray-300 rounded-md shadow-sm py-1 px-3 text-sm"
+            />
+            <button type="submit" className="px-3 py-1 text-sm rounded-md border border-gray-300 bg-white text-gray-700">
+              Search
+            </button>
+          </form>
+          <button
+            type="button"
+            onClick={() => handleExport('csv')}
+            className="px-3 py-1 text-sm rounded-md border border-gray-300 bg-white text-gray-700"
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => handleExport('json')}
+            className="px-3 py-1 text-sm rounded-md border border-gray-300 bg-white text-gray-700"
+          >
+            Export JSON
+          </button>
+        </div>
+
+        <div className="grid gap-6" style={{ gridTemplateColumns: 'minmax(0, 3fr) minmax(0, 2fr)', alignItems: 'start' }}>
+          {/* List */}
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Submitted</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Preview</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {loading ? (
+                  <tr>
+                    <td colSpan={3} className="px-6 py-4 text-center text-gray-500">
+                      Loading...
+                    </td>
+                  </tr>
+                ) : submissions.length === 0 ? (
+                  <tr>
+                    <td colSpan={3} className="px-6 py-4 text-center text-gray-500">
+                      No submissions found
+                    </td>
+                  </tr>
+                ) : (
+                  submissions.map((submission) => (
+                    <tr
+                      key={submission.id}
+                      onClick={() => openSubmission(submission.id)}
+                      className={selected?.id === submission.id ? 'bg-blue-50' : 'hover:bg-gray-50'}
+                      style={{ cursor: 'pointer' }}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(submission.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[submission.status]}`}>
+                          {submission.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{preview(submission.data)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+
+            {pagination.pages > 1 && (
+              <div className="px-6 py-3 flex items-center justify-between border-t border-gray-200 text-sm">
+                <span className="text-gray-700">
+                  Page {pagination.page} of {pagination.pages} ({pagination.total} submissions)
+                </span>
+                <div className="flex space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => setPagination((prev) => ({ ...prev, page: prev.page - 1 }))}
+                    disabled={pagination.page === 1}
+                    className="px-3 py-1 rounded-md border border-gray-300 bg-white text-gray-700 disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setPagination((prev) => ({ ...prev, page: prev.page + 1 }))}
+                    disabled={pagination.page === pagination.pages}
+                    className="px-3 py-1 rounded-md border border-gray-300 bg-white text-gray-700 disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Detail */}
+          <section className="bg-white shadow rounded-lg p-6">
+            {!selected ? (
+              <p className="text-sm text-gray-500">Select a submission to see all of its fields.</p>
+            ) : (
+              <>
+                <h2 className="text-lg font-medium mb-1">Submission #{selected.id}</h2>
+                <p className="text-xs text-gray-500 mb-4">
+                  {new Date(selected.created_at).toLocaleString()}
+                  {selected.variant_id && ` · variant ${selected.variant_id}`}
+                  {selected.visitor_id && ` · ${selected.visitor_id}`}
+                </p>
+                <dl className="text-sm mb-4">
+                  {Object.entries(selected.data).map(([fieldId, value]) => (
+                    <div key={fieldId} className="mb-3">
+                      <dt className="text-xs font-medium text-gray-500 uppercase">{fieldId}</dt>
+                      <dd className="text-gray-900" style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                        {formatValue(value)}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+                <div className="flex space-x-2">
+                  {STATUSES.map((next) => (
+                    <button
+                      key={next}
+                      type="button"
+                      onClick={() => changeStatus(selected, next)}
+                      disabled={selected.status === next}
+                      className="px-3 py-1 text-sm rounded-md border border-gray-300 bg-white text-gray-700 disabled:opacity-50"
+                    >
+                      Mark {next}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SubmissionInboxPage;
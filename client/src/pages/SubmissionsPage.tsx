@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import ProfileDropdown from '../components/ProfileDropdown';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+interface SubmissionForm {
+  page_id: string;
+  form_id: string;
+  title: string | null;
+  total: number;
+  new: number;
+  last_submitted_at: string;
+}
+
+// Forms that store their submissions, linking to each form's inbox
+const SubmissionsPage: React.FC = () => {
+  const [forms, setForms] = useState<SubmissionForm[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchForms = async () => {
+      try {
+        const response = await axios.get(`${API_URL}/admin/submissions`);
+        setForms(response.data.forms);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Error fetching submissions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchForms();
+  }, []);
+
+  const headers = ['Page', 'Form', 'New', 'Total', 'Last submission'];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-900">Form Submissions</h1>
+          <div className="flex items-center space-x-4 ml-auto">
+            <Link to="/" className="text-blue-600 hover:text-blue-800">
+              Back to Home
+            </Link>
+            <ProfileDropdown />
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {headers.map((header) => (
+                  <th key={header} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                <tr>
+                  <td colSpan={headers.length} className="px-6 py-4 text-center text-gray-500">
+                    Loading...
+                  </td>
+                </tr>
+              ) : forms.length === 0 ? (
+                <tr>
+                  <td colSpan={headers.length} className="px-6 py-4 text-center text-gray-500">
+                    No submissions yet. Forms with "Store submissions" turned on appear here once they are used.
+                  </td>
+                </tr>
+              ) : (
+                forms.map((form) => (
+                  <tr key={`${form.page_id}/${form.form_id}`}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {form.title ?? <span className="text-gray-500">deleted</span>}{' '}
+                      <span className="text-gray-500">/{form.page_id}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link
+                        to={`/submissions/${encodeURIComponent(form.page_id)}/${encodeURIComponent(form.form_id)}`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {form.form_id}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{form.new}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{form.total}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(form.last_submitted_at).toLocaleString()}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SubmissionsPage;
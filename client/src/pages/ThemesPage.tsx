@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import ProfileDropdown from '../components/ProfileDropdown';
+import { PartialThemeTokens, THEME_TOKENS, Theme, ThemeGroup, TokenValue } from '../types/theme';
+import { mergeTheme } from '../utils/theme';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+interface ThemeUsage {
+  pages: { page_id: string; title: string; draft: boolean; published: boolean }[];
+}
+
+interface ValidationError {
+  path: string;
+  message: string;
+}
+
+const GROUP_LABELS: Record<ThemeGroup, string> = {
+  colors: 'Colors',
+  fonts: 'Fonts',
+  fontSizes: 'Font sizes',
+  fontWeights: 'Font weights',
+  spacing: 'Spacing (px)',
+  radii: 'Corner radii (px)',
+};
+
+const emptyTheme = (): Theme => ({ themeId: '', name: '', tokens: {}, isDefault: false });
+
+// Numbers typed into a token field are stored as numbers (pixels, weights)
+const parseTokenValue = (text: string): TokenValue | undefined => {
+  if (text.trim() === '') return undefined;
+  return /^-?\d+(\.\d+)?$/.test(text.trim()) ? Number(text) : text;
+};
+
+// Set or clear one token, dropping groups that end up empty
+const setToken = (tokens: PartialThemeTokens, group: ThemeGroup, name: string, value: TokenValue | undefined) => {
+  const values: Record<string, TokenValue> = { ...(tokens[group] as Record<string, TokenValue>) };
+  if (value === undefined) {
+    delete values[name];
+  } else {
+    values[name] = value;
+  }
+
+  const next: Record<string, Record<string, TokenValue>> = { ...(tokens as Record<string, Record<string, TokenValue>>) };
+  if (Object.keys(values).length === 0) {
+    delete next[group];
+  } else {
+    next[group] = values;
+  }
+  return next as PartialThemeTokens;
+};
+
+// Theme editor: token values per group, the default theme, and the pages using a theme
+const ThemesPage: React.FC = () => {
+  const [themes, setThemes] = useState<Theme[]>([]);
+  const [theme, setTheme] = useState<Theme>(emptyTheme());
+  const [isNew, setIsNew] = useState<boolean>(true);
+  const [usage, setUsage] = useState<ThemeUsage | null>(null);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const fetchThemes = useCallback(async () => {
+    try {
+      const response = await axios.get(`${API_URL}/admin/themes`);
+      setThemes(response.data.themes);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error fetching themes' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchThemes();
+  }, [fetchThemes]);
+
+  const themeUrl = (themeId: string) => `${API_URL}/admin/themes/${encodeURIComponent(themeId)}`;
+
+  const openTheme = async (themeId: string) => {
+    try {
+      const [themeResponse, usageResponse] = await Promise.all([
+        axios.get(themeUrl(themeId)),
+        axios.get(`${themeUrl(themeId)}/usage`),
+      ]);
+      setTheme(themeResponse.data.theme);
+      setUsage(usageResponse.data);
+      setIsNew(false);
+      setErrors([]);
+      setMessage(null);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error fetching theme' });
+    }
+  };
+
+  const newTheme = () => {
+    setTheme(emptyTheme());
+    setUsage(null);
+    setIsNew(true);
+    setErrors([]);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setErrors([]);
+      setMessage(null);
+
+      const body = { themeId: theme.themeId, name: theme.name, tokens: theme.tokens, isDefault: theme.isDefault };
+      if (isNew) {
+        await axios.post(`${API_URL}/admin/themes`, body);
+        setUsage({ pages: [] });
+        setMessage({ type: 'success', text: 'Theme created' });
+      } else {
+        await axios.put(themeUrl(theme.themeId), body);
+        setMessage({ type: 'success', text: 'Saved. Pages using this theme show the change straight away.' });
+      }
+
+      setIsNew(false);
+      fetchThemes();
+    } catch (err: any) {
+      setErrors(err.response?.data?.errors || []);
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error saving theme' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete theme "${theme.themeId}"?`)) return;
+
+    try {
+      await axios.delete(themeUrl(theme.themeId));
+      newTheme();
+      setMessage({ type: 'success', text: 'Theme deleted' });
+      fetchThemes();
+    } catch (err: any) {
+      // A theme that pages still select cannot be deleted
+      if (err.response?.status === 409 && err.response.data.usage) {
+        setUsage(err.response.data.usage);
+      }
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error deleting theme' });
+    }
+  };
+
+  // Values this theme falls back to: the default theme's, unless it is the default
+  const defaultTheme = themes.find((item) => item.isDefault && item.themeId !== theme.themeId);
+  const inherited = mergeTheme(theme.isDefault ? undefined : defaultTheme?.tokens);
+  const effective = mergeTheme(theme.isDefault ? undefined : defaultTheme?.tokens, theme.tokens);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-900">Themes</h1>
+          <div className="flex items-center space-x-4 ml-auto">
+            <Link to="/page-builder" className="text-blue-600 hover:text-blue-800">
+              Back to Page Builder
+            </Link>
+            <ProfileDropdown />
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {message && (
+          <div
+            className={`mb-6 px-4 py-3 rounded border ${
+              message.type === 'success'
+                ? 'bg-green-100 border-green-400 text-green-700'
+                : 'bg-red-100 border-red-400 text-red-700'
+            }`}
+          >
+            <p>{message.text}</p>
+            {errors.length > 0 && (
+              <ul className="mt-2 text-sm list-disc pl-5">
+                {errors.map((error, index) => (
+                  <li key={index}>
+                    <code>{error.path}</code>: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="grid gap-6" style={{ gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 3fr)', alignItems: 'start' }}>
+          {/* List */}
+          <aside className="bg-white shadow rounded-lg p-4">
+            <button
+              type="button"
+              onClick={newTheme}
+              className="w-full mb-4 px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700"
+            >
+              New theme
+            </button>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : themes.length === 0 ? (
+              <p className="text-sm text-gray-500">No themes yet. Pages use the built-in look.</p>
+            ) : (
+              <ul className="text-sm">
+                {themes.map((item) => (
+                  <li key={item.themeId}>
+                    <button
+                      type="button"
+                      onClick={() => openTheme(item.themeId)}
+                      className={`w-full text-left px-2 py-2 rounded ${
+                        !isNew && theme.themeId === item.themeId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <span className="block text-gray-900">
+                        {item.name}
+                        {item.isDefault && <span className="text-xs text-green-700"> · default</span>}
+                      </span>
+                      <span className="block text-xs text-gray-500">{item.themeId}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </aside>
+
+          <div>
+            {/* Editor */}
+            <section className="bg-white shadow rounded-lg p-6 mb-6">
+              <div className="grid gap-4 mb-4" style={{ gridTemplateColumns: '1fr 1fr' }}>
+                <label className="block text-sm font-medium text-gray-700">
+                  Theme ID
+                  <input
+                    type="text"
+                    value={theme.themeId}
+                    onChange={(e) => setTheme({ ...theme, themeId: e.target.value })}
+                    disabled={!isNew}
+                    placeholder="e.g. brand-2025"
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 disabled:opacity-50"
+                  />
+                </label>
+                <label className="block text-sm font-medium text-gray-700">
+                  Name
+                  <input
+                    type="text"
+                    value={theme.name}
+                    onChange={(e) => setTheme({ ...theme, name: e.target.value })}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3"
+                  />
+                </label>
+              </div>
+              <label className="flex items-center mb-4 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={theme.isDefault}
+                  onChange={(e) => setTheme({ ...theme, isDefault: e.target.checked })}
+                  className="mr-2"
+                />
+                Default theme: used by every page that doesn't pick a theme, and under the values other themes leave empty
+              </label>
+
+              <p className="text-xs text-gray-500 mb-4">
+                Leave a token empty to use the value shown as its placeholder.
+              </p>
+              {(Object.keys(THEME_TOKENS) as ThemeGroup[]).map((group) => (
+                <fieldset key={group} className="mb-4">
+                  <legend className="text-xs font-semibold text-gray-500 uppercase mb-2">{GROUP_LABELS[group]}</legend>
+                  <div className="grid gap-4" style={{ gridTemplateColumns: 'repeat(3, minmax(0, 1fr))' }}>
+                    {THEME_TOKENS[group].map((name) => {
+                      const value = (theme.tokens[group] as Record<string, TokenValue> | undefined)?.[name];
+                      const fallback = (inherited[group] as Record<string, TokenValue>)[name];
+                      return (
+                        <label key={name} className="block text-sm text-gray-700">
+                          <span className="flex items-center">
+                            {group === 'colors' && (
+                              <span
+                                className="inline-block border rounded mr-2"
+                                style={{ width: 14, height: 14, backgroundColor: String(effective.colors[name as keyof typeof effective.colors]) }}
+                              />
+                            )}
+                            {name}
+                          </span>
+                          <input
+                            type="text"
+                            value={value === undefined ? '' : String(value)}
+                            onChange={(e) =>
+                              setTheme({ ...theme, tokens: setToken(theme.tokens, group, name, parseTokenValue(e.target.value)) })
+                            }
+                            placeholder={String(fallback)}
+                            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-1 px-2 text-sm"
+                          />
+                        </label>
+                      );
+                    })}
+                  </div>
+                </fieldset>
+              ))}
+
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : isNew ? 'Create' : 'Save'}
+                </button>
+                {!isNew && (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </section>
+
+            {/* Where used */}
+            {usage && (
+              <section className="bg-white shadow rounded-lg p-6">
+                <h2 className="text-lg font-medium mb-3">Used by</h2>
+                {theme.isDefault && (
+                  <p className="text-sm text-gray-700 mb-3">Every page that doesn't pick a theme.</p>
+                )}
+                {usage.pages.length === 0 ? (
+                  <p className="text-sm text-gray-500">No page picks this theme.</p>
+                ) : (
+                  <ul className="text-sm">
+                    {usage.pages.map((page) => (
+                      <li key={page.page_id} className="mb-1">
+                        <Link to={`/${page.page_id}`} className="text-blue-600 hover:text-blue-800">
+                          {page.title} (/{page.page_id})
+                        </Link>
+                        <span className="text-gray-500">
+                          {' '}
+                          — {[page.published && 'published', page.draft && 'draft'].filter(Boolean).join(' and ')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ThemesPage;
@@ -0,0 +1,430 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import ProfileDropdown from '../components/ProfileDropdown';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+interface LocaleSummary {
+  locale: string;
+  keys: number;
+  updated_at: string;
+}
+
+interface MissingSummary {
+  locales: string[];
+  pages: { page_id: string; title: string; keys: number; missing: Record<string, number> }[];
+}
+
+interface PageReport {
+  keys: { key: string; paths: string[] }[];
+  locales: { locale: string; translated: number; missing: string[] }[];
+}
+
+interface ValidationError {
+  path: string;
+  message: string;
+}
+
+// One editable row of a string table
+interface Entry {
+  key: string;
+  value: string;
+}
+
+const toEntries = (strings: Record<string, string>): Entry[] =>
+  Object.keys(strings)
+    .sort()
+    .map((key) => ({ key, value: strings[key] }));
+
+const tableUrl = (locale: string) => `${API_URL}/admin/translations/${encodeURIComponent(locale)}`;
+
+// Rows without a key or a translation are left out, so untranslated keys stay missing
+const toStrings = (entries: Entry[]): Record<string, string> =>
+  Object.fromEntries(entries.filter((entry) => entry.key.trim() !== '' && entry.value !== '').map((entry) => [entry.key.trim(), entry.value]));
+
+// String table editor per locale, with missing translations per page
+const TranslationsPage: React.FC = () => {
+  const [locales, setLocales] = useState<LocaleSummary[]>([]);
+  const [defaultLocale, setDefaultLocale] = useState<string>('');
+  const [defaultStrings, setDefaultStrings] = useState<Record<string, string>>({});
+  const [locale, setLocale] = useState<string>('');
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [isNew, setIsNew] = useState<boolean>(true);
+  const [summary, setSummary] = useState<MissingSummary | null>(null);
+  const [report, setReport] = useState<{ pageId: string; data: PageReport } | null>(null);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  // Locales, the default locale's strings (shown next to each translation) and the missing counts
+  const fetchTables = useCallback(async () => {
+    try {
+      const [listResponse, summaryResponse] = await Promise.all([
+        axios.get(`${API_URL}/admin/translations`),
+        axios.get(`${API_URL}/admin/translations/missing`),
+      ]);
+      const fallbackLocale: string = listResponse.data.default_locale;
+      setLocales(listResponse.data.locales);
+      setDefaultLocale(fallbackLocale);
+      setSummary(summaryResponse.data);
+
+      const hasDefault = listResponse.data.locales.some((item: LocaleSummary) => item.locale === fallbackLocale);
+      setDefaultStrings(hasDefault ? (await axios.get(tableUrl(fallbackLocale))).data.table.strings : {});
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error fetching translations' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTables();
+  }, [fetchTables]);
+
+  const openLocale = async (tableLocale: string) => {
+    try {
+      const response = await axios.get(tableUrl(tableLocale));
+      setLocale(tableLocale);
+      setEntries(toEntries(response.data.table.strings));
+      setIsNew(false);
+      setErrors([]);
+      setMessage(null);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error fetching translations' });
+    }
+  };
+
+  const newLocale = () => {
+    setLocale('');
+    setEntries([]);
+    setIsNew(true);
+    setErrors([]);
+    setMessage(null);
+  };
+
+  const openReport = async (pageId: string) => {
+    try {
+      const response = await axios.get(`${API_URL}/admin/page-config/${encodeURIComponent(pageId)}/translations`);
+      setReport({ pageId, data: response.data });
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error fetching missing translations' });
+    }
+  };
+
+  const updateEntry = (index: number, changes: Partial<Entry>) =>
+    setEntries(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+
+  // Add empty rows for keys the open locale doesn't have yet
+  const addKeys = (keys: string[]) => {
+    const existing = new Set(entries.map((entry) => entry.key));
+    setEntries([...entries, ...keys.filter((key) => !existing.has(key)).map((key) => ({ key, value: '' }))]);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setErrors([]);
+      setMessage(null);
+
+      await axios.put(tableUrl(locale), { strings: toStrings(entries) });
+      setMessage({ type: 'success', text: 'Saved. Published pages show the new strings straight away.' });
+      setIsNew(false);
+      await fetchTables();
+      if (report) openReport(report.pageId);
+    } catch (err: any) {
+      setErrors(err.response?.data?.errors || []);
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error saving translations' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete all "${locale}" translations?`)) return;
+
+    try {
+      await axios.delete(tableUrl(locale));
+      newLocale();
+      setMessage({ type: 'success', text: 'Translations deleted' });
+      fetchTables();
+      if (report) openReport(report.pageId);
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.response?.data?.message || 'Error deleting translations' });
+    }
+  };
+
+  const reportLocale = report?.data.locales.find((item) => item.locale === locale);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-900">Translations</h1>
+          <div className="flex items-center space-x-4 ml-auto">
+            <Link to="/page-builder" className="text-blue-600 hover:text-blue-800">
+              Back to Page Builder
+            </Link>
+            <ProfileDropdown />
+          </div>
+        </div>
+      </header>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {message && (
+          <div
+            className={`mb-6 px-4 py-3 rounded border ${
+              message.type === 'success'
+                ? 'bg-green-100 border-green-400 text-green-700'
+                : 'bg-red-100 border-red-400 text-red-700'
+            }`}
+          >
+            <p>{message.text}</p>
+            {errors.length > 0 && (
+              <ul className="mt-2 text-sm list-disc pl-5">
+                {errors.map((error, index) => (
+                  <li key={index}>
+                    <code>{error.path}</code>: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="grid gap-6" style={{ gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 3fr)', alignItems: 'start' }}>
+          {/* List */}
+          <aside className="bg-white shadow rounded-lg p-4">
+            <button
+              type="button"
+              onClick={newLocale}
+              className="w-full mb-4 px-3 py-2 text-sm rounded-md border border-gray-300 bg-white text-gray-700"
+            >
+              New locale
+            </button>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : locales.length === 0 ? (
+              <p className="text-sm text-gray-500">No translations yet. Pages show translation keys as they are.</p>
+            ) : (
+              <ul className="text-sm">
+                {locales.map((item) => (
+                  <li key={item.locale}>
+                    <button
+                      type="button"
+                      onClick={() => openLocale(item.locale)}
+                      className={`w-full text-left px-2 py-2 rounded ${
+                        !isNew && locale === item.locale ? 'bg-blue-50' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <span className="block text-gray-900">
+                        {item.locale}
+                        {item.locale === defaultLocale && <span className="text-xs text-green-700"> · default</span>}
+                      </span>
+                      <span className="block text-xs text-gray-500">{item.keys} strings</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </aside>
+
+          <div>
+            {/* Editor */}
+            <section className="bg-white shadow rounded-lg p-6 mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-4">
+                Locale
+                <input
+                  type="text"
+                  value={locale}
+                  onChange={(e) => setLocale(e.target.value)}
+                  disabled={!isNew}
+                  placeholder={`e.g. ${defaultLocale === 'de' ? 'fr' : 'de'} or pt-BR`}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 disabled:opacity-50"
+                  style={{ maxWidth: 240 }}
+                />
+              </label>
+
+              <p className="text-xs text-gray-500 mb-2">
+                Pages use a string with <code>"$t:&lt;key&gt;"</code>. Keys this locale leaves out fall back to the default
+                locale ({defaultLocale}). Rows without a translation are not saved.
+              </p>
+              <table className="min-w-full text-sm mb-4">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-2 pr-2">Key</th>
+                    <th className="py-2 pr-2">Translation</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry, index) => (
+                    <tr key={index} className="align-top">
+                      <td className="py-1 pr-2" style={{ width: '35%' }}>
+                        <input
+                          type="text"
+                          value={entry.key}
+                          onChange={(e) => updateEntry(index, { key: e.target.value })}
+                          placeholder="signup.title"
+                          className="block w-full border border-gray-300 rounded-md py-1 px-2 font-mono text-xs"
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input
+                          type="text"
+                          value={entry.value}
+                          onChange={(e) => updateEntry(index, { value: e.target.value })}
+                          className="block w-full border border-gray-300 rounded-md py-1 px-2"
+                        />
+                        {locale !== defaultLocale && defaultStrings[entry.key] !== undefined && (
+                          <span className="block text-xs text-gray-500 mt-1">
+                            {defaultLocale}: {defaultStrings[entry.key]}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1">
+                        <button
+                          type="button"
+                          onClick={() => setEntries(entries.filter((_, i) => i !== index))}
+                          className="text-red-600 hover:text-red-800 text-xs"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setEntries([...entries, { key: '', value: '' }])}
+                  className="px-4 py-2 text-sm rounded border border-gray-300 bg-white text-gray-700"
+                >
+                  Add string
+                </button>
+                {locale !== defaultLocale && (
+                  <button
+                    type="button"
+                    onClick={() => addKeys(Object.keys(defaultStrings).sort())}
+                    className="px-4 py-2 text-sm rounded border border-gray-300 bg-white text-gray-700"
+                  >
+                    Add keys from {defaultLocale}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving || locale.trim() === ''}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+                {!isNew && locale !== defaultLocale && (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </section>
+
+            {/* Missing translations */}
+            <section className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-medium mb-3">Missing translations</h2>
+              {!summary || summary.pages.length === 0 ? (
+                <p className="text-sm text-gray-500">No page uses translation keys yet.</p>
+              ) : (
+                <table className="min-w-full text-sm mb-4">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 uppercase">
+                      <th className="py-2 pr-4">Page</th>
+                      <th className="py-2 pr-4">Keys</th>
+                      {summary.locales.map((item) => (
+                        <th key={item} className="py-2 pr-4">
+                          {item}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.pages.map((page) => (
+                      <tr key={page.page_id} className={report?.pageId === page.page_id ? 'bg-blue-50' : undefined}>
+                        <td className="py-1 pr-4">
+                          <button
+                            type="button"
+                            onClick={() => openReport(page.page_id)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            /{page.page_id}
+                          </button>
+                        </td>
+                        <td className="py-1 pr-4">{page.keys}</td>
+                        {summary.locales.map((item) => (
+                          <td
+                            key={item}
+                            className={`py-1 pr-4 ${page.missing[item] > 0 ? 'text-red-600' : 'text-green-700'}`}
+                          >
+                            {page.missing[item] > 0 ? `${page.missing[item]} missing` : 'complete'}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {report && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                    /{report.pageId}: {report.data.keys.length} keys in the draft
+                  </h3>
+                  {report.data.locales.map((item) => (
+                    <div key={item.locale} className="mb-3 text-sm">
+                      <span className="font-medium">{item.locale}</span>{' '}
+                      <span className="text-gray-500">
+                        {item.translated} of {report.data.keys.length} translated
+                      </span>
+                      {item.missing.length > 0 && (
+                        <ul className="mt-1 pl-5 list-disc">
+                          {item.missing.map((key) => (
+                            <li key={key}>
+                              <code>{key}</code>
+                              <span className="text-xs text-gray-500">
+                                {' '}
+                                — {report.data.keys.find((used) => used.key === key)?.paths.join(', ')}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                  {!isNew && reportLocale && reportLocale.missing.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => addKeys(reportLocale.missing)}
+                      className="px-4 py-2 text-sm rounded border border-gray-300 bg-white text-gray-700"
+                    >
+                      Add the {reportLocale.missing.length} missing keys to {locale}
+                    </button>
+                  )}
+                </div>
+              )}
+            </section>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default TranslationsPage;
@@ -31,6 +31,23 @@ export const AUDIT_TYPES = {
   CREATE_USER: 'CREATE_USER',
   EDIT_USER: 'EDIT_USER',
   DELETE_USER: 'DELETE_USER',
+  CREATE_PAGE: 'CREATE_PAGE',
+  EDIT_PAGE: 'EDIT_PAGE',
+  DELETE_PAGE: 'DELETE_PAGE',
+  ROLLBACK_PAGE: 'ROLLBACK_PAGE',
+  PUBLISH_PAGE: 'PUBLISH_PAGE',
+  SCHEDULE_PAGE: 'SCHEDULE_PAGE',
+  UNPUBLISH_PAGE: 'UNPUBLISH_PAGE',
+  IMPORT_PAGE: 'IMPORT_PAGE',
+  RESET_EXPERIMENT: 'RESET_EXPERIMENT',
+  CREATE_FRAGMENT: 'CREATE_FRAGMENT',
+  EDIT_FRAGMENT: 'EDIT_FRAGMENT',
+  DELETE_FRAGMENT: 'DELETE_FRAGMENT',
+  CREATE_THEME: 'CREATE_THEME',
+  EDIT_THEME: 'EDIT_THEME',
+  DELETE_THEME: 'DELETE_THEME',
+  EDIT_TRANSLATIONS: 'EDIT_TRANSLATIONS',
+  DELETE_TRANSLATIONS: 'DELETE_TRANSLATIONS',
 } as const;
 
 export type AuditActionType = typeof AUDIT_TYPES[keyof typeof AUDIT_TYPES];
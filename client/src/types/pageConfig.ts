@@ -0,0 +1,192 @@
+import { User } from '../context/AuthContext';
+import { ThemeTokens } from './theme';
+
+export const COMPONENT_TYPES = [
+  'text',
+  'form',
+  'table',
+  'button',
+  'image',
+  'divider',
+  'spacer',
+  'container',
+  'fragment',
+] as const;
+
+export type ComponentType = typeof COMPONENT_TYPES[number];
+
+// Either a URL, or a named server-side data source and a path within it
+export interface ApiConfig {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url?: string;
+  source?: string;
+  path?: string;
+}
+
+export type ConditionSource = 'form' | 'user' | 'query' | 'data';
+
+export type ConditionOperator =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'notIn'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'matches'
+  | 'exists'
+  | 'notExists';
+
+// Visibility/enablement rule: a comparison, or all/any/not combinations of rules
+export type Condition =
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition }
+  | { source: ConditionSource; path: string; op: ConditionOperator; value?: any };
+
+export const FIELD_TYPES = [
+  'text',
+  'email',
+  'number',
+  'password',
+  'textarea',
+  'select',
+  'checkbox',
+  'date',
+  'tel',
+  'url',
+] as const;
+
+export type FieldType = typeof FIELD_TYPES[number];
+
+export interface FieldOption {
+  label: string;
+  value: string;
+}
+
+// Form field definition, including its validation rules
+export interface FormField {
+  id: string;
+  label?: string;
+  type?: FieldType;
+  placeholder?: string;
+  defaultValue?: string | number | boolean;
+  options?: FieldOption[];
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  min?: number;
+  max?: number;
+  messages?: Partial<Record<'required' | 'format' | 'minLength' | 'maxLength' | 'pattern' | 'min' | 'max', string>>;
+  visibleWhen?: Condition;
+}
+
+export interface FormSubmitConfig {
+  label?: string;
+  api?: ApiConfig & {
+    payloadMapping?: Record<string, string>;
+  };
+  // Store submissions on the server (see the admin submissions inbox) instead of calling an API
+  store?: boolean;
+  successMessage?: string;
+  errorMessage?: string;
+  resetOnSuccess?: boolean;
+}
+
+export type FormValue = string | boolean;
+
+export const COLUMN_FORMATS = ['date', 'datetime', 'currency', 'badge', 'link'] as const;
+
+export type ColumnFormat = typeof COLUMN_FORMATS[number];
+
+export interface TableColumn {
+  label?: string;
+  field: string;
+  sortable?: boolean;
+  format?: ColumnFormat;
+  formatOptions?: {
+    currency?: string;
+    locale?: string;
+    colors?: Record<string, string>;
+    href?: string;
+    labelField?: string;
+  };
+}
+
+export interface TablePagination {
+  mode: 'client' | 'server';
+  pageSize?: number;
+  pageParam?: string;
+  limitParam?: string;
+  totalPath?: string;
+  sortParam?: string;
+  orderParam?: string;
+}
+
+export interface ConfirmConfig {
+  title?: string;
+  message: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+}
+
+// Button onClick action. Steps run in order: confirm, sequence, api, refresh,
+// navigate; then onSuccess or onFailure depending on the outcome.
+export interface ButtonAction {
+  confirm?: string | ConfirmConfig;
+  sequence?: ButtonAction[];
+  api?: ApiConfig & { body?: Record<string, any> };
+  refresh?: string | string[];
+  navigate?: { pageId?: string; url?: string };
+  message?: string;
+  onSuccess?: ButtonAction;
+  onFailure?: ButtonAction;
+}
+
+export interface PageComponent {
+  id: string;
+  type: ComponentType | string;
+  props: Record<string, any>;
+  children?: PageComponent[];
+  visibleWhen?: Condition;
+  enabledWhen?: Condition;
+  // Fragment instances only: the fragment to include and prop overrides keyed by component ID
+  ref?: string;
+  overrides?: Record<string, Record<string, any>>;
+}
+
+// Who may view a page: anyone, any logged-in user, or specific roles
+export interface PageAccess {
+  level: 'public' | 'authenticated' | 'roles';
+  roles?: User['role'][];
+}
+
+// One arm of an A/B test; without `components` it shows the page's own components
+export interface PageVariant {
+  id: string;
+  weight: number;
+  components?: PageComponent[];
+}
+
+export interface Page {
+  pageId: string;
+  title: string;
+  components: PageComponent[];
+  access?: PageAccess;
+  variants?: PageVariant[];
+  // Theme ID; pages without one use the default theme
+  theme?: string;
+}
+
+export interface PageResponse {
+  page: Page;
+  // The visitor's A/B variant, for pages that have variants
+  variant?: string;
+  // Token values of the page's theme
+  theme: ThemeTokens;
+  // Language the page's "$t:" strings were translated into
+  locale: string;
+}
@@ -0,0 +1,40 @@
+import { User } from '../context/AuthContext';
+
+export interface FieldChange {
+  field: string;
+  oldValue?: any;
+  newValue?: any;
+}
+
+// Where a component sits: its parent container (null at the top level) and position
+export interface ComponentLocation {
+  parentId: string | null;
+  index: number;
+}
+
+export interface ComponentEntry extends ComponentLocation {
+  id: string;
+  type: string;
+}
+
+export interface PageDiff {
+  fields: FieldChange[];
+  added: ComponentEntry[];
+  removed: ComponentEntry[];
+  moved: { id: string; type: string; from: ComponentLocation; to: ComponentLocation }[];
+  changed: { id: string; type: string; changes: FieldChange[] }[];
+}
+
+export interface PageDiffResponse {
+  from: { pageId: string; version: number | null };
+  to: { pageId: string; version: number | null };
+  diff: PageDiff;
+}
+
+export interface PageVersion {
+  version: number;
+  title: string;
+  change_note: string | null;
+  created_at: string;
+  author: Pick<User, 'id' | 'first_name' | 'last_name' | 'email'> | null;
+}
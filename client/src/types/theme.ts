@@ -0,0 +1,74 @@
+// Token names per group, as defined by server/models/Theme.ts. Component `style`
+// props use these names; the page's theme says what each one looks like.
+export const THEME_TOKENS = {
+  colors: ['primary', 'primaryText', 'text', 'muted', 'background', 'surface', 'border', 'success', 'danger'],
+  fonts: ['body', 'heading'],
+  fontSizes: ['sm', 'md', 'lg', 'xl', '2xl'],
+  fontWeights: ['normal', 'medium', 'semibold', 'bold'],
+  spacing: ['none', 'xs', 'sm', 'md', 'lg', 'xl'],
+  radii: ['none', 'sm', 'md', 'lg', 'full'],
+} as const;
+
+export type ThemeGroup = keyof typeof THEME_TOKENS;
+
+// CSS value of a token; numbers are pixels
+export type TokenValue = string | number;
+
+type Scale<G extends ThemeGroup, V = TokenValue> = Record<typeof THEME_TOKENS[G][number], V>;
+
+// Every token with a value, as served with a page. Colors and fonts are CSS strings.
+export interface ThemeTokens {
+  colors: Scale<'colors', string>;
+  fonts: Scale<'fonts', string>;
+  fontSizes: Scale<'fontSizes'>;
+  fontWeights: Scale<'fontWeights'>;
+  spacing: Scale<'spacing'>;
+  radii: Scale<'radii'>;
+}
+
+// The tokens a stored theme sets; the rest come from the default theme and built-in values
+export type PartialThemeTokens = { [G in ThemeGroup]?: Partial<ThemeTokens[G]> };
+
+export interface Theme {
+  themeId: string;
+  name: string;
+  tokens: PartialThemeTokens;
+  isDefault: boolean;
+  updated_at?: string;
+}
+
+// Style prop keys and the token group each one reads from; `align` takes left/center/right
+export const STYLE_PROPERTIES = {
+  color: 'colors',
+  background: 'colors',
+  borderColor: 'colors',
+  fontFamily: 'fonts',
+  fontSize: 'fontSizes',
+  fontWeight: 'fontWeights',
+  padding: 'spacing',
+  radius: 'radii',
+} as const;
+
+export type ComponentStyle = { [K in keyof typeof STYLE_PROPERTIES]?: string } & { align?: 'left' | 'center' | 'right' };
+
+const FONT_STACK = 'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica Neue, Arial, sans-serif';
+
+// Built-in values (BASE_THEME on the server), used until a page's theme is known
+export const DEFAULT_THEME: ThemeTokens = {
+  colors: {
+    primary: '#2563eb',
+    primaryText: '#ffffff',
+    text: '#111827',
+    muted: '#6b7280',
+    background: '#f9fafb',
+    surface: '#ffffff',
+    border: '#e5e7eb',
+    success: '#16a34a',
+    danger: '#dc2626',
+  },
+  fonts: { body: FONT_STACK, heading: FONT_STACK },
+  fontSizes: { sm: '0.875rem', md: '1rem', lg: '1.125rem', xl: '1.25rem', '2xl': '1.5rem' },
+  fontWeights: { normal: 400, medium: 500, semibold: 600, bold: 700 },
+  spacing: { none: 0, xs: 4, sm: 8, md: 16, lg: 32, xl: 64 },
+  radii: { none: 0, sm: 2, md: 6, lg: 8, full: 9999 },
+};
@@ -0,0 +1,115 @@
+import axios from 'axios';
+import { ButtonAction, ConfirmConfig } from '../types/pageConfig';
+import { bindApi, isSafeUrl, resolveApi } from './apiUrl';
+import { TemplateRenderer, renderDeep } from './template';
+
+// Side effects an action can trigger, supplied by the component running it
+export interface ActionHandlers {
+  confirm: (config: ConfirmConfig) => Promise<boolean>;
+  refresh: (componentId: string) => Promise<void>;
+  navigate: (pageId: string) => void;
+  notify: (type: 'success' | 'error', message: string) => void;
+}
+
+// Raised when the user cancels a confirmation; stops the action without running onFailure
+class ActionCancelled extends Error {}
+
+// Raised when a step fails; `handled` is set once an onFailure branch has run
+class ActionFailed extends Error {
+  constructor(public cause: any, public handled = false) {
+    super(cause?.message || 'Action failed');
+  }
+}
+
+// Fill in {{ }} expressions throughout an action and the actions it chains to.
+// Values in URLs and page IDs are URL-encoded; messages and request bodies are not.
+export const bindAction = (action: ButtonAction, render: TemplateRenderer): ButtonAction => ({
+  ...action,
+  confirm: renderDeep(action.confirm, render),
+  sequence: action.sequence?.map((step) => bindAction(step, render)),
+  api: action.api && { ...bindApi(action.api, render), body: renderDeep(action.api.body, render) },
+  navigate: action.navigate && {
+    pageId: action.navigate.pageId === undefined ? undefined : render(action.navigate.pageId, { encode: true }),
+    url: action.navigate.url === undefined ? undefined : render(action.navigate.url, { encode: true }),
+  },
+  message: action.message === undefined ? undefined : render(action.message),
+  onSuccess: action.onSuccess && bindAction(action.onSuccess, render),
+  onFailure: action.onFailure && bindAction(action.onFailure, render),
+});
+
+// Run an action and everything it chains to.
+// Resolves to true on success, false on failure or cancellation.
+export const runAction = async (action: ButtonAction, handlers: ActionHandlers): Promise<boolean> => {
+  try {
+    await executeAction(action, handlers);
+    return true;
+  } catch (err: any) {
+    // Fall back to the server's message when no onFailure branch dealt with the error
+    if (err instanceof ActionFailed && !err.handled) {
+      handlers.notify('error', err.cause?.response?.data?.message || 'Action failed');
+    }
+    return false;
+  }
+};
+
+// Messages inside an onFailure branch are shown as errors
+const executeAction = async (
+  action: ButtonAction,
+  handlers: ActionHandlers,
+  tone: 'success' | 'error' = 'success'
+): Promise<void> => {
+  // Confirmation comes first; cancelling stops the whole chain
+  if (action.confirm) {
+    const config = typeof action.confirm === 'string' ? { message: action.confirm } : action.confirm;
+    if (!(await handlers.confirm(config))) {
+      throw new ActionCancelled();
+    }
+  }
+
+  try {
+    // Sequence steps run in order and stop at the first failure
+    for (const step of action.sequence || []) {
+      await executeAction(step, handlers, tone);
+    }
+
+    if (action.api) {
+      await axios.request({
+        method: action.api.method || 'POST',
+        url: resolveApi(action.api),
+        data: action.api.body,
+      });
+    }
+
+    const refreshTargets = action.refresh
+      ? Array.isArray(action.refresh)
+        ? action.refresh
+        : [action.refresh]
+      : [];
+    await Promise.all(refreshTargets.map((componentId) => handlers.refresh(componentId)));
+
+    if (action.message) {
+      handlers.notify(tone, action.message);
+    }
+
+    if (action.navigate?.pageId) {
+      handlers.navigate(action.navigate.pageId);
+    } else if (action.navigate?.url) {
+      // The server rejects other schemes, but templates can still produce one
+      if (!isSafeUrl(action.navigate.url)) throw new Error('Navigation URL must be relative or use http(s)');
+      window.location.assign(action.navigate.url);
+    }
+  } catch (err: any) {
+    if (err instanceof ActionCancelled) throw err;
+
+    const failure = err instanceof ActionFailed ? err : new ActionFailed(err);
+    if (action.onFailure) {
+      await executeAction(action.onFailure, handlers, 'error');
+      failure.handled = true;
+    }
+    throw failure;
+  }
+
+  if (action.onSuccess) {
+    await executeAction(action.onSuccess, handlers, tone);
+  }
+};
@@ -0,0 +1,71 @@
+import axios from 'axios';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+export const PAGE_EVENT_TYPES = {
+  PAGE_VIEW: 'page_view',
+  BUTTON_CLICK: 'button_click',
+  FORM_SUBMIT: 'form_submit',
+  FORM_SUCCESS: 'form_success',
+  FORM_FAILURE: 'form_failure',
+} as const;
+
+export type PageEventType = typeof PAGE_EVENT_TYPES[keyof typeof PAGE_EVENT_TYPES];
+
+export interface PageEvent {
+  type: PageEventType;
+  pageId: string;
+  componentId?: string;
+  // A/B variant the visitor was shown
+  variant?: string;
+}
+
+// Events are sent in batches: every few seconds, when the batch is full
+// (the server accepts up to 50), and when the tab is hidden or closed
+const FLUSH_INTERVAL = 5000;
+const MAX_BATCH = 50;
+
+let queue: PageEvent[] = [];
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const flush = () => {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  if (queue.length === 0) return;
+
+  const events = queue;
+  queue = [];
+  axios.post(`${API_URL}/events`, { events }).catch(() => {
+    // Analytics are best effort; failed batches are dropped
+  });
+};
+
+// The page may be gone before a normal request completes, so the last batch
+// goes out as a beacon (text/plain keeps it a simple cross-origin request)
+const flushOnExit = () => {
+  if (document.visibilityState !== 'hidden' || queue.length === 0) return;
+
+  const body = new Blob([JSON.stringify({ events: queue })], { type: 'text/plain' });
+  if (navigator.sendBeacon?.(`${API_URL}/events`, body)) {
+    queue = [];
+  } else {
+    flush();
+  }
+};
+
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', flushOnExit);
+}
+
+// Queue an analytics event
+export const trackEvent = (event: PageEvent) => {
+  queue.push(event);
+  if (queue.length >= MAX_BATCH) {
+    flush();
+  } else if (!timer) {
+    timer = setTimeout(flush, FLUSH_INTERVAL);
+  }
+};
@@ -0,0 +1,39 @@
+import { ApiConfig } from '../types/pageConfig';
+import { TemplateRenderer } from './template';
+
+// API base URL
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+// Resolve a URL from a page config against the API server.
+// Configs reference our own endpoints as "/api/...", which live on the API host
+// rather than on the client's origin. Absolute URLs are used as-is.
+export const resolveApiUrl = (url: string): string => {
+  if (/^https?:\/\//i.test(url)) return url;
+  if (url.startsWith('/api/')) return `${API_URL}${url.slice('/api'.length)}`;
+  return url;
+};
+
+// Whether a URL is safe to navigate to: relative, or http(s). Whitespace and control
+// characters are removed first, as browsers ignore them in the scheme.
+export const isSafeUrl = (url: string): boolean => {
+  // eslint-disable-next-line no-control-regex
+  const scheme = url.replace(/[\u0000-\u0020\u007f]/g, '').match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || ['http', 'https'].includes(scheme[1].toLowerCase());
+};
+
+// Resolve the URL for an api block. Named data sources go through the server's
+// /api/data proxy; anything else is treated as a plain URL.
+export const resolveApi = (api: ApiConfig): string => {
+  if (api.source) {
+    return `${API_URL}/data/${encodeURIComponent(api.source)}${api.path || '/'}`;
+  }
+  return resolveApiUrl(api.url || '');
+};
+
+// Fill in {{ }} expressions in an api block's URL or data source path.
+// Substituted values are URL-encoded so they can't change the path structure.
+export const bindApi = <T extends ApiConfig>(api: T, render: TemplateRenderer): T => ({
+  ...api,
+  url: api.url === undefined ? undefined : render(api.url, { encode: true }),
+  path: api.path === undefined ? undefined : render(api.path, { encode: true }),
+});
@@ -0,0 +1,137 @@
+import { COMPONENT_TYPES, ComponentType, PageComponent } from '../types/pageConfig';
+import { getRegisteredComponent } from '../components/custom/registry';
+
+// Starting props for components added from the palette. Required props are
+// present so the inspector always has something to edit.
+const DEFAULT_PROPS: Record<ComponentType, () => Record<string, any>> = {
+  text: () => ({ value: 'New text' }),
+  form: () => ({
+    fields: [{ id: 'name', label: 'Name', type: 'text', required: true }],
+    submit: { label: 'Submit', api: { method: 'POST', url: '' } },
+  }),
+  table: () => ({
+    columns: [{ field: 'id', label: 'ID' }],
+    api: { method: 'GET', url: '' },
+  }),
+  button: () => ({ label: 'Button' }),
+  image: () => ({ src: '', alt: '' }),
+  divider: () => ({}),
+  spacer: () => ({ size: 'md' }),
+  container: () => ({ direction: 'column', gap: 16 }),
+  fragment: () => ({}),
+};
+
+// Collect every component ID in the tree, including nested children
+export const collectIds = (components: PageComponent[], ids: Set<string> = new Set()) => {
+  components.forEach((component) => {
+    ids.add(component.id);
+    if (component.children) collectIds(component.children, ids);
+  });
+  return ids;
+};
+
+// Starting props of a built-in or registered custom type
+const defaultProps = (type: string) =>
+  (COMPONENT_TYPES as readonly string[]).includes(type)
+    ? DEFAULT_PROPS[type as ComponentType]()
+    : getRegisteredComponent(type)?.defaultProps() ?? {};
+
+// Create a new component with an ID that is unique within the page
+export const createComponent = (type: string, existing: PageComponent[]): PageComponent => {
+  const ids = collectIds(existing);
+  let index = 1;
+  while (ids.has(`${type}-${index}`)) index++;
+
+  const component: PageComponent = { id: `${type}-${index}`, type, props: defaultProps(type) };
+  if (type === 'container') component.children = [];
+  if (type === 'fragment') component.ref = '';
+  return component;
+};
+
+// Find a component by ID anywhere in the tree
+export const findComponent = (components: PageComponent[], id: string): PageComponent | null => {
+  for (const component of components) {
+    if (component.id === id) return component;
+    const found = component.children ? findComponent(component.children, id) : null;
+    if (found) return found;
+  }
+  return null;
+};
+
+// Check whether `id` is `ancestorId` or nested somewhere inside it
+export const isDescendant = (components: PageComponent[], ancestorId: string, id: string) => {
+  const ancestor = findComponent(components, ancestorId);
+  return ancestor ? findComponent([ancestor], id) !== null : false;
+};
+
+// Replace a component, returning a new tree
+export const updateComponent = (
+  components: PageComponent[],
+  id: string,
+  update: (component: PageComponent) => PageComponent
+): PageComponent[] =>
+  components.map((component) => {
+    if (component.id === id) return update(component);
+    if (!component.children) return component;
+    return { ...component, children: updateComponent(component.children, id, update) };
+  });
+
+// Remove a component (and its children), returning a new tree
+export const removeComponent = (components: PageComponent[], id: string): PageComponent[] =>
+  components
+    .filter((component) => component.id !== id)
+    .map((component) =>
+      component.children
+        ? { ...component, children: removeComponent(component.children, id) }
+        : component
+    );
+
+// Insert a component into `parentId`'s children (or the top level when null) at `index`
+export const insertComponent = (
+  components: PageComponent[],
+  parentId: string | null,
+  index: number,
+  component: PageComponent
+): PageComponent[] => {
+  if (parentId === null) {
+    const next = [...components];
+    next.splice(index, 0, component);
+    return next;
+  }
+
+  return updateComponent(components, parentId, (parent) =>
+    ({ ...parent, children: insertComponent(parent.children || [], null, index, component) })
+  );
+};
+
+// Find the parent ID (null for the top level) and index of a component
+export const locateComponent = (
+  components: PageComponent[],
+  id: string,
+  parentId: string | null = null
+): { parentId: string | null; index: number } | null => {
+  for (let index = 0; index < components.length; index++) {
+    const component = components[index];
+    if (component.id === id) return { parentId, index };
+    const found = component.children ? locateComponent(component.children, id, component.id) : null;
+    if (found) return found;
+  }
+  return null;
+};
+
+// Move a component to a new position. Dropping a container into itself is ignored.
+export const moveComponent = (
+  components: PageComponent[],
+  id: string,
+  parentId: string | null,
+  index: number
+): PageComponent[] => {
+  const component = findComponent(components, id);
+  const from = locateComponent(components, id);
+  if (!component || !from) return components;
+  if (parentId !== null && isDescendant(components, id, parentId)) return components;
+
+  // Removing the component first shifts later siblings in the same list up by one
+  const targetIndex = from.parentId === parentId && from.index < index ? index - 1 : index;
+  return insertComponent(removeComponent(components, id), parentId, targetIndex, component);
+};
@@ -0,0 +1,78 @@
+import { Condition } from '../types/pageConfig';
+import { getByPath } from './path';
+
+// Values a condition can read from
+export interface ConditionContext {
+  form: Record<string, Record<string, any>>;
+  user: Record<string, any> | null;
+  query: Record<string, string>;
+  data: Record<string, any>;
+}
+
+// Loose equality so "5" from a query string matches 5 in a config
+const equals = (a: any, b: any): boolean =>
+  a === b || (a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b));
+
+const isPresent = (value: any): boolean =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+// Read the value a comparison refers to
+const resolveValue = (source: string, path: string, context: ConditionContext): any => {
+  switch (source) {
+    case 'form':
+      return getByPath(context.form, path);
+    case 'user':
+      return getByPath(context.user, path);
+    case 'query':
+      return context.query[path];
+    case 'data':
+      return getByPath(context.data, path);
+    default:
+      return undefined;
+  }
+};
+
+// Evaluate a condition against the current page state.
+// Malformed conditions evaluate to false rather than throwing.
+export const evaluateCondition = (condition: Condition, context: ConditionContext): boolean => {
+  if ('all' in condition) return condition.all.every((child) => evaluateCondition(child, context));
+  if ('any' in condition) return condition.any.some((child) => evaluateCondition(child, context));
+  if ('not' in condition) return !evaluateCondition(condition.not, context);
+
+  const actual = resolveValue(condition.source, condition.path, context);
+  const expected = condition.value;
+
+  switch (condition.op) {
+    case 'eq':
+      return equals(actual, expected);
+    case 'neq':
+      return !equals(actual, expected);
+    case 'in':
+      return Array.isArray(expected) && expected.some((value) => equals(actual, value));
+    case 'notIn':
+      return Array.isArray(expected) && !expected.some((value) => equals(actual, value));
+    case 'gt':
+      return isPresent(actual) && Number(actual) > Number(expected);
+    case 'gte':
+      return isPresent(actual) && Number(actual) >= Number(expected);
+    case 'lt':
+      return isPresent(actual) && Number(actual) < Number(expected);
+    case 'lte':
+      return isPresent(actual) && Number(actual) <= Number(expected);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some((value) => equals(value, expected));
+      return typeof actual === 'string' && actual.includes(String(expected));
+    case 'matches':
+      try {
+        return isPresent(actual) && new RegExp(expected).test(String(actual));
+      } catch (err) {
+        return false;
+      }
+    case 'exists':
+      return isPresent(actual);
+    case 'notExists':
+      return !isPresent(actual);
+    default:
+      return false;
+  }
+};
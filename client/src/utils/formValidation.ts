@@ -0,0 +1,151 @@
+import { FormField, FormValue } from '../types/pageConfig';
+
+export type FormValues = Record<string, FormValue>;
+export type FormErrors = Record<string, string>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Longest value checked against a field pattern, as on the server
+const PATTERN_INPUT_LIMIT = 1000;
+
+// Initial value for a field, honouring its defaultValue
+export const getInitialValue = (field: FormField): FormValue => {
+  if (field.type === 'checkbox') return Boolean(field.defaultValue);
+  return field.defaultValue !== undefined ? String(field.defaultValue) : '';
+};
+
+// Validate a single field value, returning an error message or null
+export const validateField = (field: FormField, value: FormValue): string | null => {
+  const label = field.label || field.id;
+  const messages = field.messages || {};
+
+  // Required check
+  const isEmpty = field.type === 'checkbox' ? value !== true : String(value ?? '').trim() === '';
+  if (isEmpty) {
+    return field.required ? messages.required || `${label} is required` : null;
+  }
+
+  if (field.type === 'checkbox') return null;
+  const text = String(value);
+
+  // Format checks
+  if (field.type === 'email' && !EMAIL_PATTERN.test(text)) {
+    return messages.format || 'Enter a valid email address';
+  }
+
+  if (field.type === 'number') {
+    const number = Number(text);
+    if (Number.isNaN(number)) {
+      return messages.format || `${label} must be a number`;
+    }
+    if (field.min !== undefined && number < field.min) {
+      return messages.min || `${label} must be at least ${field.min}`;
+    }
+    if (field.max !== undefined && number > field.max) {
+      return messages.max || `${label} must be at most ${field.max}`;
+    }
+  }
+
+  // Per-field rules
+  if (field.minLength !== undefined && text.length < field.minLength) {
+    return messages.minLength || `${label} must be at least ${field.minLength} characters`;
+  }
+
+  if (field.maxLength !== undefined && text.length > field.maxLength) {
+    return messages.maxLength || `${label} must be at most ${field.maxLength} characters`;
+  }
+
+  if (field.pattern && text.length > PATTERN_INPUT_LIMIT) {
+    return messages.maxLength || `${label} must be at most ${PATTERN_INPUT_LIMIT} characters`;
+  }
+
+  if (field.pattern) {
+    try {
+      if (!new RegExp(`^(?:${field.pattern})$`).test(text)) {
+        return messages.pattern || `${label} is not in the expected format`;
+      }
+    } catch (err) {
+      console.error(`Invalid pattern for field "${field.id}":`, err);
+    }
+  }
+
+  return null;
+};
+
+// Validate every field, returning only the fields with errors
+export const validateForm = (fields: FormField[], values: FormValues): FormErrors => {
+  const errors: FormErrors = {};
+  for (const field of fields) {
+    const error = validateField(field, values[field.id]);
+    if (error) errors[field.id] = error;
+  }
+  return errors;
+};
+
+// Convert a raw input value to the type sent to the API
+const toPayloadValue = (field: FormField | undefined, value: FormValue) => {
+  if (field?.type === 'number' && value !== '') return Number(value);
+  return value;
+};
+
+// Set a value on an object using a dotted path, creating nested objects as needed
+const setPath = (target: Record<string, any>, path: string, value: unknown) => {
+  const keys = path.split('.');
+  let current = target;
+  keys.slice(0, -1).forEach((key) => {
+    if (typeof current[key] !== 'object' || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key];
+  });
+  current[keys[keys.length - 1]] = value;
+};
+
+// Build the request body from payloadMapping ({ payloadKey: fieldId }).
+// Without a mapping, every field is sent under its own id.
+export const buildPayload = (
+  fields: FormField[],
+  values: FormValues,
+  payloadMapping?: Record<string, string>
+): Record<string, any> => {
+  const fieldsById = new Map(fields.map((field) => [field.id, field]));
+  const mapping = payloadMapping || Object.fromEntries(fields.map((field) => [field.id, field.id]));
+  const payload: Record<string, any> = {};
+
+  for (const [payloadKey, fieldId] of Object.entries(mapping)) {
+    if (values[fieldId] === undefined) continue;
+    setPath(payload, payloadKey, toPayloadValue(fieldsById.get(fieldId), values[fieldId]));
+  }
+
+  return payload;
+};
+
+// Map field errors from a 4xx response back onto form fields.
+// Accepts `errors` as either [{ field|path, message }] or { key: message },
+// where the key is a payload key from payloadMapping or a field id.
+export const mapServerErrors = (
+  fields: FormField[],
+  responseData: any,
+  payloadMapping?: Record<string, string>
+): FormErrors => {
+  const rawErrors = responseData?.errors;
+  if (!rawErrors) return {};
+
+  const entries: Array<[string, string]> = Array.isArray(rawErrors)
+    ? rawErrors
+        .filter((error: any) => error && (error.field || error.path))
+        .map((error: any) => [String(error.field || error.path), String(error.message || 'Invalid value')])
+    : Object.entries(rawErrors).map(([key, message]) => [key, String(message)]);
+
+  const fieldIds = new Set(fields.map((field) => field.id));
+  const errors: FormErrors = {};
+
+  for (const [key, message] of entries) {
+    const fieldId = payloadMapping?.[key] ?? key;
+    if (fieldIds.has(fieldId) && !errors[fieldId]) {
+      errors[fieldId] = message;
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,8 @@
+// Read a value from an object using a dotted path (e.g. "pagination.total" or "users.0.email")
+export const getByPath = (source: any, path: string | undefined): any => {
+  if (!path) return source;
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce((current, key) => (current === null || current === undefined ? undefined : current[key]), source);
+};
@@ -0,0 +1,109 @@
+import { ConditionContext } from './conditions';
+
+// Values a template expression can read from: everything conditions see, plus route params
+export interface TemplateContext extends ConditionContext {
+  route: Record<string, string | undefined>;
+}
+
+type Term = { literal: string | number } | { path: string[] };
+
+const TEMPLATE_PATTERN = /\{\{([^}]*)\}\}/g;
+
+// One term of an expression: a string or number literal, or a dotted path such as
+// user.first_name or data.users-table[0].email (component IDs may contain hyphens)
+const TERM_PATTERN =
+  /^\s*(?:"([^"]*)"|'([^']*)'|(-?\d+(?:\.\d+)?)|([A-Za-z_$][\w$]*(?:\.[\w$-]+|\[\d+\])*))\s*/;
+
+// Keys that would reach into prototypes rather than the data itself
+const BLOCKED_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Parse `a.b || "fallback"` into terms. Returns null for anything else, so
+// expressions are never evaluated as code.
+const parseExpression = (expression: string): Term[] | null => {
+  const terms: Term[] = [];
+  let rest = expression;
+
+  for (;;) {
+    const match = rest.match(TERM_PATTERN);
+    if (!match) return null;
+
+    const [whole, doubleQuoted, singleQuoted, number, path] = match;
+    if (doubleQuoted !== undefined || singleQuoted !== undefined) {
+      terms.push({ literal: doubleQuoted ?? singleQuoted });
+    } else if (number !== undefined) {
+      terms.push({ literal: Number(number) });
+    } else {
+      terms.push({ path: path.replace(/\[(\d+)\]/g, '.$1').split('.') });
+    }
+
+    rest = rest.slice(whole.length);
+    if (rest === '') return terms;
+    if (!rest.startsWith('||')) return null;
+    rest = rest.slice(2);
+  }
+};
+
+// Look a path up in the context, using own properties only
+const lookup = (path: string[], context: TemplateContext): any => {
+  const [root, ...keys] = path;
+  if (!Object.prototype.hasOwnProperty.call(context, root)) return undefined;
+
+  return keys.reduce<any>((current, key) => {
+    if (current === null || current === undefined || BLOCKED_KEYS.has(key)) return undefined;
+    if (typeof current !== 'object') return undefined;
+    return Object.prototype.hasOwnProperty.call(current, key) ? current[key] : undefined;
+  }, context[root as keyof TemplateContext]);
+};
+
+const isPresent = (value: any) => value !== undefined && value !== null && value !== '';
+
+// Evaluate one expression: the first term with a value wins. Missing values,
+// objects and invalid expressions become an empty string.
+const evaluate = (expression: string, context: TemplateContext): string => {
+  const terms = parseExpression(expression);
+  if (!terms) {
+    console.warn(`Invalid template expression "{{${expression}}}"`);
+    return '';
+  }
+
+  for (const term of terms) {
+    const value = 'literal' in term ? term.literal : lookup(term.path, context);
+    if (!isPresent(value)) continue;
+    return ['string', 'number', 'boolean'].includes(typeof value) ? String(value) : '';
+  }
+  return '';
+};
+
+export const hasTemplate = (value: unknown): value is string =>
+  typeof value === 'string' && value.includes('{{');
+
+export interface RenderOptions {
+  // URL-encode substituted values (for URLs and paths)
+  encode?: boolean;
+}
+
+// Replace every {{ expression }} in a string with its value from the context
+export const renderTemplate = (
+  template: string,
+  context: TemplateContext,
+  options: RenderOptions = {}
+): string => {
+  if (!hasTemplate(template)) return template;
+
+  return template.replace(TEMPLATE_PATTERN, (_, expression: string) => {
+    const value = evaluate(expression, context);
+    return options.encode ? encodeURIComponent(value) : value;
+  });
+};
+
+export type TemplateRenderer = (template: string, options?: RenderOptions) => string;
+
+// Render templates in every string inside a JSON value (e.g. a request body)
+export const renderDeep = (value: any, render: TemplateRenderer): any => {
+  if (typeof value === 'string') return render(value);
+  if (Array.isArray(value)) return value.map((item) => renderDeep(item, render));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderDeep(item, render)]));
+  }
+  return value;
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import {
+  ComponentStyle,
+  DEFAULT_THEME,
+  PartialThemeTokens,
+  STYLE_PROPERTIES,
+  THEME_TOKENS,
+  ThemeGroup,
+  ThemeTokens,
+  TokenValue,
+} from '../types/theme';
+
+// Layer partial token sets over the built-in values, later layers winning
+// (the same merge the server does for served pages)
+export const mergeTheme = (...layers: (PartialThemeTokens | undefined)[]): ThemeTokens => {
+  const merged = {} as Record<ThemeGroup, Record<string, TokenValue>>;
+  (Object.keys(THEME_TOKENS) as ThemeGroup[]).forEach((group) => {
+    merged[group] = Object.assign({}, DEFAULT_THEME[group], ...layers.map((layer) => layer?.[group]));
+  });
+  return merged as ThemeTokens;
+};
+
+// Look up a token; unknown names give undefined so the style is left out
+const token = (theme: ThemeTokens, group: ThemeGroup, name: string | undefined): TokenValue | undefined =>
+  name === undefined ? undefined : (theme[group] as Record<string, TokenValue>)[name];
+
+// Turn a component's `style` prop into inline CSS using the theme's tokens
+export const styleFor = (style: ComponentStyle, theme: ThemeTokens): React.CSSProperties => {
+  const borderColor = token(theme, STYLE_PROPERTIES.borderColor, style.borderColor);
+
+  return {
+    color: token(theme, STYLE_PROPERTIES.color, style.color) as string | undefined,
+    backgroundColor: token(theme, STYLE_PROPERTIES.background, style.background) as string | undefined,
+    border: borderColor === undefined ? undefined : `1px solid ${borderColor}`,
+    fontFamily: token(theme, STYLE_PROPERTIES.fontFamily, style.fontFamily) as string | undefined,
+    fontSize: token(theme, STYLE_PROPERTIES.fontSize, style.fontSize),
+    fontWeight: token(theme, STYLE_PROPERTIES.fontWeight, style.fontWeight) as React.CSSProperties['fontWeight'],
+    padding: token(theme, STYLE_PROPERTIES.padding, style.padding),
+    borderRadius: token(theme, STYLE_PROPERTIES.radius, style.radius),
+    textAlign: style.align,
+  };
+};
+
+// Base look of a whole page: background, text color and body font
+export const pageStyle = (theme: ThemeTokens): React.CSSProperties => ({
+  backgroundColor: theme.colors.background,
+  color: theme.colors.text,
+  fontFamily: theme.fonts.body,
+  fontSize: theme.fontSizes.md,
+});
+
+// Primary action buttons (button components, form submit) in the theme's colors
+export const primaryButtonStyle = (theme: ThemeTokens, busy: boolean): React.CSSProperties => ({
+  backgroundColor: theme.colors.primary,
+  color: theme.colors.primaryText,
+  borderRadius: theme.radii.md,
+  opacity: busy ? 0.6 : undefined,
+});
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import prisma from '../config/prisma.js';
+import {
+  CONFLICT_STRATEGIES,
+  ConflictStrategy,
+  ImportPlanItem,
+  exportPageBundle,
+  validateBundle,
+  validateBundleReferences,
+  planImport,
+  applyImport,
+  logImportResults
+} from '../services/pageBundleService.js';
+import { renderPublishedPages } from '../services/staticPageService.js';
+import {
+  LintFinding,
+  LintOptions,
+  countFindings,
+  getAllowedApiUrls,
+  lintPage,
+  validateLintOptions,
+  VALIDATION_RULE
+} from '../services/pageLintService.js';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage:
+  npm run pages -- export [--pages <id,id,...>] [--out <file>]
+  npm run pages -- import <file> --actor <email> [--strategy skip|overwrite|rename] [--dry-run] [--publish]
+  npm run pages -- render --out <dir> [--locale <locale>] [--api-url <url>] [--app-url <url>]
+  npm run pages -- lint <dir> [--rule <rule>=<severity>,...] [--allow <url>,...]`;
+
+// Split argv into positional arguments and --flags (flags without a value are true)
+const parseArgs = (args: string[]) => {
+  const positional: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      const name = args[i].slice(2);
+      const next = args[i + 1];
+      if (next !== undefined && !next.startsWith('--')) {
+        flags[name] = next;
+        i++;
+      } else {
+        flags[name] = true;
+      }
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  return { positional, flags };
+};
+
+// One line per page, e.g. "update    signup (title, components)"
+const printPlan = (items: ImportPlanItem[]) => {
+  for (const item of items) {
+    const target = item.targetPageId === item.pageId ? item.pageId : `${item.pageId} -> ${item.targetPageId}`;
+    const fields = item.changes.length > 0 ? ` (${item.changes.map((change) => change.field).join(', ')})` : '';
+    console.log(`${item.action.padEnd(10)}${target}${fields}`);
+  }
+};
+
+const exportCommand = async (flags: Record<string, string | true>) => {
+  const pageIds = typeof flags.pages === 'string' ? flags.pages.split(',').map((id) => id.trim()) : undefined;
+  const { bundle, missing } = await exportPageBundle(pageIds);
+
+  if (missing.length > 0) {
+    throw new Error(`Pages not found: ${missing.join(', ')}`);
+  }
+
+  const json = JSON.stringify(bundle, null, 2);
+  if (typeof flags.out === 'string') {
+    fs.writeFileSync(flags.out, json);
+    console.log(`Exported ${bundle.pages.length} page(s) to ${flags.out}`);
+  } else {
+    console.log(json);
+  }
+};
+
+const importCommand = async (file: string | undefined, flags: Record<string, string | true>) => {
+  if (!file) throw new Error(USAGE);
+
+  const strategy = (typeof flags.strategy === 'string' ? flags.strategy : 'skip') as ConflictStrategy;
+  if (!CONFLICT_STRATEGIES.includes(strategy)) {
+    throw new Error(`Invalid strategy. Expected one of: ${CONFLICT_STRATEGIES.join(', ')}`);
+  }
+
+  const bundle = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const errors = validateBundle(bundle);
+  if (errors.length === 0) {
+    errors.push(...(await validateBundleReferences(bundle)));
+  }
+  if (errors.length > 0) {
+    errors.forEach((error) => console.error(`${error.path}: ${error.message}`));
+    throw new Error('Invalid page bundle');
+  }
+
+  const plan = await planImport(bundle, strategy);
+
+  if (flags['dry-run']) {
+    console.log('Dry run, nothing was changed:');
+    printPlan(plan);
+    return;
+  }
+
+  // Imports are attributed to a real user so they show up in the audit log
+  const actor = typeof flags.actor === 'string'
+    ? await prisma.user.findUnique({ where: { email: flags.actor } })
+    : null;
+  if (!actor) {
+    throw new Error('--actor <email> must name an existing user to record the import in the audit log');
+  }
+
+  const results = await applyImport(bundle, plan, actor.id, flags.publish === true);
+  await logImportResults(actor.id, bundle, results);
+  printPlan(results);
+};
+
+// Write every published public page to <dir>/<pageId>.html, ready to host as static files
+const renderCommand = async (flags: Record<string, string | true>) => {
+  if (typeof flags.out !== 'string') throw new Error(USAGE);
+
+  const appUrl = typeof flags['app-url'] === 'string' ? flags['app-url'] : process.env.CLIENT_URL || 'http://localhost:3000';
+  const apiUrl = typeof flags['api-url'] === 'string'
+    ? flags['api-url']
+    : process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 5000}/api`;
+
+  const { locale, rendered, skipped } = await renderPublishedPages({
+    locale: typeof flags.locale === 'string' ? flags.locale : undefined,
+    apiUrl,
+    appUrl
+  });
+
+  fs.mkdirSync(flags.out, { recursive: true });
+  for (const { pageId, html } of rendered) {
+    fs.writeFileSync(path.join(flags.out, `${pageId}.html`), html);
+    console.log(`rendered  ${pageId}`);
+  }
+  for (const { pageId, reason } of skipped) {
+    console.log(`skipped   ${pageId} (${reason})`);
+  }
+  console.log(`Rendered ${rendered.length} page(s) in ${locale} to ${flags.out}`);
+};
+
+// "image-alt=error,duplicate-label=off" -> { "image-alt": "error", "duplicate-label": "off" }
+const parseRuleFlag = (value: string | true | undefined) => {
+  if (typeof value !== 'string') return undefined;
+  return Object.fromEntries(
+    value.split(',').map((entry) => {
+      const [rule, severity = ''] = entry.split('=');
+      return [rule.trim(), severity.trim()];
+    })
+  );
+};
+
+// Parse a JSON file, naming the file in errors
+const readJson = (file: string) => {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read ${path.basename(file)}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+// Lint every <name>.json page config in a directory. A <name>.samples.json next to it
+// holds sample API responses for its tables, keyed by component ID. Fails on errors.
+const lintCommand = async (dir: string | undefined, flags: Record<string, string | true>) => {
+  if (!dir) throw new Error(USAGE);
+
+  const rules = parseRuleFlag(flags.rule);
+  const optionErrors = validateLintOptions({ rules });
+  if (optionErrors.length > 0) {
+    throw new Error(optionErrors.map((error) => `${error.path}: ${error.message}`).join('\n'));
+  }
+  const allowedUrls = typeof flags.allow === 'string'
+    ? flags.allow.split(',').map((url) => url.trim()).filter(Boolean)
+    : getAllowedApiUrls();
+
+  const files = fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith('.json') && !name.endsWith('.samples.json'))
+    .sort();
+
+  const findings: LintFinding[] = [];
+  for (const name of files) {
+    const file = path.join(dir, name);
+    const samplesFile = file.replace(/\.json$/, '.samples.json');
+
+    let fileFindings: LintFinding[];
+    try {
+      const options: LintOptions = { rules: rules as LintOptions['rules'], allowedUrls };
+      if (fs.existsSync(samplesFile)) options.samples = readJson(samplesFile);
+      fileFindings = lintPage(readJson(file), options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      fileFindings = [{ rule: VALIDATION_RULE, severity: 'error', path: '', message }];
+    }
+
+    if (fileFindings.length === 0) continue;
+    console.log(file);
+    for (const finding of fileFindings) {
+      console.log(`  ${finding.severity.padEnd(9)}${finding.path || '(file)'}  ${finding.message}  ${finding.rule}`);
+    }
+    findings.push(...fileFindings);
+  }
+
+  const counts = countFindings(findings);
+  console.log(`Linted ${files.length} file(s): ${counts.error} error(s), ${counts.warning} warning(s), ${counts.info} info`);
+  if (counts.error > 0) process.exitCode = 1;
+};
+
+const main = async () => {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, flags } = parseArgs(rest);
+
+  switch (command) {
+    case 'export':
+      return exportCommand(flags);
+    case 'import':
+      return importCommand(positional[0], flags);
+    case 'render':
+      return renderCommand(flags);
+    case 'lint':
+      return lintCommand(positional[0], flags);
+    default:
+      throw new Error(USAGE);
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,25 @@
+import { registerComponent } from '../models/ComponentRegistry.js';
+
+// Colours per tone, matching the client's callout (client/src/components/custom/Callout.tsx)
+const TONES: Record<string, string> = {
+  info: 'background:#eff6ff;border-color:#93c5fd;color:#1e40af',
+  success: 'background:#f0fdf4;border-color:#86efac;color:#166534',
+  warning: 'background:#fefce8;border-color:#fde047;color:#854d0e',
+  error: 'background:#fef2f2;border-color:#fca5a5;color:#991b1b'
+};
+
+// Highlighted notice with an optional title, e.g. for announcements or warnings
+registerComponent({
+  type: 'callout',
+  description: 'Highlighted notice',
+  props: {
+    text: { type: 'string', required: true, max: 2000 },
+    title: { type: 'string', max: 200 },
+    tone: { type: 'string', enum: Object.keys(TONES) }
+  },
+  renderHtml: (props, escapeHtml) => {
+    const tone = TONES[props.tone] ? props.tone : 'info';
+    const title = props.title ? `<strong>${escapeHtml(props.title)}</strong>` : '';
+    return `<div role="${tone === 'error' ? 'alert' : 'note'}" style="padding:0.75rem 1rem;border:1px solid;border-radius:0.375rem;${TONES[tone]}">${title}<p style="margin:0">${escapeHtml(props.text)}</p></div>`;
+  }
+});
@@ -0,0 +1,3 @@
+// Custom component types. Each module registers its type with registerComponent()
+// (models/ComponentRegistry.ts); add new ones to this list.
+import './callout.js';
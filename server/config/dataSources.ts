@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+
+type Role = 'admin' | 'moderator' | 'user';
+
+// Who may call a data source through the proxy (same shape as a page's access block)
+export interface DataSourceAccess {
+  level: 'public' | 'authenticated' | 'roles';
+  roles?: Role[];
+}
+
+// A named upstream API that page configs can call through /api/data/:sourceName
+export interface DataSource {
+  name: string;
+  baseUrl: string;
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  methods: string[];
+  paths: string[];
+  access: DataSourceAccess;
+  timeoutMs: number;
+  maxResponseBytes: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_RESPONSE_BYTES = 1024 * 1024;
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const ACCESS_LEVELS = ['public', 'authenticated', 'roles'];
+const ROLES: Role[] = ['admin', 'moderator', 'user'];
+
+// Replace ${env:NAME} placeholders so secrets stay in the environment, not the file
+const interpolateEnv = (value: string, sourceName: string): string =>
+  value.replace(/\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name) => {
+    const envValue = process.env[name];
+    if (envValue === undefined) {
+      throw new Error(`Data source "${sourceName}" references missing environment variable ${name}`);
+    }
+    return envValue;
+  });
+
+const interpolateMap = (map: unknown, sourceName: string): Record<string, string> => {
+  if (map === undefined) return {};
+  if (typeof map !== 'object' || map === null || Array.isArray(map)) {
+    throw new Error(`Data source "${sourceName}" headers and query must be objects`);
+  }
+  return Object.fromEntries(
+    Object.entries(map).map(([key, value]) => [key, interpolateEnv(String(value), sourceName)])
+  );
+};
+
+// Check and normalise one entry from the data sources file
+const parseDataSource = (name: string, definition: any): DataSource => {
+  if (typeof definition?.baseUrl !== 'string') {
+    throw new Error(`Data source "${name}" must define a baseUrl`);
+  }
+
+  const baseUrl = interpolateEnv(definition.baseUrl, name).replace(/\/+$/, '');
+  if (!/^https?:\/\//i.test(baseUrl)) {
+    throw new Error(`Data source "${name}" baseUrl must be an http(s) URL`);
+  }
+
+  const methods = (definition.methods || ['GET']).map((method: string) => String(method).toUpperCase());
+  const unknownMethod = methods.find((method: string) => !HTTP_METHODS.includes(method));
+  if (unknownMethod) {
+    throw new Error(`Data source "${name}" has unsupported method "${unknownMethod}"`);
+  }
+
+  // An explicit path allowlist is required so a source can't be used as an open relay
+  if (!Array.isArray(definition.paths) || definition.paths.length === 0) {
+    throw new Error(`Data source "${name}" must list the paths it allows`);
+  }
+
+  const access: DataSourceAccess = definition.access || { level: 'authenticated' };
+  if (!ACCESS_LEVELS.includes(access.level)) {
+    throw new Error(`Data source "${name}" has unknown access level "${access.level}"`);
+  }
+  if (access.level === 'roles' && (!Array.isArray(access.roles) || !access.roles.every((role) => ROLES.includes(role)))) {
+    throw new Error(`Data source "${name}" must list valid roles for role-based access`);
+  }
+
+  return {
+    name,
+    baseUrl,
+    headers: interpolateMap(definition.headers, name),
+    query: interpolateMap(definition.query, name),
+    methods,
+    paths: definition.paths.map(String),
+    access,
+    timeoutMs: Number(definition.timeoutMs) || DEFAULT_TIMEOUT_MS,
+    maxResponseBytes: Number(definition.maxResponseBytes) || DEFAULT_MAX_RESPONSE_BYTES
+  };
+};
+
+let dataSources: Map<string, DataSource> | null = null;
+
+// Load data sources from DATA_SOURCES_FILE (default: data-sources.json next to the server).
+// Invalid sources are logged and skipped; a missing file means no sources.
+export const loadDataSources = (): Map<string, DataSource> => {
+  const file = path.resolve(process.env.DATA_SOURCES_FILE || 'data-sources.json');
+  const sources = new Map<string, DataSource>();
+
+  if (!fs.existsSync(file)) {
+    return sources;
+  }
+
+  try {
+    const definitions = JSON.parse(fs.readFileSync(file, 'utf8'));
+    for (const [name, definition] of Object.entries(definitions)) {
+      try {
+        sources.set(name, parseDataSource(name, definition));
+      } catch (error) {
+        console.error('Error loading data source:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading data sources file:', error);
+  }
+
+  return sources;
+};
+
+// Get a data source by name (loaded once on first use)
+export const getDataSource = (name: string): DataSource | undefined => {
+  if (!dataSources) {
+    dataSources = loadDataSources();
+  }
+  return dataSources.get(name);
+};
+
+// Match a request path against a source's allowlist.
+// In patterns, "*" matches one path segment and a trailing "**" matches the rest.
+export const isPathAllowed = (source: DataSource, requestPath: string): boolean => {
+  const segments = requestPath.split('/').filter(Boolean);
+
+  return source.paths.some((pattern) => {
+    const patternSegments = pattern.split('/').filter(Boolean);
+
+    for (let i = 0; i < patternSegments.length; i++) {
+      if (patternSegments[i] === '**' && i === patternSegments.length - 1) return true;
+      if (i >= segments.length) return false;
+      if (patternSegments[i] !== '*' && patternSegments[i] !== segments[i]) return false;
+    }
+    return patternSegments.length === segments.length;
+  });
+};
@@ -8,20 +8,44 @@ import prisma from './config/prisma.js';
 import authRoutes from './routes/auth.js';
 import userRoutes from './routes/users.js';
 import auditRoutes from './routes/audit.js';
+import pageConfigRoutes from './routes/pageConfig.js';
+import adminPageConfigRoutes from './routes/adminPageConfig.js';
+import adminFragmentRoutes from './routes/adminFragments.js';
+import adminThemeRoutes from './routes/adminThemes.js';
+import adminTranslationRoutes from './routes/adminTranslations.js';
+import localeRoutes from './routes/locales.js';
+import staticPageRoutes from './routes/staticPages.js';
+import dataProxyRoutes from './routes/dataProxy.js';
+import eventRoutes from './routes/events.js';
+import analyticsRoutes from './routes/analytics.js';
+import submissionRoutes from './routes/submissions.js';
 import { captureIp } from './middleware/ipCapture.js';
+import { YAML_CONTENT_TYPES } from './utils/yamlSource.js';
+import { startPublishScheduler } from './services/publishScheduler.js';
 
 // Load environment variables
 dotenv.config();
 
+// Signed cookies are only as good as their secret, so there is no default
+if (!process.env.COOKIE_SECRET) {
+  console.error('COOKIE_SECRET is not set; refusing to start');
+  process.exit(1);
+}
+
 // Initialize Express app
 const app = express();
 const PORT = process.env.PORT || 5000;
 
 // Middleware
-app.use(express.json());
+// Page bundles for import can be much larger than a typical request
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '5mb' }));
+// Page configs can also be sent as YAML; routes parse the raw text themselves
+app.use(express.text({ type: YAML_CONTENT_TYPES, limit: process.env.JSON_BODY_LIMIT || '5mb' }));
+// The secret signs the visitor cookie (A/B tests and analytics)
 app.use(cookieParser(process.env.COOKIE_SECRET));
+// Pages exported as static files call the API from wherever they are hosted
 app.use(cors({
-  origin: process.env.CLIENT_URL || 'http://localhost:3000',
+  origin: [process.env.CLIENT_URL || 'http://localhost:3000', ...(process.env.STATIC_SITE_URL ? [process.env.STATIC_SITE_URL] : [])],
   credentials: true
 }));
 app.use(captureIp);
@@ -58,6 +82,17 @@ Promise.all([
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/audit', auditRoutes);
+app.use('/api/page-config', pageConfigRoutes);
+app.use('/api/admin/page-config', adminPageConfigRoutes);
+app.use('/api/admin/fragments', adminFragmentRoutes);
+app.use('/api/admin/themes', adminThemeRoutes);
+app.use('/api/admin/translations', adminTranslationRoutes);
+app.use('/api/locales', localeRoutes);
+app.use('/pages', staticPageRoutes);
+app.use('/api/data', dataProxyRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/admin/analytics', analyticsRoutes);
+app.use('/api/admin/submissions', submissionRoutes);
 
 // Health check route
 app.get('/api/health', (req, res) => {
@@ -76,6 +111,9 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 // Start server
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+
+  // Publish pages whose scheduled publish time has passed
+  startPublishScheduler();
 });
 
 export default app;
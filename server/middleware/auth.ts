@@ -11,6 +11,7 @@ type User = {
   email: string;
   password: string;
   role: 'admin' | 'moderator' | 'user';
+  locale: string | null;
   created_at: Date;
   updated_at: Date;
 };
@@ -66,6 +67,24 @@ export const authenticate = async (
   }
 };
 
+// User ID from a valid auth cookie, or null. Doesn't load the user or reject the
+// request, for routes that only need to know who is asking when someone is logged in.
+export const readTokenUserId = (req: Request): number | null => {
+  const token = req.cookies.token;
+  if (!token) return null;
+
+  try {
+    const decoded = jwt.verify(
+      token,
+      process.env.JWT_SECRET || 'default-secret'
+    ) as Partial<JwtPayload>;
+    // A signed token without a numeric user ID doesn't identify anyone
+    return typeof decoded.userId === 'number' ? decoded.userId : null;
+  } catch (error) {
+    return null;
+  }
+};
+
 // Role-based authorization middleware
 export const authorize = (allowedRoles: ('admin' | 'moderator' | 'user')[]) => {
   return (req: Request, res: Response, next: NextFunction) => {
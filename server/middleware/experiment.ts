@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { getVisitorId } from './visitor.js';
+import { pickVariant, variantPage } from '../services/experimentService.js';
+
+// For pages with A/B variants, assign the visitor a variant and replace
+// res.locals.page with that variant's page. Sets res.locals.variant and
+// res.locals.visitorId; pages without variants pass through untouched.
+export const assignVariant = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const page = res.locals.page;
+  if (!page?.variants) return next();
+
+  const visitorId = getVisitorId(req, res);
+  const variant = pickVariant(page.variants, page.pageId, visitorId);
+
+  res.locals.page = variantPage(page, variant);
+  res.locals.variant = variant.id;
+  res.locals.visitorId = visitorId;
+  next();
+};
@@ -0,0 +1,22 @@
+import { Request } from 'express';
+import prisma from '../config/prisma.js';
+import { readTokenUserId } from './auth.js';
+import { listLocales, negotiateLocale, parseAcceptLanguage } from '../services/translationService.js';
+
+// Locale to serve a page in: the ?lang= param, then the logged-in user's
+// preference, then the browser's Accept-Language, then the default locale
+export const getRequestLocale = async (req: Request): Promise<string> => {
+  const lang = typeof req.query.lang === 'string' ? req.query.lang : undefined;
+
+  let preference = req.user?.locale ?? null;
+  const userId = req.user ? null : readTokenUserId(req);
+  if (userId !== null) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { locale: true } });
+    preference = user?.locale ?? null;
+  }
+
+  return negotiateLocale(
+    [lang, preference, ...parseAcceptLanguage(req.headers['accept-language'])],
+    await listLocales()
+  );
+};
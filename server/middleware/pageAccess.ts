@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction } from 'express';
+import { authenticate, authorize } from './auth.js';
+import { getPublishedPage } from '../services/pageConfigService.js';
+import { resolvePageFragments } from '../services/fragmentService.js';
+import { translatePage } from '../services/translationService.js';
+import { getRequestLocale } from './locale.js';
+import { ROLES, PageAccess } from '../models/PageConfig.js';
+
+// Load the published page into res.locals.page (404 if missing), with its
+// fragments expanded and its translation keys resolved for the request's locale
+// (res.locals.locale)
+export const loadPublishedPage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    // Drafts and unpublished pages are never served here
+    const page = await getPublishedPage(req.params.pageId);
+
+    if (!page) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    const locale = await getRequestLocale(req);
+    res.locals.page = await translatePage(await resolvePageFragments(page), locale);
+    res.locals.locale = locale;
+    next();
+  } catch (error) {
+    console.error('Error fetching page config:', error);
+    res.status(500).json({ message: 'Error fetching page config' });
+  }
+};
+
+// Enforce an access block with the regular auth middleware:
+// 401 when login is required, 403 when the user's role is not allowed
+export const requireAccess = (access: PageAccess | undefined) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!access || access.level === 'public') {
+    return next();
+  }
+
+  const allowedRoles = access.level === 'roles' && access.roles ? access.roles : [...ROLES];
+
+  authenticate(req, res, () => authorize(allowedRoles)(req, res, next));
+};
+
+// Enforce the access block of the page loaded by loadPublishedPage
+export const enforcePageAccess = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => requireAccess(res.locals.page?.access)(req, res, next);
@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+
+interface RateLimitOptions {
+  // Length of a window in milliseconds
+  windowMs: number;
+  // Requests allowed per client IP in one window
+  max: number;
+}
+
+// Limit requests per client IP in fixed windows. Counts are kept in memory, so
+// each server process limits on its own. Uses req.ip, which honours the app's
+// "trust proxy" setting, rather than the spoofable X-Forwarded-For header.
+export const rateLimit = ({ windowMs, max }: RateLimitOptions) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = req.ip || 'unknown';
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      // Forget finished windows now and then so the map doesn't keep growing
+      if (windows.size >= 10000) {
+        windows.forEach((entry, entryKey) => {
+          if (entry.resetAt <= now) windows.delete(entryKey);
+        });
+      }
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    window.count++;
+    if (window.count > max) {
+      res.set('Retry-After', String(Math.ceil((window.resetAt - now) / 1000)));
+      return res.status(429).json({ message: 'Too many requests, try again later' });
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { readTokenUserId } from './auth.js';
+
+// Signed cookie with a random ID for visitors who aren't logged in
+export const VISITOR_COOKIE = 'visitor_id';
+const VISITOR_COOKIE_MAX_AGE = 365 * 24 * 60 * 60 * 1000; // 1 year
+
+// Stable visitor ID: "user:<id>" when logged in, otherwise "anon:<uuid>" from the
+// visitor cookie, which is set on the first visit
+export const getVisitorId = (req: Request, res: Response): string => {
+  const userId = req.user?.id ?? readTokenUserId(req);
+  if (userId !== null) return `user:${userId}`;
+
+  // Tampered signed cookies come back as false
+  let anonymousId = req.signedCookies?.[VISITOR_COOKIE];
+  if (typeof anonymousId !== 'string') {
+    anonymousId = crypto.randomUUID();
+    res.cookie(VISITOR_COOKIE, anonymousId, {
+      signed: true,
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: VISITOR_COOKIE_MAX_AGE
+    });
+  }
+  return `anon:${anonymousId}`;
+};
@@ -0,0 +1,67 @@
+import type { ValidationError } from './PageConfig.js';
+
+// Value kinds a prop schema can require. "action" and "condition" props get the
+// same checks as a button's onClick and a component's visibleWhen.
+export const PROP_KINDS = ['string', 'number', 'boolean', 'array', 'object', 'action', 'condition'] as const;
+
+export type PropKind = typeof PROP_KINDS[number];
+
+// Schema of one prop of a registered component type
+export interface PropSchema {
+  type: PropKind;
+  required?: boolean;
+  // Allowed values, for string and number props
+  enum?: (string | number)[];
+  // Bounds: the value for numbers, the length for strings and arrays
+  min?: number;
+  max?: number;
+}
+
+// A component type added outside the built-in set. The client needs a renderer
+// registered under the same type (client/src/components/custom).
+export interface ComponentDefinition {
+  type: string;
+  description: string;
+  // Every prop the type accepts; `style` is accepted on all components
+  props: Record<string, PropSchema>;
+  // Checks the schema can't express, run once the schema checks pass
+  validate?: (props: Record<string, any>, path: string, errors: ValidationError[]) => void;
+  // Markup for pages rendered to static HTML, from props with templates filled in.
+  // Without it the component is left out of static pages.
+  renderHtml?: (props: Record<string, any>, escapeHtml: (value: unknown) => string) => string;
+}
+
+// Types that can't be registered: COMPONENT_TYPES in PageConfig.ts, which can't be
+// imported here because PageConfig.ts loads the registrations
+const BUILT_IN_TYPES = ['text', 'form', 'table', 'button', 'image', 'divider', 'spacer', 'container', 'fragment'];
+
+const definitions = new Map<string, ComponentDefinition>();
+
+// Add a component type. Throws on invalid definitions so mistakes surface at startup.
+export const registerComponent = (definition: ComponentDefinition) => {
+  const { type } = definition;
+
+  if (!/^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/.test(type)) {
+    throw new Error(`Component type "${type}" must be lowercase letters, digits and hyphens`);
+  }
+  if (BUILT_IN_TYPES.includes(type)) {
+    throw new Error(`Component type "${type}" is built in and can't be registered`);
+  }
+  if (definitions.has(type)) {
+    throw new Error(`Component type "${type}" is already registered`);
+  }
+
+  for (const [name, schema] of Object.entries(definition.props)) {
+    if (!PROP_KINDS.includes(schema.type)) {
+      throw new Error(`Prop "${name}" of component type "${type}" has unknown type "${schema.type}"`);
+    }
+  }
+
+  definitions.set(type, definition);
+};
+
+export const getComponentDefinition = (type: unknown) =>
+  typeof type === 'string' ? definitions.get(type) : undefined;
+
+// Registered types, in registration order
+export const listComponentDefinitions = () => [...definitions.values()];
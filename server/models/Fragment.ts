@@ -0,0 +1,58 @@
+import { Prisma } from '@prisma/client';
+import { Component, ValidationError, isPlainObject, validateTree } from './PageConfig.js';
+
+// A named component subtree that pages include with { "type": "fragment", "ref": "<fragmentId>" }
+export interface Fragment {
+  fragmentId: string;
+  title: string;
+  components: Component[];
+}
+
+// Shape of the fragments row as returned by Prisma
+export interface FragmentRecord {
+  id: string;
+  fragment_id: string;
+  title: string;
+  components: any;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Build the Fragment returned to clients from a stored row
+export const toFragment = (record: FragmentRecord): Fragment => ({
+  fragmentId: record.fragment_id,
+  title: record.title,
+  components: Array.isArray(record.components) ? record.components : []
+});
+
+// Split an incoming Fragment into the columns stored in fragments
+export const toFragmentData = (fragment: Fragment) => ({
+  fragment_id: fragment.fragmentId,
+  title: fragment.title,
+  components: fragment.components as unknown as Prisma.InputJsonArray
+});
+
+// Fragment validation. The components are one tree, checked like a page's;
+// fragments it includes are checked by fragmentService when it is saved.
+export const validateFragment = (fragment: any): ValidationError[] => {
+  if (!isPlainObject(fragment)) {
+    return [{ path: '', message: 'Fragment must be an object' }];
+  }
+
+  const errors: ValidationError[] = [];
+
+  if (typeof fragment.fragmentId !== 'string' || !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(fragment.fragmentId)) {
+    errors.push({
+      path: 'fragmentId',
+      message: 'Fragment ID must contain only lowercase letters, numbers and single hyphens'
+    });
+  }
+
+  if (typeof fragment.title !== 'string' || fragment.title.trim() === '') {
+    errors.push({ path: 'title', message: 'Title is required' });
+  }
+
+  validateTree(fragment.components, 'components', errors);
+
+  return errors;
+};
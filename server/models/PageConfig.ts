@@ -0,0 +1,933 @@
+import { Prisma } from '@prisma/client';
+import { getDataSource, isPathAllowed } from '../config/dataSources.js';
+import { ComponentDefinition, getComponentDefinition, listComponentDefinitions } from './ComponentRegistry.js';
+import { validateStyle } from './Theme.js';
+import { validateTranslationReference } from './Translation.js';
+import '../components/index.js';
+
+// Supported component types (see prd/03-page-builder.md)
+export const COMPONENT_TYPES = [
+  'text',
+  'form',
+  'table',
+  'button',
+  'image',
+  'divider',
+  'spacer',
+  'container',
+  'fragment'
+] as const;
+
+export type ComponentType = typeof COMPONENT_TYPES[number];
+
+// Where a condition reads its value from
+export const CONDITION_SOURCES = ['form', 'user', 'query', 'data'] as const;
+
+// Comparison operators available in conditions
+export const CONDITION_OPERATORS = [
+  'eq',
+  'neq',
+  'in',
+  'notIn',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+  'matches',
+  'exists',
+  'notExists'
+] as const;
+
+// Visibility/enablement rule: a comparison, or all/any/not combinations of rules
+export type Condition =
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition }
+  | {
+      source: typeof CONDITION_SOURCES[number];
+      path: string;
+      op: typeof CONDITION_OPERATORS[number];
+      value?: any;
+    };
+
+export interface Component {
+  id: string;
+  // A built-in type, or one added with registerComponent()
+  type: ComponentType | string;
+  props: Record<string, any>;
+  children?: Component[];
+  visibleWhen?: Condition;
+  enabledWhen?: Condition;
+  // Fragment instances: the fragment's ID, and props to replace per component ID in it
+  ref?: string;
+  overrides?: Record<string, Record<string, any>>;
+}
+
+// User roles, matching the Role enum in the Prisma schema
+export const ROLES = ['admin', 'moderator', 'user'] as const;
+
+export const ACCESS_LEVELS = ['public', 'authenticated', 'roles'] as const;
+
+// Who may view a page: anyone, any logged-in user, or specific roles
+export interface PageAccess {
+  level: typeof ACCESS_LEVELS[number];
+  roles?: typeof ROLES[number][];
+}
+
+// One arm of an A/B test. Visitors are split between variants in proportion to
+// their weights; a variant without `components` shows the page's own components.
+export interface PageVariant {
+  id: string;
+  weight: number;
+  components?: Component[];
+}
+
+export interface Page {
+  pageId: string;
+  title: string;
+  components: Component[];
+  access?: PageAccess;
+  variants?: PageVariant[];
+  // Theme ID; pages without one use the default theme
+  theme?: string;
+}
+
+// Shape of the page_configs row as returned by Prisma
+export interface PageConfigRecord {
+  id: string;
+  page_id: string;
+  title: string;
+  config_json: any;
+  yaml_source?: string | null;
+  current_version: number;
+  published_version: number | null;
+  published_at: Date | null;
+  scheduled_version: number | null;
+  scheduled_publish_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Build the Page served to clients from a stored row
+export const toPage = (record: PageConfigRecord): Page => {
+  const config = record.config_json || {};
+  return {
+    ...config,
+    pageId: record.page_id,
+    title: record.title,
+    components: Array.isArray(config.components) ? config.components : []
+  };
+};
+
+export type PageStatus = 'draft' | 'published';
+
+// Publishing state of a page, as shown to authors
+export const toPublishState = (record: PageConfigRecord) => ({
+  status: (record.published_version === null ? 'draft' : 'published') as PageStatus,
+  current_version: record.current_version,
+  published_version: record.published_version,
+  published_at: record.published_at,
+  has_unpublished_changes: record.published_version !== record.current_version,
+  scheduled_version: record.scheduled_version,
+  scheduled_publish_at: record.scheduled_publish_at
+});
+
+// Split an incoming Page into the columns stored in page_configs
+export const toPageConfigData = (page: Page) => {
+  const { pageId, title, ...config } = page;
+  return {
+    page_id: pageId,
+    title,
+    config_json: config as unknown as Prisma.InputJsonObject
+  };
+};
+
+// Validation error with the JSON path of the offending value
+export interface ValidationError {
+  path: string;
+  message: string;
+  // Position in the YAML source, when the config was submitted as YAML
+  line?: number;
+  column?: number;
+}
+
+// Supported form field types
+export const FIELD_TYPES = [
+  'text',
+  'email',
+  'number',
+  'password',
+  'textarea',
+  'select',
+  'checkbox',
+  'date',
+  'tel',
+  'url'
+] as const;
+
+// Supported table column formatters
+export const COLUMN_FORMATS = ['date', 'datetime', 'currency', 'badge', 'link'] as const;
+
+// Page IDs already taken by client routes
+export const RESERVED_PAGE_IDS = ['login', 'users', 'audit-logs', 'page-builder', 'analytics', 'submissions', 'fragments', 'themes', 'translations'];
+
+// Props every component of a given type must define
+const REQUIRED_PROPS: Partial<Record<ComponentType, string[]>> = {
+  form: ['fields', 'submit'],
+  table: ['columns', 'api'],
+  button: ['label']
+};
+
+// Whether a URL is safe to navigate to: relative, or http(s). Browsers ignore
+// whitespace and control characters in the scheme ("java\tscript:"), so they are
+// removed before looking at it.
+export const isSafeUrl = (url: string) => {
+  const scheme = url.replace(/[\u0000-\u0020\u007f]/g, '').match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || ['http', 'https'].includes(scheme[1].toLowerCase());
+};
+
+// Longest field pattern a config may define
+export const MAX_PATTERN_LENGTH = 200;
+
+// Repetition that can match more than once: *, + or a {n,} / {n,m} range
+const REPEAT_AT = /^(?:[*+]|\{\d+,\d*\})/;
+
+// Whether a pattern repeats a group that itself contains a repetition, like (a+)+
+// or (\w+\s?)*. Such patterns can take exponential time on input that almost matches.
+export const hasNestedRepetition = (pattern: string) => {
+  // For each open group, whether it contains a repetition so far
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeatsInside = groups.pop() ?? false;
+      if (repeatsInside && REPEAT_AT.test(pattern.slice(i + 1))) return true;
+      if (repeatsInside && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (groups.length > 0 && REPEAT_AT.test(pattern.slice(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+};
+
+export const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Validate an array prop whose entries must each define a string key (e.g. form field ids)
+const validateEntries = (
+  entries: unknown,
+  key: string,
+  path: string,
+  errors: ValidationError[]
+) => {
+  if (!Array.isArray(entries)) {
+    errors.push({ path, message: 'Must be an array' });
+    return;
+  }
+
+  entries.forEach((entry, index) => {
+    if (!isPlainObject(entry) || typeof entry[key] !== 'string' || entry[key] === '') {
+      errors.push({ path: `${path}[${index}].${key}`, message: `"${key}" is required` });
+    }
+  });
+};
+
+// Validate an api block: either { method, url } or { method, source, path } for a
+// named data source, which must exist and allow the method and path
+const validateApi = (
+  api: unknown,
+  path: string,
+  errors: ValidationError[],
+  defaultMethod: string
+) => {
+  if (!isPlainObject(api)) {
+    errors.push({ path, message: 'API must be an object' });
+    return;
+  }
+  if (api.method !== undefined && !['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(api.method)) {
+    errors.push({ path: `${path}.method`, message: `Unsupported HTTP method "${api.method}"` });
+  }
+
+  if (api.source === undefined) {
+    if (typeof api.url !== 'string' || api.url === '') {
+      errors.push({ path: `${path}.url`, message: 'API url is required' });
+    }
+    return;
+  }
+
+  if (api.url !== undefined) {
+    errors.push({ path: `${path}.url`, message: 'Use either "url" or "source", not both' });
+  }
+  if (typeof api.path !== 'string' || !api.path.startsWith('/')) {
+    errors.push({ path: `${path}.path`, message: 'Data source path must start with "/"' });
+  }
+
+  const source = typeof api.source === 'string' ? getDataSource(api.source) : undefined;
+  if (!source) {
+    errors.push({ path: `${path}.source`, message: `Unknown data source "${api.source}"` });
+    return;
+  }
+
+  const method = api.method || defaultMethod;
+  if (!source.methods.includes(method)) {
+    errors.push({ path: `${path}.method`, message: `Data source "${source.name}" does not allow ${method}` });
+  }
+  if (typeof api.path === 'string' && !isPathAllowed(source, api.path.split('?')[0])) {
+    errors.push({ path: `${path}.path`, message: `Path is not allowed by data source "${source.name}"` });
+  }
+};
+
+// Roots a {{ }} template expression can read from (resolved on the client)
+export const TEMPLATE_ROOTS = ['user', 'route', 'query', 'form', 'data'];
+
+// A template term: string or number literal, or a dotted path such as data.users[0].email
+const TEMPLATE_TERM = /^\s*(?:"[^"]*"|'[^']*'|-?\d+(?:\.\d+)?|([A-Za-z_$][\w$]*)(?:\.[\w$-]+|\[\d+\])*)\s*$/;
+
+// Check every {{ }} expression in the string values of a props object.
+// Expressions are paths with optional "||" fallbacks; anything else is rejected.
+// "$t:" translation references must name a well-formed key.
+export const validateTemplates = (value: unknown, path: string, errors: ValidationError[]) => {
+  if (typeof value === 'string') {
+    validateTranslationReference(value, path, errors);
+    for (const match of value.matchAll(/\{\{([^}]*)\}\}/g)) {
+      for (const term of match[1].split('||')) {
+        const termMatch = term.match(TEMPLATE_TERM);
+        if (!termMatch) {
+          errors.push({ path, message: `Invalid template expression "${match[0]}"` });
+        } else if (termMatch[1] && !TEMPLATE_ROOTS.includes(termMatch[1])) {
+          errors.push({
+            path,
+            message: `Unknown template value "${termMatch[1]}". Expected one of: ${TEMPLATE_ROOTS.join(', ')}`
+          });
+        }
+      }
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => validateTemplates(item, `${path}[${index}]`, errors));
+  } else if (isPlainObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      validateTemplates(item, `${path}.${key}`, errors);
+    }
+  }
+};
+
+// Reference from one component to another by id (e.g. a button refreshing a table)
+interface ComponentReference {
+  path: string;
+  id: string;
+  expectedType?: ComponentType;
+}
+
+// Operators that compare against a list, and those that take no value
+const LIST_OPERATORS = ['in', 'notIn'];
+const UNARY_OPERATORS = ['exists', 'notExists'];
+
+// Validate a visibleWhen/enabledWhen condition
+const validateCondition = (
+  condition: unknown,
+  path: string,
+  errors: ValidationError[],
+  references: ComponentReference[]
+) => {
+  if (!isPlainObject(condition)) {
+    errors.push({ path, message: 'Condition must be an object' });
+    return;
+  }
+
+  // Combinators
+  for (const combinator of ['all', 'any']) {
+    if (condition[combinator] !== undefined) {
+      if (!Array.isArray(condition[combinator]) || condition[combinator].length === 0) {
+        errors.push({ path: `${path}.${combinator}`, message: `"${combinator}" must be a non-empty array of conditions` });
+      } else {
+        condition[combinator].forEach((child: unknown, index: number) =>
+          validateCondition(child, `${path}.${combinator}[${index}]`, errors, references)
+        );
+      }
+      return;
+    }
+  }
+
+  if (condition.not !== undefined) {
+    validateCondition(condition.not, `${path}.not`, errors, references);
+    return;
+  }
+
+  // Comparison
+  if (!CONDITION_SOURCES.includes(condition.source)) {
+    errors.push({
+      path: `${path}.source`,
+      message: `Condition source must be one of: ${CONDITION_SOURCES.join(', ')}`
+    });
+  }
+
+  if (typeof condition.path !== 'string' || condition.path === '') {
+    errors.push({ path: `${path}.path`, message: 'Condition path is required' });
+  } else if (condition.source === 'form' || condition.source === 'data') {
+    // Form and data paths start with the id of the component that holds the value
+    const [componentId, ...rest] = condition.path.split('.');
+    if (condition.source === 'form' && rest.length === 0) {
+      errors.push({ path: `${path}.path`, message: 'Form condition path must be "<formId>.<fieldId>"' });
+    }
+    references.push({
+      path: `${path}.path`,
+      id: componentId,
+      expectedType: condition.source === 'form' ? 'form' : undefined
+    });
+  }
+
+  if (!CONDITION_OPERATORS.includes(condition.op)) {
+    errors.push({
+      path: `${path}.op`,
+      message: `Condition operator must be one of: ${CONDITION_OPERATORS.join(', ')}`
+    });
+  } else if (LIST_OPERATORS.includes(condition.op) && !Array.isArray(condition.value)) {
+    errors.push({ path: `${path}.value`, message: `"${condition.op}" requires an array value` });
+  } else if (!UNARY_OPERATORS.includes(condition.op) && condition.value === undefined) {
+    errors.push({ path: `${path}.value`, message: `"${condition.op}" requires a value` });
+  } else if (condition.op === 'matches') {
+    try {
+      new RegExp(condition.value);
+    } catch (error) {
+      errors.push({ path: `${path}.value`, message: 'Pattern is not a valid regular expression' });
+    }
+  }
+};
+
+// Validate a button action, recursing into sequences and success/failure branches
+const validateAction = (
+  action: unknown,
+  path: string,
+  errors: ValidationError[],
+  references: ComponentReference[]
+) => {
+  if (!isPlainObject(action)) {
+    errors.push({ path, message: 'Action must be an object' });
+    return;
+  }
+
+  if (action.confirm !== undefined) {
+    const message = typeof action.confirm === 'string' ? action.confirm : action.confirm?.message;
+    if (typeof message !== 'string' || message === '') {
+      errors.push({ path: `${path}.confirm`, message: 'Confirmation must be a message or { message }' });
+    }
+  }
+
+  if (action.api !== undefined) {
+    validateApi(action.api, `${path}.api`, errors, 'POST');
+  }
+
+  if (action.navigate !== undefined) {
+    const navigate = action.navigate;
+    if (!isPlainObject(navigate) || (typeof navigate.pageId !== 'string' && typeof navigate.url !== 'string')) {
+      errors.push({ path: `${path}.navigate`, message: 'Navigation requires a "pageId" or "url"' });
+    } else if (typeof navigate.url === 'string' && !isSafeUrl(navigate.url.split('{{')[0])) {
+      // Templated URLs are checked again once filled in, where they are used
+      errors.push({ path: `${path}.navigate.url`, message: 'Navigation URL must be relative or use http(s)' });
+    }
+  }
+
+  if (action.refresh !== undefined) {
+    const targets = Array.isArray(action.refresh) ? action.refresh : [action.refresh];
+    targets.forEach((target: unknown, index: number) => {
+      const targetPath = Array.isArray(action.refresh) ? `${path}.refresh[${index}]` : `${path}.refresh`;
+      if (typeof target !== 'string') {
+        errors.push({ path: targetPath, message: 'Refresh target must be a component id' });
+      } else {
+        references.push({ path: targetPath, id: target, expectedType: 'table' });
+      }
+    });
+  }
+
+  if (action.sequence !== undefined) {
+    if (!Array.isArray(action.sequence)) {
+      errors.push({ path: `${path}.sequence`, message: 'Sequence must be an array of actions' });
+    } else {
+      action.sequence.forEach((step: unknown, index: number) =>
+        validateAction(step, `${path}.sequence[${index}]`, errors, references)
+      );
+    }
+  }
+
+  for (const branch of ['onSuccess', 'onFailure']) {
+    if (action[branch] !== undefined) {
+      validateAction(action[branch], `${path}.${branch}`, errors, references);
+    }
+  }
+};
+
+// Validate form field definitions and the payload mapping that refers to them
+const validateFormFields = (
+  props: Record<string, any>,
+  path: string,
+  errors: ValidationError[],
+  references: ComponentReference[]
+) => {
+  validateEntries(props.fields, 'id', `${path}.fields`, errors);
+  if (!Array.isArray(props.fields)) return;
+
+  const fieldIds = new Set<string>();
+  props.fields.forEach((field: any, index: number) => {
+    const fieldPath = `${path}.fields[${index}]`;
+    if (!isPlainObject(field)) return;
+
+    if (fieldIds.has(field.id)) {
+      errors.push({ path: `${fieldPath}.id`, message: `Duplicate field id "${field.id}"` });
+    }
+    fieldIds.add(field.id);
+
+    if (field.type !== undefined && !FIELD_TYPES.includes(field.type)) {
+      errors.push({
+        path: `${fieldPath}.type`,
+        message: `Unknown field type "${field.type}". Expected one of: ${FIELD_TYPES.join(', ')}`
+      });
+    }
+
+    if (field.type === 'select' && !Array.isArray(field.options)) {
+      errors.push({ path: `${fieldPath}.options`, message: 'select fields require "options"' });
+    }
+
+    for (const rule of ['minLength', 'maxLength', 'min', 'max']) {
+      if (field[rule] !== undefined && typeof field[rule] !== 'number') {
+        errors.push({ path: `${fieldPath}.${rule}`, message: `"${rule}" must be a number` });
+      }
+    }
+
+    // Patterns run against untrusted input on the server, so slow ones are refused here
+    if (field.pattern !== undefined) {
+      if (typeof field.pattern !== 'string') {
+        errors.push({ path: `${fieldPath}.pattern`, message: 'Pattern must be a string' });
+      } else if (field.pattern.length > MAX_PATTERN_LENGTH) {
+        errors.push({ path: `${fieldPath}.pattern`, message: `Pattern must be at most ${MAX_PATTERN_LENGTH} characters` });
+      } else {
+        try {
+          // On its own, so "a)|(b" can't break out of the anchors added when matching
+          new RegExp(field.pattern);
+          if (hasNestedRepetition(field.pattern)) {
+            errors.push({
+              path: `${fieldPath}.pattern`,
+              message: 'Pattern repeats a group that contains a repetition (like (a+)+), which can be very slow'
+            });
+          }
+        } catch (error) {
+          errors.push({ path: `${fieldPath}.pattern`, message: 'Pattern is not a valid regular expression' });
+        }
+      }
+    }
+
+    if (field.visibleWhen !== undefined) {
+      validateCondition(field.visibleWhen, `${fieldPath}.visibleWhen`, errors, references);
+    }
+  });
+
+  // Every mapped payload key must point at a field of this form
+  const payloadMapping = props.submit?.api?.payloadMapping;
+  if (payloadMapping !== undefined) {
+    if (!isPlainObject(payloadMapping)) {
+      errors.push({ path: `${path}.submit.api.payloadMapping`, message: 'Payload mapping must be an object' });
+    } else {
+      for (const [payloadKey, fieldId] of Object.entries(payloadMapping)) {
+        if (typeof fieldId !== 'string' || !fieldIds.has(fieldId)) {
+          errors.push({
+            path: `${path}.submit.api.payloadMapping.${payloadKey}`,
+            message: `Payload mapping refers to unknown field "${fieldId}"`
+          });
+        }
+      }
+    }
+  }
+};
+
+// Type-specific prop checks, run once the required props are present
+type PropValidator = (
+  props: Record<string, any>,
+  path: string,
+  errors: ValidationError[],
+  references: ComponentReference[]
+) => void;
+
+const PROP_VALIDATORS: Partial<Record<ComponentType, PropValidator>> = {
+  form: (props, path, errors, references) => {
+    validateFormFields(props, path, errors, references);
+    if (!isPlainObject(props.submit)) {
+      errors.push({ path: `${path}.submit`, message: 'Submit must be an object' });
+    } else if (props.submit.store !== undefined) {
+      // Built-in submission storage instead of an API
+      if (props.submit.store !== true) {
+        errors.push({ path: `${path}.submit.store`, message: '"store" must be true when set' });
+      }
+      if (props.submit.api !== undefined) {
+        errors.push({ path: `${path}.submit.api`, message: 'Use either "api" or "store", not both' });
+      }
+    } else {
+      validateApi(props.submit.api, `${path}.submit.api`, errors, 'POST');
+    }
+  },
+  table: (props, path, errors) => {
+    validateEntries(props.columns, 'field', `${path}.columns`, errors);
+    if (Array.isArray(props.columns)) {
+      props.columns.forEach((column: any, index: number) => {
+        if (isPlainObject(column) && column.format !== undefined && !COLUMN_FORMATS.includes(column.format)) {
+          errors.push({
+            path: `${path}.columns[${index}].format`,
+            message: `Unknown column format "${column.format}". Expected one of: ${COLUMN_FORMATS.join(', ')}`
+          });
+        }
+      });
+    }
+
+    validateApi(props.api, `${path}.api`, errors, 'GET');
+
+    if (props.dataPath !== undefined && typeof props.dataPath !== 'string') {
+      errors.push({ path: `${path}.dataPath`, message: 'Data path must be a string' });
+    }
+
+    if (props.pagination !== undefined) {
+      if (!isPlainObject(props.pagination) || !['client', 'server'].includes(props.pagination.mode)) {
+        errors.push({ path: `${path}.pagination.mode`, message: 'Pagination mode must be "client" or "server"' });
+      } else if (
+        props.pagination.pageSize !== undefined &&
+        (!Number.isInteger(props.pagination.pageSize) || props.pagination.pageSize < 1)
+      ) {
+        errors.push({ path: `${path}.pagination.pageSize`, message: 'Page size must be a positive integer' });
+      }
+    }
+  },
+  button: (props, path, errors, references) => {
+    if (props.onClick !== undefined) {
+      validateAction(props.onClick, `${path}.onClick`, errors, references);
+    }
+  }
+};
+
+const KIND_CHECKS: Record<string, [(value: any) => boolean, string]> = {
+  string: [(value) => typeof value === 'string', 'a string'],
+  number: [(value) => typeof value === 'number' && Number.isFinite(value), 'a number'],
+  boolean: [(value) => typeof value === 'boolean', 'true or false'],
+  array: [Array.isArray, 'an array'],
+  object: [isPlainObject, 'an object']
+};
+
+// Validate the props of a registered component type against its schema
+const validateRegisteredProps = (
+  definition: ComponentDefinition,
+  props: Record<string, any>,
+  path: string,
+  errors: ValidationError[],
+  references: ComponentReference[]
+) => {
+  const errorCount = errors.length;
+
+  for (const [name, schema] of Object.entries(definition.props)) {
+    const value = props[name];
+    const propPath = `${path}.${name}`;
+
+    if (value === undefined || value === null || value === '') {
+      if (schema.required) {
+        errors.push({ path: propPath, message: `${definition.type} component requires "${name}"` });
+      }
+      continue;
+    }
+
+    if (schema.type === 'action') {
+      validateAction(value, propPath, errors, references);
+      continue;
+    }
+    if (schema.type === 'condition') {
+      validateCondition(value, propPath, errors, references);
+      continue;
+    }
+
+    const [matches, expected] = KIND_CHECKS[schema.type];
+    if (!matches(value)) {
+      errors.push({ path: propPath, message: `"${name}" must be ${expected}` });
+      continue;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push({ path: propPath, message: `"${name}" must be one of: ${schema.enum.join(', ')}` });
+    }
+
+    // Bounds apply to numbers themselves and to the length of strings and arrays
+    const measured = typeof value === 'number' ? value : typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+    const unit = typeof value === 'number' ? '' : Array.isArray(value) ? ' item(s)' : ' character(s)';
+    if (measured !== undefined && schema.min !== undefined && measured < schema.min) {
+      errors.push({ path: propPath, message: `"${name}" must be at least ${schema.min}${unit}` });
+    }
+    if (measured !== undefined && schema.max !== undefined && measured > schema.max) {
+      errors.push({ path: propPath, message: `"${name}" must be at most ${schema.max}${unit}` });
+    }
+  }
+
+  for (const name of Object.keys(props)) {
+    if (name !== 'style' && !(name in definition.props)) {
+      errors.push({ path: `${path}.${name}`, message: `Unknown prop "${name}" for ${definition.type} component` });
+    }
+  }
+
+  if (definition.validate && errors.length === errorCount) {
+    definition.validate(props, path, errors);
+  }
+};
+
+// Validate a list of components, recursing into container children
+const validateComponents = (
+  components: unknown,
+  path: string,
+  seenIds: Map<string, { path: string; type: string }>,
+  errors: ValidationError[],
+  references: ComponentReference[]
+) => {
+  if (!Array.isArray(components)) {
+    errors.push({ path, message: 'Must be an array of components' });
+    return;
+  }
+
+  components.forEach((component, index) => {
+    const componentPath = `${path}[${index}]`;
+
+    if (!isPlainObject(component)) {
+      errors.push({ path: componentPath, message: 'Component must be an object' });
+      return;
+    }
+
+    // Component ID must be present and unique across the whole tree
+    if (typeof component.id !== 'string' || component.id.trim() === '') {
+      errors.push({ path: `${componentPath}.id`, message: 'Component id is required' });
+    } else if (seenIds.has(component.id)) {
+      errors.push({
+        path: `${componentPath}.id`,
+        message: `Duplicate component id "${component.id}" (first used at ${seenIds.get(component.id)?.path})`
+      });
+    } else {
+      seenIds.set(component.id, { path: `${componentPath}.id`, type: component.type });
+    }
+
+    // Component type must be built in or registered
+    const registered = getComponentDefinition(component.type);
+    const typeIsKnown = COMPONENT_TYPES.includes(component.type) || registered !== undefined;
+    if (!typeIsKnown) {
+      const knownTypes = [...COMPONENT_TYPES, ...listComponentDefinitions().map((definition) => definition.type)];
+      errors.push({
+        path: `${componentPath}.type`,
+        message: `Unknown component type "${component.type}". Expected one of: ${knownTypes.join(', ')}`
+      });
+    }
+
+    // Props must be an object when present
+    if (component.props !== undefined && !isPlainObject(component.props)) {
+      errors.push({ path: `${componentPath}.props`, message: 'Props must be an object' });
+    } else if (registered) {
+      const props = component.props || {};
+      validateRegisteredProps(registered, props, `${componentPath}.props`, errors, references);
+      validateTemplates(props, `${componentPath}.props`, errors);
+
+      if (props.style !== undefined) {
+        validateStyle(props.style, `${componentPath}.props.style`, errors);
+      }
+    } else if (typeIsKnown) {
+      const props = component.props || {};
+      const missing = (REQUIRED_PROPS[component.type as ComponentType] || []).filter(
+        (prop) => props[prop] === undefined || props[prop] === null || props[prop] === ''
+      );
+      for (const prop of missing) {
+        errors.push({
+          path: `${componentPath}.props.${prop}`,
+          message: `${component.type} component requires "${prop}"`
+        });
+      }
+
+      const validateProps = PROP_VALIDATORS[component.type as ComponentType];
+      if (validateProps && missing.length === 0) {
+        validateProps(props, `${componentPath}.props`, errors, references);
+      }
+
+      validateTemplates(props, `${componentPath}.props`, errors);
+
+      // Style values are theme tokens, resolved when the page is rendered
+      if (props.style !== undefined) {
+        validateStyle(props.style, `${componentPath}.props.style`, errors);
+      }
+    }
+
+    // Fragment instances name a fragment and may override props of its components.
+    // The fragment itself is checked when the page is saved (see fragmentService).
+    if (component.type === 'fragment') {
+      if (typeof component.ref !== 'string' || !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(component.ref)) {
+        errors.push({ path: `${componentPath}.ref`, message: 'Fragment ref must be a fragment ID' });
+      }
+      if (component.overrides !== undefined) {
+        if (!isPlainObject(component.overrides)) {
+          errors.push({ path: `${componentPath}.overrides`, message: 'Overrides must be an object keyed by component ID' });
+        } else {
+          for (const [targetId, props] of Object.entries(component.overrides)) {
+            if (!isPlainObject(props)) {
+              errors.push({ path: `${componentPath}.overrides.${targetId}`, message: 'Overrides must be an object of props' });
+            } else {
+              validateTemplates(props, `${componentPath}.overrides.${targetId}`, errors);
+              if (props.style !== undefined) {
+                validateStyle(props.style, `${componentPath}.overrides.${targetId}.style`, errors);
+              }
+            }
+          }
+        }
+      }
+    } else if (component.ref !== undefined || component.overrides !== undefined) {
+      errors.push({ path: componentPath, message: '"ref" and "overrides" are only allowed on fragment components' });
+    }
+
+    // Conditional visibility and enablement
+    for (const rule of ['visibleWhen', 'enabledWhen']) {
+      if (component[rule] !== undefined) {
+        validateCondition(component[rule], `${componentPath}.${rule}`, errors, references);
+      }
+    }
+
+    // Only containers may have children
+    if (component.children !== undefined) {
+      if (component.type !== 'container') {
+        errors.push({
+          path: `${componentPath}.children`,
+          message: 'Only container components can have children'
+        });
+      } else {
+        validateComponents(component.children, `${componentPath}.children`, seenIds, errors, references);
+      }
+    }
+  });
+};
+
+// Validate one component tree. IDs must be unique within the tree, and references
+// (refresh targets, form conditions, ...) must point at components in the same tree.
+// In a tree with fragment instances, unknown references may name components inside
+// a fragment; those are checked once the fragments are expanded (see fragmentService).
+export const validateTree = (components: unknown, path: string, errors: ValidationError[]) => {
+  const seenIds = new Map<string, { path: string; type: string }>();
+  const references: ComponentReference[] = [];
+  validateComponents(components, path, seenIds, errors, references);
+  const hasFragments = [...seenIds.values()].some((seen) => seen.type === 'fragment');
+
+  // Cross-component references can only be checked once the whole tree is known
+  for (const reference of references) {
+    const target = seenIds.get(reference.id);
+    if (!target) {
+      if (hasFragments) continue;
+      errors.push({ path: reference.path, message: `Unknown component "${reference.id}"` });
+    } else if (reference.expectedType && target.type !== reference.expectedType) {
+      errors.push({
+        path: reference.path,
+        message: `Component "${reference.id}" is a ${target.type}, expected a ${reference.expectedType}`
+      });
+    }
+  }
+};
+
+// A/B variants: at least two, with unique slug IDs and positive weights.
+// Each variant's own components are a separate tree.
+const validateVariants = (variants: unknown, errors: ValidationError[]) => {
+  if (!Array.isArray(variants) || variants.length < 2) {
+    errors.push({ path: 'variants', message: 'Variants must be an array of at least two variants' });
+    return;
+  }
+
+  const variantIds = new Set<string>();
+  variants.forEach((variant, index) => {
+    const variantPath = `variants[${index}]`;
+
+    if (!isPlainObject(variant)) {
+      errors.push({ path: variantPath, message: 'Variant must be an object' });
+      return;
+    }
+
+    if (typeof variant.id !== 'string' || !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(variant.id)) {
+      errors.push({
+        path: `${variantPath}.id`,
+        message: 'Variant ID must contain only lowercase letters, numbers and single hyphens'
+      });
+    } else if (variantIds.has(variant.id)) {
+      errors.push({ path: `${variantPath}.id`, message: `Duplicate variant id "${variant.id}"` });
+    } else {
+      variantIds.add(variant.id);
+    }
+
+    if (typeof variant.weight !== 'number' || !Number.isFinite(variant.weight) || variant.weight <= 0) {
+      errors.push({ path: `${variantPath}.weight`, message: 'Weight must be a positive number' });
+    }
+
+    if (variant.components !== undefined) {
+      validateTree(variant.components, `${variantPath}.components`, errors);
+    }
+  });
+};
+
+// Page config validation
+export const validatePageConfig = (page: any): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!isPlainObject(page)) {
+    return [{ path: '', message: 'Page config must be an object' }];
+  }
+
+  if (typeof page.pageId !== 'string' || !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(page.pageId)) {
+    errors.push({
+      path: 'pageId',
+      message: 'Page ID must contain only lowercase letters, numbers and single hyphens'
+    });
+  } else if (RESERVED_PAGE_IDS.includes(page.pageId)) {
+    errors.push({ path: 'pageId', message: `Page ID "${page.pageId}" is reserved` });
+  }
+
+  if (typeof page.title !== 'string' || page.title.trim() === '') {
+    errors.push({ path: 'title', message: 'Title is required' });
+  } else {
+    validateTranslationReference(page.title, 'title', errors);
+  }
+
+  if (page.access !== undefined) {
+    if (!isPlainObject(page.access) || !ACCESS_LEVELS.includes(page.access.level)) {
+      errors.push({
+        path: 'access.level',
+        message: `Access level must be one of: ${ACCESS_LEVELS.join(', ')}`
+      });
+    } else if (page.access.level === 'roles') {
+      const roles = page.access.roles;
+      if (!Array.isArray(roles) || roles.length === 0) {
+        errors.push({ path: 'access.roles', message: 'Role-restricted pages require a non-empty "roles" array' });
+      } else {
+        roles.forEach((role: unknown, index: number) => {
+          if (!ROLES.includes(role as typeof ROLES[number])) {
+            errors.push({
+              path: `access.roles[${index}]`,
+              message: `Unknown role "${role}". Expected one of: ${ROLES.join(', ')}`
+            });
+          }
+        });
+      }
+    } else if (page.access.roles !== undefined) {
+      errors.push({ path: 'access.roles', message: 'Roles are only allowed when level is "roles"' });
+    }
+  }
+
+  if (page.theme !== undefined && (typeof page.theme !== 'string' || !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(page.theme))) {
+    errors.push({ path: 'theme', message: 'Theme must be a theme ID' });
+  }
+
+  validateTree(page.components, 'components', errors);
+
+  if (page.variants !== undefined) {
+    validateVariants(page.variants, errors);
+  }
+
+  return errors;
+};
@@ -0,0 +1,208 @@
+import { Prisma } from '@prisma/client';
+import { ValidationError, isPlainObject } from './PageConfig.js';
+
+// Token names per group. Component `style` props may only use these names; a theme
+// decides what each one looks like.
+export const THEME_TOKENS = {
+  colors: ['primary', 'primaryText', 'text', 'muted', 'background', 'surface', 'border', 'success', 'danger'],
+  fonts: ['body', 'heading'],
+  fontSizes: ['sm', 'md', 'lg', 'xl', '2xl'],
+  fontWeights: ['normal', 'medium', 'semibold', 'bold'],
+  spacing: ['none', 'xs', 'sm', 'md', 'lg', 'xl'],
+  radii: ['none', 'sm', 'md', 'lg', 'full']
+} as const;
+
+export type ThemeGroup = keyof typeof THEME_TOKENS;
+
+// CSS value of a token: a string such as "#2563eb" or "1.125rem", or a number of pixels
+export type TokenValue = string | number;
+
+// Every token with a value, as served with a page
+export type ThemeTokens = { [G in ThemeGroup]: Record<typeof THEME_TOKENS[G][number], TokenValue> };
+
+// The tokens a stored theme sets; the rest come from the layers below it
+export type PartialThemeTokens = { [G in ThemeGroup]?: Partial<ThemeTokens[G]> };
+
+const FONT_STACK = 'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica Neue, Arial, sans-serif';
+
+// Built-in values, matching the look pages had before themes (mirrored in
+// client/src/types/theme.ts)
+export const BASE_THEME: ThemeTokens = {
+  colors: {
+    primary: '#2563eb',
+    primaryText: '#ffffff',
+    text: '#111827',
+    muted: '#6b7280',
+    background: '#f9fafb',
+    surface: '#ffffff',
+    border: '#e5e7eb',
+    success: '#16a34a',
+    danger: '#dc2626'
+  },
+  fonts: { body: FONT_STACK, heading: FONT_STACK },
+  fontSizes: { sm: '0.875rem', md: '1rem', lg: '1.125rem', xl: '1.25rem', '2xl': '1.5rem' },
+  fontWeights: { normal: 400, medium: 500, semibold: 600, bold: 700 },
+  spacing: { none: 0, xs: 4, sm: 8, md: 16, lg: 32, xl: 64 },
+  radii: { none: 0, sm: 2, md: 6, lg: 8, full: 9999 }
+};
+
+// Style prop keys and the token group each one reads from
+export const STYLE_PROPERTIES: Record<string, ThemeGroup> = {
+  color: 'colors',
+  background: 'colors',
+  borderColor: 'colors',
+  fontFamily: 'fonts',
+  fontSize: 'fontSizes',
+  fontWeight: 'fontWeights',
+  padding: 'spacing',
+  radius: 'radii'
+};
+
+// Text alignment is a plain keyword, not a theme token
+export const TEXT_ALIGNMENTS = ['left', 'center', 'right'];
+
+// A named set of token values. The default theme applies to every page without
+// its own `theme`, and under the tokens a page's theme leaves unset.
+export interface Theme {
+  themeId: string;
+  name: string;
+  tokens: PartialThemeTokens;
+  isDefault: boolean;
+}
+
+// Shape of the themes row as returned by Prisma
+export interface ThemeRecord {
+  id: string;
+  theme_id: string;
+  name: string;
+  tokens: any;
+  is_default: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Build the Theme returned to clients from a stored row
+export const toTheme = (record: ThemeRecord): Theme => ({
+  themeId: record.theme_id,
+  name: record.name,
+  tokens: isPlainObject(record.tokens) ? record.tokens : {},
+  isDefault: record.is_default
+});
+
+// Split an incoming Theme into the columns stored in themes
+export const toThemeData = (theme: Theme) => ({
+  theme_id: theme.themeId,
+  name: theme.name,
+  tokens: theme.tokens as unknown as Prisma.InputJsonObject,
+  is_default: theme.isDefault === true
+});
+
+// Layer partial token sets over the built-in values, later layers winning
+export const mergeTokens = (...layers: (PartialThemeTokens | undefined)[]): ThemeTokens => {
+  const merged = {} as Record<ThemeGroup, Record<string, TokenValue>>;
+  for (const group of Object.keys(THEME_TOKENS) as ThemeGroup[]) {
+    merged[group] = Object.assign({}, BASE_THEME[group], ...layers.map((layer) => layer?.[group]));
+  }
+  return merged as ThemeTokens;
+};
+
+// Check a component's `style` prop: known keys, and token names from the matching group
+export const validateStyle = (style: unknown, path: string, errors: ValidationError[]) => {
+  if (!isPlainObject(style)) {
+    errors.push({ path, message: 'Style must be an object' });
+    return;
+  }
+
+  for (const [key, value] of Object.entries(style)) {
+    if (value === undefined) continue;
+
+    if (key === 'align') {
+      if (!TEXT_ALIGNMENTS.includes(value)) {
+        errors.push({ path: `${path}.align`, message: `Alignment must be one of: ${TEXT_ALIGNMENTS.join(', ')}` });
+      }
+      continue;
+    }
+
+    const group = STYLE_PROPERTIES[key];
+    if (!group) {
+      errors.push({
+        path: `${path}.${key}`,
+        message: `Unknown style property "${key}". Expected one of: ${[...Object.keys(STYLE_PROPERTIES), 'align'].join(', ')}`
+      });
+    } else if (!(THEME_TOKENS[group] as readonly string[]).includes(value)) {
+      errors.push({
+        path: `${path}.${key}`,
+        message: `Unknown ${group} token "${value}". Expected one of: ${THEME_TOKENS[group].join(', ')}`
+      });
+    }
+  }
+};
+
+// Token values are written into CSS (style attributes, and <style> blocks on static
+// pages), so strings can't contain anything that ends a value, rule or element:
+// no < > { } ; quotes, backslashes or comments. Font names with spaces don't need quotes.
+const SAFE_CSS_VALUE = /^[^<>{};"'\\]+$/;
+
+export const isSafeCssValue = (value: unknown): value is TokenValue =>
+  (typeof value === 'number' && Number.isFinite(value)) ||
+  (typeof value === 'string' && value.trim() !== '' && SAFE_CSS_VALUE.test(value) && !value.includes('/*'));
+
+// Theme validation: every group and token must be known, and values must be
+// numbers or strings that are safe to write into CSS
+export const validateTheme = (theme: any): ValidationError[] => {
+  if (!isPlainObject(theme)) {
+    return [{ path: '', message: 'Theme must be an object' }];
+  }
+
+  const errors: ValidationError[] = [];
+
+  if (typeof theme.themeId !== 'string' || !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(theme.themeId)) {
+    errors.push({
+      path: 'themeId',
+      message: 'Theme ID must contain only lowercase letters, numbers and single hyphens'
+    });
+  }
+
+  if (typeof theme.name !== 'string' || theme.name.trim() === '') {
+    errors.push({ path: 'name', message: 'Name is required' });
+  }
+
+  if (theme.isDefault !== undefined && typeof theme.isDefault !== 'boolean') {
+    errors.push({ path: 'isDefault', message: '"isDefault" must be a boolean' });
+  }
+
+  if (!isPlainObject(theme.tokens)) {
+    errors.push({ path: 'tokens', message: 'Tokens must be an object of token groups' });
+    return errors;
+  }
+
+  for (const [group, values] of Object.entries(theme.tokens)) {
+    const groupPath = `tokens.${group}`;
+    const names = THEME_TOKENS[group as ThemeGroup] as readonly string[] | undefined;
+
+    if (!names) {
+      errors.push({
+        path: groupPath,
+        message: `Unknown token group "${group}". Expected one of: ${Object.keys(THEME_TOKENS).join(', ')}`
+      });
+    } else if (!isPlainObject(values)) {
+      errors.push({ path: groupPath, message: 'Token group must be an object' });
+    } else {
+      for (const [name, value] of Object.entries(values)) {
+        if (!names.includes(name)) {
+          errors.push({
+            path: `${groupPath}.${name}`,
+            message: `Unknown ${group} token "${name}". Expected one of: ${names.join(', ')}`
+          });
+        } else if (!isSafeCssValue(value)) {
+          errors.push({
+            path: `${groupPath}.${name}`,
+            message: 'Token value must be a number or a non-empty string without < > { } ; quotes, backslashes or comments'
+          });
+        }
+      }
+    }
+  }
+
+  return errors;
+};
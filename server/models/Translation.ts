@@ -0,0 +1,94 @@
+import { Prisma } from '@prisma/client';
+import { ValidationError, isPlainObject, validateTemplates } from './PageConfig.js';
+
+// A page config string of the form "$t:<key>" is looked up in the string table of
+// the locale the page is served in, e.g. "$t:signup.submit"
+export const TRANSLATION_PREFIX = '$t:';
+
+// Translation keys are dot-separated segments of letters, numbers, "_" and "-"
+const TRANSLATION_KEY = /^[A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)*$/;
+
+// Language tags such as "en", "de-CH" or "zh-Hant-TW" (matched case-insensitively
+// against Accept-Language, stored as given)
+const LOCALE_TAG = /^[a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/;
+
+export const isLocale = (value: unknown): value is string =>
+  typeof value === 'string' && value.length <= 35 && LOCALE_TAG.test(value);
+
+// Locale served when no requested locale has a string table
+export const getDefaultLocale = () => process.env.DEFAULT_LOCALE || 'en';
+
+// Key of a translation reference, or null for any other value
+export const translationKey = (value: unknown): string | null =>
+  typeof value === 'string' && value.startsWith(TRANSLATION_PREFIX) ? value.slice(TRANSLATION_PREFIX.length) : null;
+
+// Check a "$t:" reference; other strings pass
+export const validateTranslationReference = (value: string, path: string, errors: ValidationError[]) => {
+  const key = translationKey(value);
+  if (key !== null && !TRANSLATION_KEY.test(key)) {
+    errors.push({
+      path,
+      message: `Invalid translation key "${key}". Keys are dot-separated letters, numbers, "_" and "-"`
+    });
+  }
+};
+
+// The strings of one locale, keyed by translation key
+export interface StringTable {
+  locale: string;
+  strings: Record<string, string>;
+}
+
+// Shape of the string_tables row as returned by Prisma
+export interface StringTableRecord {
+  id: string;
+  locale: string;
+  strings: any;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Build the StringTable returned to clients from a stored row
+export const toStringTable = (record: StringTableRecord): StringTable => ({
+  locale: record.locale,
+  strings: isPlainObject(record.strings) ? record.strings : {}
+});
+
+// Split an incoming StringTable into the columns stored in string_tables
+export const toStringTableData = (table: StringTable) => ({
+  locale: table.locale,
+  strings: table.strings as Prisma.InputJsonObject
+});
+
+// String table validation: a locale tag and a flat object of key → string.
+// Values may use {{ }} templates like any other page string.
+export const validateStringTable = (table: any): ValidationError[] => {
+  if (!isPlainObject(table)) {
+    return [{ path: '', message: 'String table must be an object' }];
+  }
+
+  const errors: ValidationError[] = [];
+
+  if (!isLocale(table.locale)) {
+    errors.push({ path: 'locale', message: 'Locale must be a language tag such as "en" or "de-CH"' });
+  }
+
+  if (!isPlainObject(table.strings)) {
+    errors.push({ path: 'strings', message: 'Strings must be an object of translation keys' });
+    return errors;
+  }
+
+  for (const [key, value] of Object.entries(table.strings)) {
+    const path = `strings.${key}`;
+
+    if (!TRANSLATION_KEY.test(key)) {
+      errors.push({ path, message: `Invalid translation key "${key}"` });
+    } else if (typeof value !== 'string') {
+      errors.push({ path, message: 'Translation must be a string' });
+    } else {
+      validateTemplates(value, path, errors);
+    }
+  }
+
+  return errors;
+};
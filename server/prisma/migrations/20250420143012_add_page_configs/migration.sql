@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "page_configs" (
+    "id" UUID NOT NULL,
+    "page_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "config_json" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "page_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "page_configs_page_id_key" ON "page_configs"("page_id");
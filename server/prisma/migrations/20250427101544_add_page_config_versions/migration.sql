@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "page_configs" ADD COLUMN "current_version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "page_config_versions" (
+    "id" SERIAL NOT NULL,
+    "page_config_id" UUID NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "config_json" JSONB NOT NULL,
+    "author_id" INTEGER,
+    "change_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "page_config_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "page_config_versions_page_config_id_version_key" ON "page_config_versions"("page_config_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "page_config_versions" ADD CONSTRAINT "page_config_versions_page_config_id_fkey" FOREIGN KEY ("page_config_id") REFERENCES "page_configs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "page_config_versions" ADD CONSTRAINT "page_config_versions_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing pages start at version 1
+INSERT INTO "page_config_versions" ("page_config_id", "version", "title", "config_json", "created_at")
+SELECT "id", 1, "title", "config_json", "updated_at" FROM "page_configs";
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "page_configs" ADD COLUMN "published_version" INTEGER,
+ADD COLUMN "published_at" TIMESTAMP(3),
+ADD COLUMN "scheduled_version" INTEGER,
+ADD COLUMN "scheduled_publish_at" TIMESTAMP(3),
+ADD COLUMN "scheduled_by" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "page_configs_scheduled_publish_at_idx" ON "page_configs"("scheduled_publish_at");
+
+-- Keep pages that were live before publishing existed live
+UPDATE "page_configs" SET "published_version" = "current_version", "published_at" = "updated_at";
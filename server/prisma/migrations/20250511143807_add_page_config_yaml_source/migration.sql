@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "page_configs" ADD COLUMN "yaml_source" TEXT;
+
+-- AlterTable
+ALTER TABLE "page_config_versions" ADD COLUMN "yaml_source" TEXT;
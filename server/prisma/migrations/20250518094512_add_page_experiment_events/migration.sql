@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "page_experiment_events" (
+    "id" SERIAL NOT NULL,
+    "page_id" TEXT NOT NULL,
+    "variant_id" TEXT NOT NULL,
+    "visitor_id" TEXT NOT NULL,
+    "event_type" VARCHAR(20) NOT NULL,
+    "component_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "page_experiment_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "page_experiment_events_page_id_variant_id_event_type_idx" ON "page_experiment_events"("page_id", "variant_id", "event_type");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "page_events" (
+    "id" SERIAL NOT NULL,
+    "page_id" TEXT NOT NULL,
+    "event_type" VARCHAR(30) NOT NULL,
+    "component_id" TEXT,
+    "visitor_id" TEXT NOT NULL,
+    "variant_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "page_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "page_events_page_id_created_at_idx" ON "page_events"("page_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "page_events_created_at_idx" ON "page_events"("created_at");
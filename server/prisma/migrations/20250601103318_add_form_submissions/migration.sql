@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "form_submissions" (
+    "id" SERIAL NOT NULL,
+    "page_id" TEXT NOT NULL,
+    "form_id" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'new',
+    "visitor_id" TEXT NOT NULL,
+    "variant_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "form_submissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "form_submissions_page_id_form_id_created_at_idx" ON "form_submissions"("page_id", "form_id", "created_at");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "fragments" (
+    "id" UUID NOT NULL,
+    "fragment_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "components" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fragments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fragments_fragment_id_key" ON "fragments"("fragment_id");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "themes" (
+    "id" UUID NOT NULL,
+    "theme_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tokens" JSONB NOT NULL,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "themes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "themes_theme_id_key" ON "themes"("theme_id");
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "locale" VARCHAR(35);
+
+-- CreateTable
+CREATE TABLE "string_tables" (
+    "id" UUID NOT NULL,
+    "locale" VARCHAR(35) NOT NULL,
+    "strings" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "string_tables_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "string_tables_locale_key" ON "string_tables"("locale");
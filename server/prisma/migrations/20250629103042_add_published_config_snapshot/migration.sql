@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "page_configs" ADD COLUMN "published_config_json" JSONB;
@@ -0,0 +1,193 @@
+import express from 'express';
+import prisma from '../config/prisma.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { Fragment, toFragment, toFragmentData, validateFragment } from '../models/Fragment.js';
+import { logUserAction, AUDIT_TYPES } from '../services/auditService.js';
+import { getFragmentUsage, validateFragmentRefs } from '../services/fragmentService.js';
+
+const router = express.Router();
+
+// Fragments are authored by the same roles as pages
+router.use(authenticate, authorize(['admin', 'moderator']));
+
+// Validate a fragment, then the fragments it includes
+const checkFragment = async (fragment: any) => {
+  const errors = validateFragment(fragment);
+  if (errors.length === 0) {
+    errors.push(...(await validateFragmentRefs(fragment as Fragment)));
+  }
+  return errors;
+};
+
+// List all fragments
+router.get('/', async (req, res) => {
+  try {
+    const records = await prisma.fragment.findMany({
+      orderBy: { fragment_id: 'asc' }
+    });
+
+    res.json({
+      fragments: records.map((record) => ({ ...toFragment(record), updated_at: record.updated_at }))
+    });
+  } catch (error) {
+    console.error('Error fetching fragments:', error);
+    res.status(500).json({ message: 'Error fetching fragments' });
+  }
+});
+
+// Get a fragment
+router.get('/:fragmentId', async (req, res) => {
+  try {
+    const record = await prisma.fragment.findUnique({
+      where: { fragment_id: req.params.fragmentId }
+    });
+
+    if (!record) {
+      return res.status(404).json({ message: 'Fragment not found' });
+    }
+
+    res.json({ fragment: toFragment(record), updated_at: record.updated_at });
+  } catch (error) {
+    console.error('Error fetching fragment:', error);
+    res.status(500).json({ message: 'Error fetching fragment' });
+  }
+});
+
+// Pages and fragments that include a fragment, i.e. what an edit to it affects
+router.get('/:fragmentId/usage', async (req, res) => {
+  try {
+    const usage = await getFragmentUsage(req.params.fragmentId);
+
+    res.json(usage);
+  } catch (error) {
+    console.error('Error fetching fragment usage:', error);
+    res.status(500).json({ message: 'Error fetching fragment usage' });
+  }
+});
+
+// Create a fragment
+router.post('/', async (req, res) => {
+  try {
+    const fragment = req.body;
+
+    const errors = await checkFragment(fragment);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid fragment', errors });
+    }
+
+    const existing = await prisma.fragment.findUnique({
+      where: { fragment_id: fragment.fragmentId }
+    });
+
+    if (existing) {
+      return res.status(409).json({ message: 'A fragment with this ID already exists' });
+    }
+
+    const record = await prisma.fragment.create({
+      data: toFragmentData(fragment)
+    });
+
+    // Log fragment creation
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.CREATE_FRAGMENT,
+        undefined,
+        { fragment_details: { fragment_id: record.fragment_id, title: record.title } },
+        req.clientIp
+      );
+    }
+
+    res.status(201).json({ message: 'Fragment created successfully', fragment: toFragment(record) });
+  } catch (error) {
+    console.error('Error creating fragment:', error);
+    res.status(500).json({ message: 'Error creating fragment' });
+  }
+});
+
+// Update a fragment. Drafts that include it pick up the change; published
+// pages show it once they are published again. The response lists those pages.
+router.put('/:fragmentId', async (req, res) => {
+  try {
+    const { fragmentId } = req.params;
+    const fragment = { ...req.body, fragmentId };
+
+    const errors = await checkFragment(fragment);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid fragment', errors });
+    }
+
+    const existing = await prisma.fragment.findUnique({
+      where: { fragment_id: fragmentId }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Fragment not found' });
+    }
+
+    const record = await prisma.fragment.update({
+      where: { fragment_id: fragmentId },
+      data: toFragmentData(fragment)
+    });
+
+    // Log fragment edit
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.EDIT_FRAGMENT,
+        undefined,
+        { fragment_details: { fragment_id: record.fragment_id, title: record.title } },
+        req.clientIp
+      );
+    }
+
+    const usage = await getFragmentUsage(fragmentId);
+
+    res.json({ message: 'Fragment updated successfully', fragment: toFragment(record), usage });
+  } catch (error) {
+    console.error('Error updating fragment:', error);
+    res.status(500).json({ message: 'Error updating fragment' });
+  }
+});
+
+// Delete a fragment that no page or fragment includes
+router.delete('/:fragmentId', async (req, res) => {
+  try {
+    const { fragmentId } = req.params;
+
+    const existing = await prisma.fragment.findUnique({
+      where: { fragment_id: fragmentId }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Fragment not found' });
+    }
+
+    const usage = await getFragmentUsage(fragmentId);
+    if (usage.pages.length > 0 || usage.fragments.length > 0) {
+      return res.status(409).json({ message: 'Fragment is still in use', usage });
+    }
+
+    // Log fragment deletion before actually deleting
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.DELETE_FRAGMENT,
+        undefined,
+        { fragment_details: { fragment_id: existing.fragment_id, title: existing.title } },
+        req.clientIp
+      );
+    }
+
+    await prisma.fragment.delete({
+      where: { fragment_id: fragmentId }
+    });
+
+    res.json({ message: 'Fragment deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting fragment:', error);
+    res.status(500).json({ message: 'Error deleting fragment' });
+  }
+});
+
+export default router;
@@ -0,0 +1,806 @@
+import express from 'express';
+import prisma from '../config/prisma.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { Page, ValidationError, isPlainObject, toPage, toPublishState, validatePageConfig } from '../models/PageConfig.js';
+import { logUserAction, AUDIT_TYPES } from '../services/auditService.js';
+import { parseConfigBody, toYaml } from '../utils/yamlSource.js';
+import {
+  createPageConfig,
+  updatePageConfig,
+  listPageConfigVersions,
+  getPageConfigVersion,
+  getPageAtVersion,
+  getPublishedPage,
+  rollbackPageConfig,
+  publishPageConfig,
+  schedulePublish,
+  cancelScheduledPublish,
+  unpublishPageConfig
+} from '../services/pageConfigService.js';
+import {
+  CONFLICT_STRATEGIES,
+  ConflictStrategy,
+  exportPageBundle,
+  validateBundle,
+  validateBundleReferences,
+  planImport,
+  applyImport,
+  logImportResults
+} from '../services/pageBundleService.js';
+import { diffPageConfigs } from '../services/pageDiffService.js';
+import { getExperimentResults, resetExperimentResults } from '../services/experimentService.js';
+import { findPagesWithFragmentChanges, validatePageFragments } from '../services/fragmentService.js';
+import { validatePageTheme } from '../services/themeService.js';
+import { getPageTranslationReport } from '../services/translationService.js';
+import {
+  countFindings,
+  getAllowedApiUrls,
+  lintPage,
+  toLintFindings,
+  validateLintOptions,
+  VALIDATION_RULE
+} from '../services/pageLintService.js';
+
+const router = express.Router();
+
+const MAX_CHANGE_NOTE_LENGTH = 500;
+
+// A change note is optional, but must be text when given
+const validateChangeNote = (changeNote: unknown): ValidationError[] =>
+  changeNote === undefined || (typeof changeNote === 'string' && changeNote.length <= MAX_CHANGE_NOTE_LENGTH)
+    ? []
+    : [{ path: 'change_note', message: `Change note must be a string of at most ${MAX_CHANGE_NOTE_LENGTH} characters` }];
+
+// Send a page config as a YAML download
+const sendYaml = (res: express.Response, filename: string, yaml: string) => {
+  res.type('application/yaml');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(yaml);
+};
+
+type DiffSide =
+  | { page: Page; pageId: string; version: number | null }
+  | { status: number; message: string; errors?: { path: string; message: string }[] };
+
+// Resolve one side of a diff: a saved version ({ pageId, version? }, defaulting to
+// the current draft) or a config that hasn't been saved ({ page })
+const resolveDiffSide = async (side: any, name: string): Promise<DiffSide> => {
+  if (isPlainObject(side) && side.page !== undefined) {
+    const errors = validatePageConfig(side.page).map((error) => ({
+      path: `${name}.page.${error.path}`,
+      message: error.message
+    }));
+    if (errors.length > 0) {
+      return { status: 400, message: 'Invalid page config', errors };
+    }
+    return { page: side.page, pageId: side.page.pageId, version: null };
+  }
+
+  if (
+    !isPlainObject(side) ||
+    typeof side.pageId !== 'string' ||
+    (side.version !== undefined && !Number.isInteger(side.version))
+  ) {
+    return { status: 400, message: `"${name}" must be { pageId, version } or { page }` };
+  }
+
+  const saved = await getPageAtVersion(side.pageId, side.version);
+  if (!saved) {
+    return { status: 404, message: `Version not found for "${name}"` };
+  }
+  return { page: saved.page, pageId: side.pageId, version: saved.version };
+};
+
+// All authoring routes are limited to admins and moderators
+router.use(authenticate, authorize(['admin', 'moderator']));
+
+// List all page configs with their publishing state. Published pages keep the
+// fragments they include as of publishing, so edits to those are reported too.
+router.get('/', async (req, res) => {
+  try {
+    const pageConfigs = await prisma.pageConfig.findMany({
+      orderBy: { updated_at: 'desc' }
+    });
+    const fragmentChanges = await findPagesWithFragmentChanges();
+
+    res.json({
+      pages: pageConfigs.map((pageConfig) => ({
+        pageId: pageConfig.page_id,
+        title: pageConfig.title,
+        updated_at: pageConfig.updated_at,
+        ...toPublishState(pageConfig),
+        has_fragment_changes: fragmentChanges.has(pageConfig.page_id)
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching page configs:', error);
+    res.status(500).json({ message: 'Error fetching page configs' });
+  }
+});
+
+// Export page configs as a bundle file (?pageIds=a,b; all pages when omitted)
+router.get('/export', async (req, res) => {
+  try {
+    const pageIds = typeof req.query.pageIds === 'string' && req.query.pageIds !== ''
+      ? req.query.pageIds.split(',').map((pageId) => pageId.trim())
+      : undefined;
+
+    const { bundle, missing } = await exportPageBundle(pageIds);
+
+    if (missing.length > 0) {
+      return res.status(404).json({ message: `Pages not found: ${missing.join(', ')}` });
+    }
+
+    const date = bundle.exported_at.slice(0, 10);
+    res.setHeader('Content-Disposition', `attachment; filename="pages-${date}.json"`);
+    res.json(bundle);
+  } catch (error) {
+    console.error('Error exporting page configs:', error);
+    res.status(500).json({ message: 'Error exporting page configs' });
+  }
+});
+
+// Import a bundle. With dry_run, only reports what would happen.
+router.post('/import', async (req, res) => {
+  try {
+    // A YAML body is the bundle itself, with options in the query string
+    const body = parseConfigBody(req);
+    if (body.errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid YAML', errors: body.errors });
+    }
+
+    const { bundle, strategy = 'skip', dry_run = false, publish = false } = body.yamlSource === null
+      ? req.body || {}
+      : {
+          bundle: body.value,
+          strategy: req.query.strategy,
+          dry_run: req.query.dry_run === 'true',
+          publish: req.query.publish === 'true'
+        };
+
+    if (!CONFLICT_STRATEGIES.includes(strategy)) {
+      return res.status(400).json({
+        message: `Invalid strategy. Expected one of: ${CONFLICT_STRATEGIES.join(', ')}`
+      });
+    }
+
+    const errors = validateBundle(bundle);
+    if (errors.length === 0) {
+      errors.push(...(await validateBundleReferences(bundle)));
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid page bundle', errors: body.locate(errors) });
+    }
+
+    const plan = await planImport(bundle, strategy as ConflictStrategy);
+
+    if (dry_run) {
+      return res.json({ dry_run: true, results: plan });
+    }
+
+    const results = await applyImport(bundle, plan, req.user?.id, publish === true);
+
+    // Log each imported page
+    if (req.user) {
+      await logImportResults(req.user.id, bundle, results, req.clientIp);
+    }
+
+    res.json({ dry_run: false, results });
+  } catch (error) {
+    console.error('Error importing page configs:', error);
+    res.status(500).json({ message: 'Error importing page configs' });
+  }
+});
+
+// Diff any two configs: saved versions of the same or different pages, or a saved
+// version and a candidate that hasn't been saved yet
+router.post('/diff', async (req, res) => {
+  try {
+    const from = await resolveDiffSide(req.body?.from, 'from');
+    if ('status' in from) {
+      return res.status(from.status).json({ message: from.message, errors: from.errors });
+    }
+
+    const to = await resolveDiffSide(req.body?.to, 'to');
+    if ('status' in to) {
+      return res.status(to.status).json({ message: to.message, errors: to.errors });
+    }
+
+    res.json({
+      from: { pageId: from.pageId, version: from.version },
+      to: { pageId: to.pageId, version: to.version },
+      diff: diffPageConfigs(from.page, to.page)
+    });
+  } catch (error) {
+    console.error('Error diffing page configs:', error);
+    res.status(500).json({ message: 'Error diffing page configs' });
+  }
+});
+
+// Lint a config without saving it: validation errors plus warnings about likely
+// mistakes. Body: { page, rules?, samples? }
+router.post('/lint', async (req, res) => {
+  try {
+    const { page, rules, samples } = req.body || {};
+
+    const errors = validateLintOptions({ rules, samples });
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid lint options', errors });
+    }
+
+    const findings = lintPage(page, { rules, samples, allowedUrls: getAllowedApiUrls() });
+
+    // Fragments and themes are looked up only once the config itself is valid
+    if (!findings.some((finding) => finding.rule === VALIDATION_RULE)) {
+      findings.unshift(
+        ...toLintFindings([...(await validatePageFragments(page as Page)), ...(await validatePageTheme(page as Page))])
+      );
+    }
+
+    res.json({ findings, counts: countFindings(findings) });
+  } catch (error) {
+    console.error('Error linting page config:', error);
+    res.status(500).json({ message: 'Error linting page config' });
+  }
+});
+
+// Get the working draft of a page config
+router.get('/:pageId', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+
+    const pageConfig = await prisma.pageConfig.findUnique({
+      where: { page_id: pageId }
+    });
+
+    if (!pageConfig) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    // ?format=yaml downloads the YAML source (or a YAML rendering of a JSON config)
+    if (req.query.format === 'yaml') {
+      return sendYaml(res, `${pageId}.yaml`, pageConfig.yaml_source ?? toYaml(toPage(pageConfig)));
+    }
+
+    res.json({
+      page: toPage(pageConfig),
+      source_format: pageConfig.yaml_source === null ? 'json' : 'yaml',
+      ...toPublishState(pageConfig)
+    });
+  } catch (error) {
+    console.error('Error fetching page config:', error);
+    res.status(500).json({ message: 'Error fetching page config' });
+  }
+});
+
+// Create page config
+router.post('/', async (req, res) => {
+  try {
+    // JSON or YAML, by Content-Type
+    const body = parseConfigBody(req);
+    if (body.errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid YAML', errors: body.errors });
+    }
+    if (!isPlainObject(body.value)) {
+      return res.status(400).json({ message: 'Page config must be an object' });
+    }
+
+    // YAML bodies can't carry a separate change note field, so it may also come from the query
+    const { change_note = req.query.change_note, ...page } = body.value;
+    const changeNoteErrors = validateChangeNote(change_note);
+    if (changeNoteErrors.length > 0) {
+      return res.status(400).json({ message: 'Invalid change note', errors: changeNoteErrors });
+    }
+
+    // Validate config structure, then the fragments and theme it uses
+    const errors = validatePageConfig(page);
+    if (errors.length === 0) {
+      errors.push(...(await validatePageFragments(page as Page)), ...(await validatePageTheme(page as Page)));
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid page config', errors: body.locate(errors) });
+    }
+
+    // Check if page ID is already taken
+    const existingPage = await prisma.pageConfig.findUnique({
+      where: { page_id: page.pageId }
+    });
+
+    if (existingPage) {
+      return res.status(409).json({ message: 'A page with this ID already exists' });
+    }
+
+    const pageConfig = await createPageConfig(page as Page, req.user?.id, change_note, body.yamlSource);
+
+    // Log page creation
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.CREATE_PAGE,
+        undefined,
+        {
+          page_details: {
+            page_id: pageConfig.page_id,
+            title: pageConfig.title
+          }
+        },
+        req.clientIp
+      );
+    }
+
+    res.status(201).json({
+      message: 'Page config created successfully',
+      page: toPage(pageConfig),
+      version: pageConfig.current_version
+    });
+  } catch (error) {
+    console.error('Error creating page config:', error);
+    res.status(500).json({ message: 'Error creating page config' });
+  }
+});
+
+// Update page config
+router.put('/:pageId', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+
+    // JSON or YAML, by Content-Type
+    const body = parseConfigBody(req);
+    if (body.errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid YAML', errors: body.errors });
+    }
+    if (!isPlainObject(body.value)) {
+      return res.status(400).json({ message: 'Page config must be an object' });
+    }
+
+    const { change_note = req.query.change_note, ...fields } = body.value;
+    const changeNoteErrors = validateChangeNote(change_note);
+    if (changeNoteErrors.length > 0) {
+      return res.status(400).json({ message: 'Invalid change note', errors: changeNoteErrors });
+    }
+    // The stored YAML source is the body as sent, so its page ID must be this page's
+    if (fields.pageId !== undefined && fields.pageId !== pageId) {
+      return res.status(400).json({
+        message: 'Invalid page config',
+        errors: body.locate([{ path: 'pageId', message: `Page ID must match the URL ("${pageId}")` }])
+      });
+    }
+    const page = { ...fields, pageId };
+
+    // Validate config structure, then the fragments and theme it uses
+    const errors = validatePageConfig(page);
+    if (errors.length === 0) {
+      errors.push(...(await validatePageFragments(page as Page)), ...(await validatePageTheme(page as Page)));
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid page config', errors: body.locate(errors) });
+    }
+
+    // Save as a new version
+    const pageConfig = await updatePageConfig(pageId, page as Page, req.user?.id, change_note, body.yamlSource);
+
+    if (!pageConfig) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    // Log page edit
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.EDIT_PAGE,
+        undefined,
+        {
+          page_details: {
+            page_id: pageConfig.page_id,
+            title: pageConfig.title,
+            version: pageConfig.current_version
+          }
+        },
+        req.clientIp
+      );
+    }
+
+    res.json({
+      message: 'Page config updated successfully',
+      page: toPage(pageConfig),
+      version: pageConfig.current_version
+    });
+  } catch (error) {
+    console.error('Error updating page config:', error);
+    res.status(500).json({ message: 'Error updating page config' });
+  }
+});
+
+// List versions of a page config
+router.get('/:pageId/versions', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+
+    const pageConfig = await prisma.pageConfig.findUnique({
+      where: { page_id: pageId }
+    });
+
+    if (!pageConfig) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    const versions = await listPageConfigVersions(pageConfig.id);
+
+    res.json({
+      current_version: pageConfig.current_version,
+      versions
+    });
+  } catch (error) {
+    console.error('Error fetching page config versions:', error);
+    res.status(500).json({ message: 'Error fetching page config versions' });
+  }
+});
+
+// Diff two versions of a page. `to` defaults to the current draft and `from` to the
+// published version, i.e. what publishing would change.
+router.get('/:pageId/diff', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+
+    const pageConfig = await prisma.pageConfig.findUnique({
+      where: { page_id: pageId }
+    });
+
+    if (!pageConfig) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    const from = req.query.from === undefined ? pageConfig.published_version : Number(req.query.from);
+    const to = req.query.to === undefined ? pageConfig.current_version : Number(req.query.to);
+
+    if (from === null) {
+      return res.status(400).json({ message: 'Page has never been published; "from" is required' });
+    }
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return res.status(400).json({ message: 'Versions must be whole numbers' });
+    }
+
+    const [before, after] = await Promise.all([
+      getPageAtVersion(pageId, from),
+      getPageAtVersion(pageId, to)
+    ]);
+
+    if (!before || !after) {
+      return res.status(404).json({ message: 'Version not found' });
+    }
+
+    res.json({
+      from: { pageId, version: from },
+      to: { pageId, version: to },
+      diff: diffPageConfigs(before.page, after.page)
+    });
+  } catch (error) {
+    console.error('Error diffing page config versions:', error);
+    res.status(500).json({ message: 'Error diffing page config versions' });
+  }
+});
+
+// Get a single version of a page config
+router.get('/:pageId/versions/:version', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+    const version = parseInt(req.params.version);
+
+    const pageConfig = await prisma.pageConfig.findUnique({
+      where: { page_id: pageId }
+    });
+
+    if (!pageConfig) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    const pageVersion = Number.isNaN(version)
+      ? null
+      : await getPageConfigVersion(pageConfig.id, version);
+
+    if (!pageVersion) {
+      return res.status(404).json({ message: 'Version not found' });
+    }
+
+    if (req.query.format === 'yaml') {
+      return sendYaml(
+        res,
+        `${pageId}-v${version}.yaml`,
+        pageVersion.yaml_source ?? toYaml(toPage({ ...pageConfig, title: pageVersion.title, config_json: pageVersion.config_json }))
+      );
+    }
+
+    const { config_json, yaml_source, page_config_id, ...versionDetails } = pageVersion;
+    res.json({
+      version: {
+        ...versionDetails,
+        page: toPage({ ...pageConfig, title: pageVersion.title, config_json })
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching page config version:', error);
+    res.status(500).json({ message: 'Error fetching page config version' });
+  }
+});
+
+// Roll back to an earlier version
+router.post('/:pageId/rollback/:version', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+    const version = parseInt(req.params.version);
+
+    if (Number.isNaN(version)) {
+      return res.status(400).json({ message: 'Invalid version' });
+    }
+
+    const changeNoteErrors = validateChangeNote(req.body?.change_note);
+    if (changeNoteErrors.length > 0) {
+      return res.status(400).json({ message: 'Invalid change note', errors: changeNoteErrors });
+    }
+
+    const pageConfig = await rollbackPageConfig(pageId, version, req.user?.id, req.body?.change_note);
+
+    if (!pageConfig) {
+      return res.status(404).json({ message: 'Page or version not found' });
+    }
+
+    // Log rollback
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.ROLLBACK_PAGE,
+        undefined,
+        {
+          page_details: {
+            page_id: pageConfig.page_id,
+            title: pageConfig.title,
+            version: pageConfig.current_version,
+            restored_version: version
+          }
+        },
+        req.clientIp
+      );
+    }
+
+    res.json({
+      message: `Page config rolled back to version ${version}`,
+      page: toPage(pageConfig),
+      version: pageConfig.current_version
+    });
+  } catch (error) {
+    console.error('Error rolling back page config:', error);
+    res.status(500).json({ message: 'Error rolling back page config' });
+  }
+});
+
+// Publish a page now or at a scheduled time
+router.post('/:pageId/publish', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+    const { version, publish_at } = req.body || {};
+
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ message: 'Invalid version' });
+    }
+
+    const publishAt = publish_at ? new Date(publish_at) : null;
+    if (publishAt && Number.isNaN(publishAt.getTime())) {
+      return res.status(400).json({ message: 'Invalid publish_at date' });
+    }
+
+    // A publish time in the past means publish now
+    const scheduled = publishAt !== null && publishAt.getTime() > Date.now();
+    const pageConfig = scheduled
+      ? await schedulePublish(pageId, publishAt as Date, req.user?.id, version)
+      : await publishPageConfig(pageId, version);
+
+    if (!pageConfig) {
+      return res.status(404).json({ message: 'Page or version not found' });
+    }
+
+    // Log publish or schedule
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        scheduled ? AUDIT_TYPES.SCHEDULE_PAGE : AUDIT_TYPES.PUBLISH_PAGE,
+        undefined,
+        {
+          page_details: {
+            page_id: pageConfig.page_id,
+            title: pageConfig.title,
+            version: scheduled ? pageConfig.scheduled_version : pageConfig.published_version
+          },
+          ...(scheduled ? { publish_at: pageConfig.scheduled_publish_at } : {})
+        },
+        req.clientIp
+      );
+    }
+
+    res.json({
+      message: scheduled ? 'Page publish scheduled successfully' : 'Page published successfully',
+      ...toPublishState(pageConfig)
+    });
+  } catch (error) {
+    console.error('Error publishing page config:', error);
+    res.status(500).json({ message: 'Error publishing page config' });
+  }
+});
+
+// Cancel a scheduled publish
+router.delete('/:pageId/schedule', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+
+    const pageConfig = await cancelScheduledPublish(pageId);
+
+    if (!pageConfig) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    res.json({
+      message: 'Scheduled publish cancelled',
+      ...toPublishState(pageConfig)
+    });
+  } catch (error) {
+    console.error('Error cancelling scheduled publish:', error);
+    res.status(500).json({ message: 'Error cancelling scheduled publish' });
+  }
+});
+
+// Take a page offline without deleting it
+router.post('/:pageId/unpublish', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+
+    const pageConfig = await unpublishPageConfig(pageId);
+
+    if (!pageConfig) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    // Log unpublish
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.UNPUBLISH_PAGE,
+        undefined,
+        {
+          page_details: {
+            page_id: pageConfig.page_id,
+            title: pageConfig.title
+          }
+        },
+        req.clientIp
+      );
+    }
+
+    res.json({
+      message: 'Page unpublished successfully',
+      ...toPublishState(pageConfig)
+    });
+  } catch (error) {
+    console.error('Error unpublishing page config:', error);
+    res.status(500).json({ message: 'Error unpublishing page config' });
+  }
+});
+
+// A/B test results per variant of the published page
+router.get('/:pageId/experiment', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+
+    const pageConfig = await prisma.pageConfig.findUnique({
+      where: { page_id: pageId }
+    });
+
+    if (!pageConfig) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    const published = await getPublishedPage(pageId);
+    const variants = await getExperimentResults(pageId, published?.variants);
+
+    res.json({ variants });
+  } catch (error) {
+    console.error('Error fetching experiment results:', error);
+    res.status(500).json({ message: 'Error fetching experiment results' });
+  }
+});
+
+// Clear recorded exposures and conversions to start an experiment over
+router.delete('/:pageId/experiment', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+
+    const pageConfig = await prisma.pageConfig.findUnique({
+      where: { page_id: pageId }
+    });
+
+    if (!pageConfig) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    const { count } = await resetExperimentResults(pageId);
+
+    // Log reset
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.RESET_EXPERIMENT,
+        undefined,
+        {
+          page_details: {
+            page_id: pageConfig.page_id,
+            title: pageConfig.title
+          },
+          deleted_events: count
+        },
+        req.clientIp
+      );
+    }
+
+    res.json({ message: 'Experiment results cleared' });
+  } catch (error) {
+    console.error('Error clearing experiment results:', error);
+    res.status(500).json({ message: 'Error clearing experiment results' });
+  }
+});
+
+// Translation keys of the draft (fragments included) and the ones each locale is missing
+router.get('/:pageId/translations', async (req, res) => {
+  try {
+    const draft = await getPageAtVersion(req.params.pageId);
+
+    if (!draft) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    res.json(await getPageTranslationReport(draft.page));
+  } catch (error) {
+    console.error('Error fetching missing translations:', error);
+    res.status(500).json({ message: 'Error fetching missing translations' });
+  }
+});
+
+// Delete page config
+router.delete('/:pageId', async (req, res) => {
+  try {
+    const { pageId } = req.params;
+
+    // Check if page exists
+    const existingPage = await prisma.pageConfig.findUnique({
+      where: { page_id: pageId }
+    });
+
+    if (!existingPage) {
+      return res.status(404).json({ message: 'Page not found' });
+    }
+
+    // Log page deletion before actually deleting
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.DELETE_PAGE,
+        undefined,
+        {
+          page_details: {
+            page_id: existingPage.page_id,
+            title: existingPage.title
+          }
+        },
+        req.clientIp
+      );
+    }
+
+    await prisma.pageConfig.delete({
+      where: { page_id: pageId }
+    });
+
+    res.json({ message: 'Page config deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting page config:', error);
+    res.status(500).json({ message: 'Error deleting page config' });
+  }
+});
+
+export default router;
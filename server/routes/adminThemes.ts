@@ -0,0 +1,178 @@
+import express from 'express';
+import prisma from '../config/prisma.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { Theme, toTheme, validateTheme } from '../models/Theme.js';
+import { logUserAction, AUDIT_TYPES } from '../services/auditService.js';
+import { getThemeUsage, saveTheme } from '../services/themeService.js';
+
+const router = express.Router();
+
+// Themes are managed by the same roles that author pages
+router.use(authenticate, authorize(['admin', 'moderator']));
+
+// List all themes
+router.get('/', async (req, res) => {
+  try {
+    const records = await prisma.theme.findMany({
+      orderBy: { theme_id: 'asc' }
+    });
+
+    res.json({
+      themes: records.map((record) => ({ ...toTheme(record), updated_at: record.updated_at }))
+    });
+  } catch (error) {
+    console.error('Error fetching themes:', error);
+    res.status(500).json({ message: 'Error fetching themes' });
+  }
+});
+
+// Get a theme
+router.get('/:themeId', async (req, res) => {
+  try {
+    const record = await prisma.theme.findUnique({
+      where: { theme_id: req.params.themeId }
+    });
+
+    if (!record) {
+      return res.status(404).json({ message: 'Theme not found' });
+    }
+
+    res.json({ theme: toTheme(record), updated_at: record.updated_at });
+  } catch (error) {
+    console.error('Error fetching theme:', error);
+    res.status(500).json({ message: 'Error fetching theme' });
+  }
+});
+
+// Pages that select a theme
+router.get('/:themeId/usage', async (req, res) => {
+  try {
+    const usage = await getThemeUsage(req.params.themeId);
+
+    res.json(usage);
+  } catch (error) {
+    console.error('Error fetching theme usage:', error);
+    res.status(500).json({ message: 'Error fetching theme usage' });
+  }
+});
+
+// Create a theme
+router.post('/', async (req, res) => {
+  try {
+    const theme = req.body;
+
+    const errors = validateTheme(theme);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid theme', errors });
+    }
+
+    const existing = await prisma.theme.findUnique({
+      where: { theme_id: theme.themeId }
+    });
+
+    if (existing) {
+      return res.status(409).json({ message: 'A theme with this ID already exists' });
+    }
+
+    const record = await saveTheme(theme as Theme, true);
+
+    // Log theme creation
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.CREATE_THEME,
+        undefined,
+        { theme_details: { theme_id: record.theme_id, name: record.name, is_default: record.is_default } },
+        req.clientIp
+      );
+    }
+
+    res.status(201).json({ message: 'Theme created successfully', theme: toTheme(record) });
+  } catch (error) {
+    console.error('Error creating theme:', error);
+    res.status(500).json({ message: 'Error creating theme' });
+  }
+});
+
+// Update a theme. The change applies to every page using it (and, for the
+// default theme, every page without a theme of its own) without republishing.
+router.put('/:themeId', async (req, res) => {
+  try {
+    const { themeId } = req.params;
+    const theme = { ...req.body, themeId };
+
+    const errors = validateTheme(theme);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid theme', errors });
+    }
+
+    const existing = await prisma.theme.findUnique({
+      where: { theme_id: themeId }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Theme not found' });
+    }
+
+    const record = await saveTheme(theme as Theme, false);
+
+    // Log theme edit
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.EDIT_THEME,
+        undefined,
+        { theme_details: { theme_id: record.theme_id, name: record.name, is_default: record.is_default } },
+        req.clientIp
+      );
+    }
+
+    res.json({ message: 'Theme updated successfully', theme: toTheme(record) });
+  } catch (error) {
+    console.error('Error updating theme:', error);
+    res.status(500).json({ message: 'Error updating theme' });
+  }
+});
+
+// Delete a theme that no page selects. Deleting the default theme puts pages
+// without a theme back on the built-in values.
+router.delete('/:themeId', async (req, res) => {
+  try {
+    const { themeId } = req.params;
+
+    const existing = await prisma.theme.findUnique({
+      where: { theme_id: themeId }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'Theme not found' });
+    }
+
+    const usage = await getThemeUsage(themeId);
+    if (usage.pages.length > 0) {
+      return res.status(409).json({ message: 'Theme is still in use', usage });
+    }
+
+    // Log theme deletion before actually deleting
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.DELETE_THEME,
+        undefined,
+        { theme_details: { theme_id: existing.theme_id, name: existing.name, is_default: existing.is_default } },
+        req.clientIp
+      );
+    }
+
+    await prisma.theme.delete({
+      where: { theme_id: themeId }
+    });
+
+    res.json({ message: 'Theme deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting theme:', error);
+    res.status(500).json({ message: 'Error deleting theme' });
+  }
+});
+
+export default router;
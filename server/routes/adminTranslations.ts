@@ -0,0 +1,133 @@
+import express from 'express';
+import prisma from '../config/prisma.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { StringTable, getDefaultLocale, toStringTable, validateStringTable } from '../models/Translation.js';
+import { logUserAction, AUDIT_TYPES } from '../services/auditService.js';
+import { getTranslationSummary, saveStringTable } from '../services/translationService.js';
+
+const router = express.Router();
+
+// String tables are managed by the same roles that author pages
+router.use(authenticate, authorize(['admin', 'moderator']));
+
+// List stored locales with their number of strings
+router.get('/', async (req, res) => {
+  try {
+    const records = await prisma.stringTable.findMany({
+      orderBy: { locale: 'asc' }
+    });
+
+    res.json({
+      default_locale: getDefaultLocale(),
+      locales: records.map((record) => ({
+        locale: record.locale,
+        keys: Object.keys(toStringTable(record).strings).length,
+        updated_at: record.updated_at
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching string tables:', error);
+    res.status(500).json({ message: 'Error fetching string tables' });
+  }
+});
+
+// Missing translations per locale for every page draft that uses translation keys
+router.get('/missing', async (req, res) => {
+  try {
+    res.json(await getTranslationSummary());
+  } catch (error) {
+    console.error('Error fetching missing translations:', error);
+    res.status(500).json({ message: 'Error fetching missing translations' });
+  }
+});
+
+// Get the strings of a locale
+router.get('/:locale', async (req, res) => {
+  try {
+    const record = await prisma.stringTable.findUnique({
+      where: { locale: req.params.locale }
+    });
+
+    if (!record) {
+      return res.status(404).json({ message: 'String table not found' });
+    }
+
+    res.json({ table: toStringTable(record), updated_at: record.updated_at });
+  } catch (error) {
+    console.error('Error fetching string table:', error);
+    res.status(500).json({ message: 'Error fetching string table' });
+  }
+});
+
+// Create or replace the strings of a locale. Published pages pick up the change
+// on their next load without republishing.
+router.put('/:locale', async (req, res) => {
+  try {
+    const table = { locale: req.params.locale, strings: req.body?.strings };
+
+    const errors = validateStringTable(table);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid string table', errors });
+    }
+
+    const record = await saveStringTable(table as StringTable);
+
+    // Log string table edit
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.EDIT_TRANSLATIONS,
+        undefined,
+        { translation_details: { locale: record.locale, keys: Object.keys(table.strings).length } },
+        req.clientIp
+      );
+    }
+
+    res.json({ message: 'Translations saved successfully', table: toStringTable(record) });
+  } catch (error) {
+    console.error('Error saving string table:', error);
+    res.status(500).json({ message: 'Error saving string table' });
+  }
+});
+
+// Delete the strings of a locale. The default locale's strings are the fallback
+// for every other locale, so they can only be replaced, not deleted.
+router.delete('/:locale', async (req, res) => {
+  try {
+    const { locale } = req.params;
+
+    const existing = await prisma.stringTable.findUnique({
+      where: { locale }
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: 'String table not found' });
+    }
+
+    if (locale === getDefaultLocale()) {
+      return res.status(409).json({ message: 'The default locale cannot be deleted' });
+    }
+
+    // Log string table deletion before actually deleting
+    if (req.user) {
+      await logUserAction(
+        req.user.id,
+        AUDIT_TYPES.DELETE_TRANSLATIONS,
+        undefined,
+        { translation_details: { locale, keys: Object.keys(toStringTable(existing).strings).length } },
+        req.clientIp
+      );
+    }
+
+    await prisma.stringTable.delete({
+      where: { locale }
+    });
+
+    res.json({ message: 'Translations deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting string table:', error);
+    res.status(500).json({ message: 'Error deleting string table' });
+  }
+});
+
+export default router;
@@ -0,0 +1,63 @@
+import express from 'express';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { DateRange, getPageAnalytics, getPageSummaries } from '../services/analyticsService.js';
+
+const router = express.Router();
+
+// Analytics are available to the same roles that author pages
+router.use(authenticate, authorize(['admin', 'moderator']));
+
+// Read ?from=&to= like the audit log filters. A date without a time in `to`
+// includes that whole day. Returns null for unparseable dates.
+const parseDateRange = (query: express.Request['query']): DateRange | null => {
+  const range: DateRange = {};
+
+  if (query.from) {
+    range.from = new Date(query.from as string);
+  }
+  if (query.to) {
+    range.to = new Date(query.to as string);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(query.to as string)) {
+      range.to.setUTCDate(range.to.getUTCDate() + 1);
+    }
+  }
+
+  const invalid = [range.from, range.to].some((date) => date && Number.isNaN(date.getTime()));
+  return invalid ? null : range;
+};
+
+// Totals per page
+router.get('/pages', async (req, res) => {
+  try {
+    const range = parseDateRange(req.query);
+    if (!range) {
+      return res.status(400).json({ message: 'Invalid date range' });
+    }
+
+    const pages = await getPageSummaries(range);
+
+    res.json({ pages });
+  } catch (error) {
+    console.error('Error fetching page analytics:', error);
+    res.status(500).json({ message: 'Error fetching page analytics' });
+  }
+});
+
+// Daily traffic, top buttons and form funnel for one page
+router.get('/pages/:pageId', async (req, res) => {
+  try {
+    const range = parseDateRange(req.query);
+    if (!range) {
+      return res.status(400).json({ message: 'Invalid date range' });
+    }
+
+    const analytics = await getPageAnalytics(req.params.pageId, range);
+
+    res.json({ pageId: req.params.pageId, ...analytics });
+  } catch (error) {
+    console.error('Error fetching page analytics:', error);
+    res.status(500).json({ message: 'Error fetching page analytics' });
+  }
+});
+
+export default router;
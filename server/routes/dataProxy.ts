@@ -0,0 +1,68 @@
+import express from 'express';
+import { getDataSource, isPathAllowed } from '../config/dataSources.js';
+import { requireAccess } from '../middleware/pageAccess.js';
+import { proxyRequest } from '../services/dataProxyService.js';
+
+const router = express.Router();
+
+// Look up the named data source and check the method and path against its allowlist
+router.all('/:sourceName/*', (req, res, next) => {
+  const source = getDataSource(req.params.sourceName);
+
+  if (!source) {
+    return res.status(404).json({ message: 'Data source not found' });
+  }
+
+  // Everything matched by the trailing "*"
+  const path = `/${(req.params as Record<string, string>)[0] || ''}`;
+  if (path.split('/').some((segment) => segment === '.' || segment === '..')) {
+    return res.status(400).json({ message: 'Invalid data source path' });
+  }
+
+  if (!source.methods.includes(req.method)) {
+    return res.status(405).json({ message: 'Method not allowed for this data source' });
+  }
+
+  if (!isPathAllowed(source, path)) {
+    return res.status(403).json({ message: 'Path not allowed for this data source' });
+  }
+
+  res.locals.dataSource = source;
+  res.locals.dataPath = path;
+  requireAccess(source.access)(req, res, next);
+});
+
+// Forward the request to the data source and relay its response
+router.all('/:sourceName/*', async (req, res) => {
+  try {
+    // Bodies are forwarded as JSON, so only JSON bodies (parsed by express.json) can be
+    // sent. req.is() is null for requests without a body.
+    const hasBody = req.is('application/json');
+    if (hasBody === false) {
+      return res.status(415).json({ message: 'Data source requests must send a JSON body' });
+    }
+
+    const queryIndex = req.originalUrl.indexOf('?');
+    const result = await proxyRequest(res.locals.dataSource, {
+      method: req.method,
+      path: res.locals.dataPath,
+      search: queryIndex === -1 ? '' : req.originalUrl.slice(queryIndex),
+      body: hasBody ? req.body : undefined
+    });
+
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    // Always JSON, which browsers must neither sniff as something else nor run anything from
+    res.type('application/json');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', "default-src 'none'; frame-ancestors 'none'; sandbox");
+    res.status(result.status).send(result.body);
+  } catch (error) {
+    console.error('Error proxying data source request:', error);
+    res.status(500).json({ message: 'Error proxying data source request' });
+  }
+});
+
+export default router;
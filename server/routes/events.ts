@@ -0,0 +1,38 @@
+import express from 'express';
+import { getVisitorId } from '../middleware/visitor.js';
+import { IncomingEvent, recordPageEvents, validateEvents } from '../services/analyticsService.js';
+
+const router = express.Router();
+
+// navigator.sendBeacon can only send "simple" content types cross-origin, so the
+// client sends its last batch as JSON text/plain when a page is closed
+router.use(express.text({ type: 'text/plain', limit: '64kb' }));
+
+// Record a batch of page analytics events (views, button clicks, form submits)
+router.post('/', async (req, res) => {
+  try {
+    let body = req.body;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch (error) {
+        return res.status(400).json({ message: 'Invalid JSON' });
+      }
+    }
+
+    const events = body?.events;
+    const errors = validateEvents(events);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid events', errors });
+    }
+
+    const accepted = await recordPageEvents(events as IncomingEvent[], getVisitorId(req, res));
+
+    res.status(202).json({ accepted });
+  } catch (error) {
+    console.error('Error recording events:', error);
+    res.status(500).json({ message: 'Error recording events' });
+  }
+});
+
+export default router;
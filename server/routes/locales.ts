@@ -0,0 +1,17 @@
+import express from 'express';
+import { getDefaultLocale } from '../models/Translation.js';
+import { listLocales } from '../services/translationService.js';
+
+const router = express.Router();
+
+// Locales pages can be served in (public, for language pickers)
+router.get('/', async (req, res) => {
+  try {
+    res.json({ locales: await listLocales(), default_locale: getDefaultLocale() });
+  } catch (error) {
+    console.error('Error fetching locales:', error);
+    res.status(500).json({ message: 'Error fetching locales' });
+  }
+});
+
+export default router;
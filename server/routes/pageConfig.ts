@@ -0,0 +1,95 @@
+import express from 'express';
+import { loadPublishedPage, enforcePageAccess } from '../middleware/pageAccess.js';
+import { assignVariant } from '../middleware/experiment.js';
+import { getVisitorId } from '../middleware/visitor.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { EXPERIMENT_EVENTS, findForm, recordExperimentEvent } from '../services/experimentService.js';
+import { createSubmission, isStoredForm, validateSubmission } from '../services/formSubmissionService.js';
+import { resolveTheme } from '../services/themeService.js';
+import { BASE_THEME } from '../models/Theme.js';
+
+const router = express.Router();
+
+// Form submissions are public writes, so each client IP gets a few per minute
+const limitSubmissions = rateLimit({
+  windowMs: 60 * 1000,
+  max: Number(process.env.SUBMISSION_RATE_LIMIT) || 10
+});
+
+// Get published page config by page ID (public unless the page restricts access),
+// with the token values of its theme, translated for the request's locale. Pages
+// with A/B variants serve the visitor's variant and record an exposure.
+router.get('/:pageId', loadPublishedPage, enforcePageAccess, assignVariant, async (req, res) => {
+  const { page, variant, visitorId, locale } = res.locals;
+
+  // Pages still render with the built-in look if the theme can't be loaded
+  let theme = BASE_THEME;
+  try {
+    theme = await resolveTheme(page.theme);
+  } catch (error) {
+    console.error('Error resolving page theme:', error);
+  }
+
+  if (variant) {
+    // A failed write shouldn't stop the page from loading
+    try {
+      await recordExperimentEvent(page.pageId, variant, visitorId, EXPERIMENT_EVENTS.EXPOSURE);
+    } catch (error) {
+      console.error('Error recording experiment exposure:', error);
+    }
+  }
+
+  res.set('Content-Language', locale);
+  res.json(variant ? { page, variant, theme, locale } : { page, theme, locale });
+});
+
+// Record a successful form submission as a conversion for the visitor's variant
+router.post('/:pageId/conversions', loadPublishedPage, enforcePageAccess, assignVariant, async (req, res) => {
+  try {
+    const { page, variant, visitorId } = res.locals;
+    const { componentId } = req.body || {};
+
+    if (!variant) {
+      return res.status(404).json({ message: 'Page has no variants' });
+    }
+
+    if (typeof componentId !== 'string' || !findForm(page.components, componentId)) {
+      return res.status(400).json({ message: 'componentId must be a form on this page' });
+    }
+
+    await recordExperimentEvent(page.pageId, variant, visitorId, EXPERIMENT_EVENTS.CONVERSION, componentId);
+
+    res.status(201).json({ message: 'Conversion recorded', variant });
+  } catch (error) {
+    console.error('Error recording conversion:', error);
+    res.status(500).json({ message: 'Error recording conversion' });
+  }
+});
+
+// Store a submission of a form whose submit target is the built-in store.
+// The payload is checked against the form's fields in the published config.
+router.post('/:pageId/forms/:formId/submissions', limitSubmissions, loadPublishedPage, enforcePageAccess, assignVariant, async (req, res) => {
+  try {
+    const { page, variant } = res.locals;
+    const form = findForm(page.components, req.params.formId);
+
+    if (!form || !isStoredForm(form)) {
+      return res.status(404).json({ message: 'Form not found' });
+    }
+
+    const { data, errors } = validateSubmission(form.props.fields || [], req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ message: 'Invalid submission', errors });
+    }
+
+    const visitorId = res.locals.visitorId ?? getVisitorId(req, res);
+    const submission = await createSubmission(page.pageId, form.id, data, visitorId, variant);
+
+    res.status(201).json({ message: 'Submission received', id: submission.id });
+  } catch (error) {
+    console.error('Error storing form submission:', error);
+    res.status(500).json({ message: 'Error storing form submission' });
+  }
+});
+
+export default router;
@@ -0,0 +1,61 @@
+import express from 'express';
+import { loadPublishedPage } from '../middleware/pageAccess.js';
+import { assignVariant } from '../middleware/experiment.js';
+import { EXPERIMENT_EVENTS, recordExperimentEvent } from '../services/experimentService.js';
+import { isPublicPage, loadPageTheme, renderPageHtml } from '../services/staticPageService.js';
+
+const router = express.Router();
+
+// Client app, for restricted pages and live table data
+const APP_URL = () => process.env.CLIENT_URL || 'http://localhost:3000';
+
+// Get a published page as server-rendered HTML, for crawlers and visitors
+// without the client bundle. Restricted pages redirect to the client app, which
+// handles login. Pages with A/B variants serve the visitor's variant and record
+// an exposure.
+router.get('/:pageId', loadPublishedPage, async (req, res, next) => {
+  if (!isPublicPage(res.locals.page)) {
+    return res.redirect(302, `${APP_URL()}/${encodeURIComponent(req.params.pageId)}`);
+  }
+  next();
+}, assignVariant, async (req, res) => {
+  const { page, variant, visitorId, locale } = res.locals;
+
+  try {
+    const theme = await loadPageTheme(page);
+
+    if (variant) {
+      // A failed write shouldn't stop the page from loading
+      try {
+        await recordExperimentEvent(page.pageId, variant, visitorId, EXPERIMENT_EVENTS.EXPOSURE);
+      } catch (error) {
+        console.error('Error recording experiment exposure:', error);
+      }
+    }
+
+    const html = renderPageHtml(page, {
+      theme,
+      locale,
+      variant,
+      apiUrl: process.env.PUBLIC_API_URL || `${req.protocol}://${req.get('host')}/api`,
+      appUrl: APP_URL(),
+      pageHref: (pageId) => `${req.baseUrl}/${encodeURIComponent(pageId)}`,
+      query: Object.fromEntries(
+        Object.entries(req.query).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+      )
+    });
+
+    // The language and variant depend on the request, so shared caches must key on them
+    res.set({
+      'Content-Language': locale,
+      Vary: 'Accept-Language, Cookie',
+      'Cache-Control': variant ? 'private, no-cache' : 'public, max-age=60'
+    });
+    res.type('html').send(html);
+  } catch (error) {
+    console.error('Error rendering page:', error);
+    res.status(500).json({ message: 'Error rendering page' });
+  }
+});
+
+export default router;
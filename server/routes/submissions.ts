@@ -0,0 +1,151 @@
+import express from 'express';
+import prisma from '../config/prisma.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import {
+  SUBMISSION_STATUSES,
+  SubmissionFilter,
+  SubmissionStatus,
+  exportSubmissions,
+  getSubmissionForms,
+  listSubmissions,
+  toCsv
+} from '../services/formSubmissionService.js';
+
+const router = express.Router();
+
+// Submissions are managed by the same roles that author pages
+router.use(authenticate, authorize(['admin', 'moderator']));
+
+const isStatus = (value: unknown): value is SubmissionStatus =>
+  SUBMISSION_STATUSES.includes(value as SubmissionStatus);
+
+// Read the ?status=&search= filters for one form. Returns null for an unknown status.
+const parseFilter = (req: express.Request<{ pageId: string; formId: string }>): SubmissionFilter | null => {
+  const { status, search } = req.query;
+  if (status !== undefined && status !== '' && !isStatus(status)) return null;
+
+  return {
+    pageId: req.params.pageId,
+    formId: req.params.formId,
+    status: isStatus(status) ? status : undefined,
+    search: typeof search === 'string' && search.trim() ? search.trim() : undefined
+  };
+};
+
+const statusMessage = `Status must be one of: ${SUBMISSION_STATUSES.join(', ')}`;
+
+// List forms that have received submissions
+router.get('/', async (req, res) => {
+  try {
+    const forms = await getSubmissionForms();
+
+    res.json({ forms });
+  } catch (error) {
+    console.error('Error fetching submission forms:', error);
+    res.status(500).json({ message: 'Error fetching submission forms' });
+  }
+});
+
+// List a form's submissions (paginated, newest first)
+router.get('/:pageId/:formId', async (req, res) => {
+  try {
+    const filter = parseFilter(req);
+    if (!filter) {
+      return res.status(400).json({ message: statusMessage });
+    }
+
+    const pageNum = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limitNum = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+    const { submissions, total, counts } = await listSubmissions(filter, pageNum, limitNum);
+
+    res.json({
+      submissions,
+      counts,
+      pagination: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching submissions:', error);
+    res.status(500).json({ message: 'Error fetching submissions' });
+  }
+});
+
+// Download a form's submissions as CSV (default) or JSON, with the same filters as the list
+router.get('/:pageId/:formId/export', async (req, res) => {
+  try {
+    const filter = parseFilter(req);
+    if (!filter) {
+      return res.status(400).json({ message: statusMessage });
+    }
+
+    const format = req.query.format || 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      return res.status(400).json({ message: 'Format must be csv or json' });
+    }
+
+    const submissions = await exportSubmissions(filter);
+    const filename = `${filter.pageId}-${filter.formId}-submissions.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    if (format === 'json') {
+      return res.json(submissions);
+    }
+    res.type('text/csv');
+    res.send(toCsv(submissions));
+  } catch (error) {
+    console.error('Error exporting submissions:', error);
+    res.status(500).json({ message: 'Error exporting submissions' });
+  }
+});
+
+// Get one submission
+router.get('/:pageId/:formId/:id(\\d+)', async (req, res) => {
+  try {
+    const { pageId, formId, id } = req.params;
+    const submission = await prisma.formSubmission.findFirst({
+      where: { id: parseInt(id), page_id: pageId, form_id: formId }
+    });
+
+    if (!submission) {
+      return res.status(404).json({ message: 'Submission not found' });
+    }
+
+    res.json({ submission });
+  } catch (error) {
+    console.error('Error fetching submission:', error);
+    res.status(500).json({ message: 'Error fetching submission' });
+  }
+});
+
+// Mark a submission as new, handled or spam
+router.patch('/:pageId/:formId/:id(\\d+)', async (req, res) => {
+  try {
+    const { pageId, formId, id } = req.params;
+    const { status } = req.body || {};
+
+    if (!isStatus(status)) {
+      return res.status(400).json({ message: statusMessage });
+    }
+
+    const { count } = await prisma.formSubmission.updateMany({
+      where: { id: parseInt(id), page_id: pageId, form_id: formId },
+      data: { status }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ message: 'Submission not found' });
+    }
+
+    res.json({ message: 'Submission updated', status });
+  } catch (error) {
+    console.error('Error updating submission:', error);
+    res.status(500).json({ message: 'Error updating submission' });
+  }
+});
+
+export default router;
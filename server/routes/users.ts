@@ -3,6 +3,7 @@ import bcrypt from 'bcryptjs';
 import prisma from '../config/prisma.js';
 import { authenticate, authorize, checkUserPermissions } from '../middleware/auth.js';
 import { logUserAction, logUserEdit, AUDIT_TYPES } from '../services/auditService.js';
+import { isLocale } from '../models/Translation.js';
 
 const router = express.Router();
 
@@ -51,6 +52,7 @@ router.post('/', authenticate, async (req, res) => {
         last_name: true,
         email: true,
         role: true,
+        locale: true,
         created_at: true,
         updated_at: true
       }
@@ -92,6 +94,7 @@ router.get('/', authenticate, async (req, res) => {
         last_name: true,
         email: true,
         role: true,
+        locale: true,
         created_at: true,
         updated_at: true
       }
@@ -115,6 +118,7 @@ router.get('/:id', authenticate, async (req, res) => {
         last_name: true,
         email: true,
         role: true,
+        locale: true,
         created_at: true,
         updated_at: true
       }
@@ -140,7 +144,7 @@ router.get('/:id', authenticate, async (req, res) => {
 router.put('/:id', authenticate, checkUserPermissions, async (req, res) => {
   try {
     const { id } = req.params;
-    const { first_name, last_name, email, role, password } = req.body;
+    const { first_name, last_name, email, role, password, locale } = req.body;
 
     // Check if user exists
     const existingUser = await prisma.user.findUnique({
@@ -162,6 +166,14 @@ router.put('/:id', authenticate, checkUserPermissions, async (req, res) => {
       updates.email = email;
     }
 
+    // Preferred page language; null or an empty string clears it
+    if (locale !== undefined) {
+      if (locale !== null && locale !== '' && !isLocale(locale)) {
+        return res.status(400).json({ message: 'Invalid locale' });
+      }
+      updates.locale = locale || null;
+    }
+
     // Only admin and moderators can change roles
     if (role && (req.user?.role === 'admin' || (req.user?.role === 'moderator' && existingUser.role === 'user'))) {
       updates.role = role;
@@ -193,6 +205,7 @@ router.put('/:id', authenticate, checkUserPermissions, async (req, res) => {
         last_name: true,
         email: true,
         role: true,
+        locale: true,
         created_at: true,
         updated_at: true
       }
@@ -0,0 +1,193 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.js';
+import { ValidationError, isPlainObject } from '../models/PageConfig.js';
+
+// Analytics event types sent by the client
+export const PAGE_EVENT_TYPES = {
+  PAGE_VIEW: 'page_view',
+  BUTTON_CLICK: 'button_click',
+  FORM_SUBMIT: 'form_submit',
+  FORM_SUCCESS: 'form_success',
+  FORM_FAILURE: 'form_failure',
+} as const;
+
+type PageEventType = typeof PAGE_EVENT_TYPES[keyof typeof PAGE_EVENT_TYPES];
+
+// Most events accepted in one request
+export const MAX_EVENT_BATCH = 50;
+
+export interface IncomingEvent {
+  type: PageEventType;
+  pageId: string;
+  componentId?: string;
+  variant?: string;
+}
+
+// Optional created_at bounds for reports
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+const EVENT_TYPE_VALUES: string[] = Object.values(PAGE_EVENT_TYPES);
+
+const isShortString = (value: unknown) => typeof value === 'string' && value !== '' && value.length <= 200;
+
+// Check a batch of events from the client
+export const validateEvents = (events: unknown): ValidationError[] => {
+  if (!Array.isArray(events) || events.length === 0) {
+    return [{ path: 'events', message: 'Must be a non-empty array of events' }];
+  }
+  if (events.length > MAX_EVENT_BATCH) {
+    return [{ path: 'events', message: `At most ${MAX_EVENT_BATCH} events per request` }];
+  }
+
+  const errors: ValidationError[] = [];
+  events.forEach((event, index) => {
+    const path = `events[${index}]`;
+    if (!isPlainObject(event)) {
+      errors.push({ path, message: 'Event must be an object' });
+      return;
+    }
+    if (!EVENT_TYPE_VALUES.includes(event.type)) {
+      errors.push({ path: `${path}.type`, message: `Unknown event type. Expected one of: ${EVENT_TYPE_VALUES.join(', ')}` });
+    }
+    if (!isShortString(event.pageId)) {
+      errors.push({ path: `${path}.pageId`, message: 'pageId is required' });
+    }
+    if (event.type !== PAGE_EVENT_TYPES.PAGE_VIEW && !isShortString(event.componentId)) {
+      errors.push({ path: `${path}.componentId`, message: 'componentId is required for component events' });
+    }
+    if (event.variant !== undefined && !isShortString(event.variant)) {
+      errors.push({ path: `${path}.variant`, message: 'variant must be a string' });
+    }
+  });
+  return errors;
+};
+
+// Store a (valid) batch. Events for pages that aren't published are dropped.
+// Returns the number of events stored.
+export const recordPageEvents = async (events: IncomingEvent[], visitorId: string) => {
+  const published = await prisma.pageConfig.findMany({
+    where: {
+      page_id: { in: [...new Set(events.map((event) => event.pageId))] },
+      published_version: { not: null }
+    },
+    select: { page_id: true }
+  });
+  const pageIds = new Set(published.map((pageConfig) => pageConfig.page_id));
+
+  const { count } = await prisma.pageEvent.createMany({
+    data: events
+      .filter((event) => pageIds.has(event.pageId))
+      .map((event) => ({
+        page_id: event.pageId,
+        event_type: event.type,
+        component_id: event.type === PAGE_EVENT_TYPES.PAGE_VIEW ? null : event.componentId,
+        visitor_id: visitorId,
+        variant_id: event.variant
+      }))
+  });
+  return count;
+};
+
+// SQL conditions for a date range
+const rangeSql = ({ from, to }: DateRange) => Prisma.sql`
+  ${from ? Prisma.sql`AND created_at >= ${from}` : Prisma.empty}
+  ${to ? Prisma.sql`AND created_at < ${to}` : Prisma.empty}
+`;
+
+export interface PageSummary {
+  page_id: string;
+  title: string | null;
+  views: number;
+  visitors: number;
+  clicks: number;
+  form_submits: number;
+  form_successes: number;
+}
+
+// Totals per page, busiest first
+export const getPageSummaries = async (range: DateRange): Promise<PageSummary[]> => {
+  const rows = await prisma.$queryRaw<Omit<PageSummary, 'title'>[]>`
+    SELECT
+      page_id,
+      COUNT(*) FILTER (WHERE event_type = ${PAGE_EVENT_TYPES.PAGE_VIEW})::int AS views,
+      COUNT(DISTINCT visitor_id) FILTER (WHERE event_type = ${PAGE_EVENT_TYPES.PAGE_VIEW})::int AS visitors,
+      COUNT(*) FILTER (WHERE event_type = ${PAGE_EVENT_TYPES.BUTTON_CLICK})::int AS clicks,
+      COUNT(*) FILTER (WHERE event_type = ${PAGE_EVENT_TYPES.FORM_SUBMIT})::int AS form_submits,
+      COUNT(*) FILTER (WHERE event_type = ${PAGE_EVENT_TYPES.FORM_SUCCESS})::int AS form_successes
+    FROM page_events
+    WHERE TRUE ${rangeSql(range)}
+    GROUP BY page_id
+    ORDER BY views DESC, page_id
+  `;
+
+  // Deleted pages keep their history, without a title
+  const pageConfigs = await prisma.pageConfig.findMany({
+    where: { page_id: { in: rows.map((row) => row.page_id) } },
+    select: { page_id: true, title: true }
+  });
+  const titles = new Map(pageConfigs.map((pageConfig) => [pageConfig.page_id, pageConfig.title]));
+
+  return rows.map((row) => ({ ...row, title: titles.get(row.page_id) ?? null }));
+};
+
+// Daily traffic, top buttons and the form funnel for one page
+export const getPageAnalytics = async (pageId: string, range: DateRange) => {
+  const traffic = await prisma.$queryRaw<{ date: string; views: number; visitors: number }[]>`
+    SELECT
+      to_char(date_trunc('day', created_at), 'YYYY-MM-DD') AS date,
+      COUNT(*)::int AS views,
+      COUNT(DISTINCT visitor_id)::int AS visitors
+    FROM page_events
+    WHERE page_id = ${pageId} AND event_type = ${PAGE_EVENT_TYPES.PAGE_VIEW} ${rangeSql(range)}
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+  const buttons = await prisma.$queryRaw<{ component_id: string; clicks: number; visitors: number }[]>`
+    SELECT component_id, COUNT(*)::int AS clicks, COUNT(DISTINCT visitor_id)::int AS visitors
+    FROM page_events
+    WHERE page_id = ${pageId} AND event_type = ${PAGE_EVENT_TYPES.BUTTON_CLICK} ${rangeSql(range)}
+    GROUP BY component_id
+    ORDER BY clicks DESC, component_id
+    LIMIT 10
+  `;
+
+  // Funnel per form: page viewers → visitors who tried to submit → visitors who succeeded
+  const forms = await prisma.$queryRaw<{
+    component_id: string;
+    attempts: number;
+    successes: number;
+    failures: number;
+    attempted_visitors: number;
+    succeeded_visitors: number;
+  }[]>`
+    SELECT
+      component_id,
+      COUNT(*) FILTER (WHERE event_type = ${PAGE_EVENT_TYPES.FORM_SUBMIT})::int AS attempts,
+      COUNT(*) FILTER (WHERE event_type = ${PAGE_EVENT_TYPES.FORM_SUCCESS})::int AS successes,
+      COUNT(*) FILTER (WHERE event_type = ${PAGE_EVENT_TYPES.FORM_FAILURE})::int AS failures,
+      COUNT(DISTINCT visitor_id) FILTER (WHERE event_type = ${PAGE_EVENT_TYPES.FORM_SUBMIT})::int AS attempted_visitors,
+      COUNT(DISTINCT visitor_id) FILTER (WHERE event_type = ${PAGE_EVENT_TYPES.FORM_SUCCESS})::int AS succeeded_visitors
+    FROM page_events
+    WHERE page_id = ${pageId}
+      AND event_type IN (${PAGE_EVENT_TYPES.FORM_SUBMIT}, ${PAGE_EVENT_TYPES.FORM_SUCCESS}, ${PAGE_EVENT_TYPES.FORM_FAILURE})
+      ${rangeSql(range)}
+    GROUP BY component_id
+    ORDER BY attempts DESC, component_id
+  `;
+
+  const [viewers] = await prisma.$queryRaw<{ visitors: number }[]>`
+    SELECT COUNT(DISTINCT visitor_id)::int AS visitors
+    FROM page_events
+    WHERE page_id = ${pageId} AND event_type = ${PAGE_EVENT_TYPES.PAGE_VIEW} ${rangeSql(range)}
+  `;
+
+  return {
+    traffic,
+    buttons,
+    forms: forms.map((form) => ({ ...form, viewed_visitors: viewers.visitors }))
+  };
+};
@@ -11,6 +11,31 @@ export const AUDIT_TYPES = {
   CREATE_USER: 'CREATE_USER',
   EDIT_USER: 'EDIT_USER',
   DELETE_USER: 'DELETE_USER',
+
+  // Page Configs
+  CREATE_PAGE: 'CREATE_PAGE',
+  EDIT_PAGE: 'EDIT_PAGE',
+  DELETE_PAGE: 'DELETE_PAGE',
+  ROLLBACK_PAGE: 'ROLLBACK_PAGE',
+  PUBLISH_PAGE: 'PUBLISH_PAGE',
+  SCHEDULE_PAGE: 'SCHEDULE_PAGE',
+  UNPUBLISH_PAGE: 'UNPUBLISH_PAGE',
+  IMPORT_PAGE: 'IMPORT_PAGE',
+  RESET_EXPERIMENT: 'RESET_EXPERIMENT',
+
+  // Fragments
+  CREATE_FRAGMENT: 'CREATE_FRAGMENT',
+  EDIT_FRAGMENT: 'EDIT_FRAGMENT',
+  DELETE_FRAGMENT: 'DELETE_FRAGMENT',
+
+  // Themes
+  CREATE_THEME: 'CREATE_THEME',
+  EDIT_THEME: 'EDIT_THEME',
+  DELETE_THEME: 'DELETE_THEME',
+
+  // Translations
+  EDIT_TRANSLATIONS: 'EDIT_TRANSLATIONS',
+  DELETE_TRANSLATIONS: 'DELETE_TRANSLATIONS',
 } as const;
 
 type AuditActionType = typeof AUDIT_TYPES[keyof typeof AUDIT_TYPES];
@@ -0,0 +1,103 @@
+import { DataSource } from '../config/dataSources.js';
+
+export interface ProxyRequest {
+  method: string;
+  path: string;
+  search: string;
+  body?: unknown;
+}
+
+export type ProxyResult =
+  | { ok: true; status: number; body: Buffer }
+  | { ok: false; status: number; message: string };
+
+// Build the upstream URL. Each path segment is encoded on its own, so a request
+// can't climb out of the source's base path with "..", "%2F" and the like.
+export const buildUpstreamUrl = (source: DataSource, path: string, search: string): URL => {
+  const encodedPath = path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => encodeURIComponent(segment))
+    .join('/');
+
+  const url = new URL(`${source.baseUrl}/${encodedPath}`);
+  new URLSearchParams(search).forEach((value, key) => url.searchParams.append(key, value));
+
+  // Query params from the source definition (e.g. API keys) always win
+  for (const [key, value] of Object.entries(source.query)) {
+    url.searchParams.set(key, value);
+  }
+
+  return url;
+};
+
+// application/json, or a JSON-based type such as application/problem+json
+const isJsonContentType = (contentType: string | null) =>
+  contentType !== null && /^application\/(?:[\w.-]+\+)?json\s*(?:;|$)/i.test(contentType);
+
+// Read a response body, giving up once it grows past `limit` bytes
+const readLimited = async (response: Response, limit: number): Promise<Buffer | null> => {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > limit) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+};
+
+// Forward a request to a data source with its configured headers, timeout and size limit
+export const proxyRequest = async (source: DataSource, request: ProxyRequest): Promise<ProxyResult> => {
+  const url = buildUpstreamUrl(source, request.path, request.search);
+  const hasBody = !['GET', 'DELETE'].includes(request.method) && request.body !== undefined;
+
+  try {
+    const response = await fetch(url, {
+      method: request.method,
+      headers: {
+        Accept: 'application/json',
+        ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+        ...source.headers
+      },
+      body: hasBody ? JSON.stringify(request.body) : undefined,
+      redirect: 'error',
+      signal: AbortSignal.timeout(source.timeoutMs)
+    });
+
+    const body = await readLimited(response, source.maxResponseBytes);
+    if (!body) {
+      return { ok: false, status: 502, message: 'Data source response too large' };
+    }
+
+    // Responses are relayed from this app's origin, so anything but JSON (HTML in
+    // particular) is refused. Empty bodies, e.g. of a 204, need no content type.
+    if (body.length > 0 && !isJsonContentType(response.headers.get('content-type'))) {
+      return { ok: false, status: 502, message: 'Data source did not respond with JSON' };
+    }
+
+    return { ok: true, status: response.status, body };
+  } catch (error: any) {
+    if (error?.name === 'TimeoutError') {
+      return { ok: false, status: 504, message: 'Data source timed out' };
+    }
+    console.error('Error calling data source:', error);
+    return { ok: false, status: 502, message: 'Error calling data source' };
+  }
+};
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import prisma from '../config/prisma.js';
+import { Component, Page, PageVariant } from '../models/PageConfig.js';
+
+// Experiment event types
+export const EXPERIMENT_EVENTS = {
+  EXPOSURE: 'exposure',
+  CONVERSION: 'conversion',
+} as const;
+
+type ExperimentEventType = typeof EXPERIMENT_EVENTS[keyof typeof EXPERIMENT_EVENTS];
+
+// Pick a visitor's variant. The same page and visitor always hash to the same
+// point in [0, 1), so assignments are stable without being stored.
+export const pickVariant = (variants: PageVariant[], pageId: string, visitorId: string): PageVariant => {
+  const hash = crypto.createHash('sha256').update(`${pageId}:${visitorId}`).digest();
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let point = (hash.readUInt32BE(0) / 2 ** 32) * totalWeight;
+
+  for (const variant of variants) {
+    point -= variant.weight;
+    if (point < 0) return variant;
+  }
+  return variants[variants.length - 1];
+};
+
+// The page as served for one variant. Other variants are never sent to the client.
+export const variantPage = (page: Page, variant: PageVariant): Page => {
+  const { variants, ...rest } = page;
+  return { ...rest, components: variant.components ?? page.components };
+};
+
+// Find a form component anywhere in a tree
+export const findForm = (components: Component[], id: string): Component | undefined => {
+  for (const component of components) {
+    if (component.id === id && component.type === 'form') return component;
+    const nested = findForm(component.children || [], id);
+    if (nested) return nested;
+  }
+  return undefined;
+};
+
+// Record an exposure or conversion
+export const recordExperimentEvent = async (
+  pageId: string,
+  variantId: string,
+  visitorId: string,
+  eventType: ExperimentEventType,
+  componentId?: string
+) => {
+  return prisma.pageExperimentEvent.create({
+    data: {
+      page_id: pageId,
+      variant_id: variantId,
+      visitor_id: visitorId,
+      event_type: eventType,
+      component_id: componentId
+    }
+  });
+};
+
+export interface VariantResult {
+  id: string;
+  // Weight in the published config; null for variants that have since been removed
+  weight: number | null;
+  exposures: number;
+  visitors: number;
+  conversions: number;
+  converted_visitors: number;
+  // Share of exposed visitors who converted, null before anyone was exposed
+  conversion_rate: number | null;
+}
+
+// Per-variant counts for a page. Variants from the given config come first,
+// followed by any that only appear in recorded events.
+export const getExperimentResults = async (pageId: string, variants: PageVariant[] = []): Promise<VariantResult[]> => {
+  const rows = await prisma.$queryRaw<{ variant_id: string; event_type: string; events: number; visitors: number }[]>`
+    SELECT variant_id, event_type, COUNT(*)::int AS events, COUNT(DISTINCT visitor_id)::int AS visitors
+    FROM page_experiment_events
+    WHERE page_id = ${pageId}
+    GROUP BY variant_id, event_type
+  `;
+
+  const variantIds = new Set([...variants.map((variant) => variant.id), ...rows.map((row) => row.variant_id)]);
+
+  return [...variantIds].map((id) => {
+    const count = (eventType: ExperimentEventType) =>
+      rows.find((row) => row.variant_id === id && row.event_type === eventType);
+    const exposures = count(EXPERIMENT_EVENTS.EXPOSURE);
+    const conversions = count(EXPERIMENT_EVENTS.CONVERSION);
+    const visitors = exposures?.visitors ?? 0;
+    const convertedVisitors = conversions?.visitors ?? 0;
+
+    return {
+      id,
+      weight: variants.find((variant) => variant.id === id)?.weight ?? null,
+      exposures: exposures?.events ?? 0,
+      visitors,
+      conversions: conversions?.events ?? 0,
+      converted_visitors: convertedVisitors,
+      conversion_rate: visitors > 0 ? convertedVisitors / visitors : null
+    };
+  });
+};
+
+// Clear a page's recorded events, e.g. before starting a new experiment
+export const resetExperimentResults = async (pageId: string) => {
+  return prisma.pageExperimentEvent.deleteMany({
+    where: { page_id: pageId }
+  });
+};
@@ -0,0 +1,260 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.js';
+import { Component, ValidationError, isPlainObject } from '../models/PageConfig.js';
+
+// Inbox states of a stored submission
+export const SUBMISSION_STATUSES = ['new', 'handled', 'spam'] as const;
+
+export type SubmissionStatus = typeof SUBMISSION_STATUSES[number];
+
+// Which stored submissions to list or export
+export interface SubmissionFilter {
+  pageId: string;
+  formId: string;
+  status?: SubmissionStatus;
+  search?: string;
+}
+
+export interface SubmissionRow {
+  id: number;
+  data: Record<string, unknown>;
+  status: SubmissionStatus;
+  variant_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Longest value checked against a field pattern. Longer values are refused
+// without running the pattern, which limits the time a slow pattern can take.
+export const PATTERN_INPUT_LIMIT = 1000;
+
+// Whether a form posts to the built-in store rather than an API
+export const isStoredForm = (form: Component | undefined) => form?.props.submit?.store === true;
+
+// Check one value against its field definition. Mirrors validateField in
+// client/src/utils/formValidation.ts, so a form that passes in the browser passes here.
+const validateValue = (field: Record<string, any>, value: unknown): string | null => {
+  const label = field.label || field.id;
+  const messages = field.messages || {};
+
+  if (field.type === 'checkbox') {
+    if (value !== undefined && typeof value !== 'boolean') {
+      return `${label} must be true or false`;
+    }
+    return field.required && value !== true ? messages.required || `${label} is required` : null;
+  }
+
+  // Required check
+  if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+    return field.required ? messages.required || `${label} is required` : null;
+  }
+
+  // Number fields arrive as numbers, everything else as text
+  if (field.type === 'number') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return messages.format || `${label} must be a number`;
+    }
+    if (field.min !== undefined && value < field.min) {
+      return messages.min || `${label} must be at least ${field.min}`;
+    }
+    if (field.max !== undefined && value > field.max) {
+      return messages.max || `${label} must be at most ${field.max}`;
+    }
+  } else if (typeof value !== 'string') {
+    return `${label} must be text`;
+  }
+  const text = String(value);
+
+  // Format checks
+  if (field.type === 'email' && !EMAIL_PATTERN.test(text)) {
+    return messages.format || 'Enter a valid email address';
+  }
+
+  // Select values arrive as strings (a DOM <select>), so numeric option values are compared as text
+  if (
+    field.type === 'select' &&
+    !(field.options || []).some((option: any) => option?.value !== undefined && String(option.value) === text)
+  ) {
+    return `${label} must be one of the listed options`;
+  }
+
+  // Per-field rules
+  if (field.minLength !== undefined && text.length < field.minLength) {
+    return messages.minLength || `${label} must be at least ${field.minLength} characters`;
+  }
+
+  if (field.maxLength !== undefined && text.length > field.maxLength) {
+    return messages.maxLength || `${label} must be at most ${field.maxLength} characters`;
+  }
+
+  if (field.pattern && text.length > PATTERN_INPUT_LIMIT) {
+    return messages.maxLength || `${label} must be at most ${PATTERN_INPUT_LIMIT} characters`;
+  }
+
+  if (field.pattern && !new RegExp(`^(?:${field.pattern})$`).test(text)) {
+    return messages.pattern || `${label} is not in the expected format`;
+  }
+
+  return null;
+};
+
+// Validate a submitted payload (field values keyed by field id) against the
+// form's field definitions. Returns the values to store and any field errors.
+export const validateSubmission = (fields: Record<string, any>[], body: unknown) => {
+  const data: Record<string, unknown> = {};
+  if (!isPlainObject(body)) {
+    return { data, errors: [{ path: '', message: 'Submission must be an object of field values' }] };
+  }
+
+  const errors: ValidationError[] = [];
+  const fieldIds = new Set(fields.map((field) => field.id));
+  for (const key of Object.keys(body)) {
+    if (!fieldIds.has(key)) {
+      errors.push({ path: key, message: `Unknown field "${key}"` });
+    }
+  }
+
+  for (const field of fields) {
+    const value = body[field.id];
+    // The client leaves out fields hidden by their visibleWhen condition
+    if (value === undefined && field.visibleWhen) continue;
+
+    const error = validateValue(field, value);
+    if (error) {
+      errors.push({ path: field.id, message: error });
+    } else if (value !== undefined) {
+      data[field.id] = value;
+    }
+  }
+
+  return { data, errors };
+};
+
+// Store a validated submission
+export const createSubmission = async (
+  pageId: string,
+  formId: string,
+  data: Record<string, unknown>,
+  visitorId: string,
+  variantId?: string
+) => {
+  return prisma.formSubmission.create({
+    data: {
+      page_id: pageId,
+      form_id: formId,
+      data: data as Prisma.InputJsonObject,
+      visitor_id: visitorId,
+      variant_id: variantId
+    }
+  });
+};
+
+// Escape LIKE wildcards so search terms match literally
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, '\\$&');
+
+// WHERE conditions for a filter. Search matches any field value, case-insensitively.
+const filterSql = ({ pageId, formId, status, search }: SubmissionFilter) => Prisma.sql`
+  page_id = ${pageId} AND form_id = ${formId}
+  ${status ? Prisma.sql`AND status = ${status}` : Prisma.empty}
+  ${search
+    ? Prisma.sql`AND EXISTS (
+        SELECT 1 FROM jsonb_each_text(data) AS field WHERE field.value ILIKE ${`%${escapeLike(search)}%`}
+      )`
+    : Prisma.empty}
+`;
+
+// One page of a form's submissions, newest first, with totals per status
+export const listSubmissions = async (filter: SubmissionFilter, page: number, limit: number) => {
+  const submissions = await prisma.$queryRaw<SubmissionRow[]>`
+    SELECT id, data, status, variant_id, created_at, updated_at
+    FROM form_submissions
+    WHERE ${filterSql(filter)}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${limit} OFFSET ${(page - 1) * limit}
+  `;
+
+  const [{ total }] = await prisma.$queryRaw<{ total: number }[]>`
+    SELECT COUNT(*)::int AS total FROM form_submissions WHERE ${filterSql(filter)}
+  `;
+
+  // Status totals ignore the status filter so the inbox can show them all
+  const statusRows = await prisma.formSubmission.groupBy({
+    by: ['status'],
+    where: { page_id: filter.pageId, form_id: filter.formId },
+    _count: { _all: true }
+  });
+  const counts = Object.fromEntries(SUBMISSION_STATUSES.map((status) => [status, 0]));
+  statusRows.forEach((row) => {
+    counts[row.status] = row._count._all;
+  });
+
+  return { submissions, total, counts };
+};
+
+// Every submission matching a filter, oldest first, for export
+export const exportSubmissions = async (filter: SubmissionFilter) => {
+  return prisma.$queryRaw<SubmissionRow[]>`
+    SELECT id, data, status, variant_id, created_at, updated_at
+    FROM form_submissions
+    WHERE ${filterSql(filter)}
+    ORDER BY created_at, id
+  `;
+};
+
+// Forms that have received submissions, most recent first
+export const getSubmissionForms = async () => {
+  const rows = await prisma.$queryRaw<{
+    page_id: string;
+    form_id: string;
+    total: number;
+    new: number;
+    last_submitted_at: Date;
+  }[]>`
+    SELECT
+      page_id,
+      form_id,
+      COUNT(*)::int AS total,
+      COUNT(*) FILTER (WHERE status = 'new')::int AS new,
+      MAX(created_at) AS last_submitted_at
+    FROM form_submissions
+    GROUP BY page_id, form_id
+    ORDER BY last_submitted_at DESC
+  `;
+
+  // Deleted pages keep their submissions, without a title
+  const pageConfigs = await prisma.pageConfig.findMany({
+    where: { page_id: { in: rows.map((row) => row.page_id) } },
+    select: { page_id: true, title: true }
+  });
+  const titles = new Map(pageConfigs.map((pageConfig) => [pageConfig.page_id, pageConfig.title]));
+
+  return rows.map((row) => ({ ...row, title: titles.get(row.page_id) ?? null }));
+};
+
+// Quote a CSV cell. Text that a spreadsheet would run as a formula is
+// prefixed with a single quote.
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV with one column per field id, in the order fields first appear
+export const toCsv = (submissions: SubmissionRow[]) => {
+  const fieldIds = [...new Set(submissions.flatMap((submission) => Object.keys(submission.data)))];
+  const rows = [
+    ['id', 'submitted_at', 'status', ...fieldIds],
+    ...submissions.map((submission) => [
+      submission.id,
+      submission.created_at.toISOString(),
+      submission.status,
+      ...fieldIds.map((fieldId) => submission.data[fieldId])
+    ])
+  ];
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,388 @@
+import prisma from '../config/prisma.js';
+import { Component, Page, ValidationError, isPlainObject, validateTree } from '../models/PageConfig.js';
+import { Fragment, toFragment } from '../models/Fragment.js';
+import { findPagesUsing } from './pageConfigService.js';
+
+type FragmentLoader = (fragmentId: string) => Promise<Fragment | null>;
+
+// Load fragments by ID, each at most once per loader
+const createLoader = (): FragmentLoader => {
+  const cache = new Map<string, Promise<Fragment | null>>();
+  return (fragmentId) => {
+    if (!cache.has(fragmentId)) {
+      cache.set(
+        fragmentId,
+        prisma.fragment.findUnique({ where: { fragment_id: fragmentId } }).then((record) => record && toFragment(record))
+      );
+    }
+    return cache.get(fragmentId)!;
+  };
+};
+
+// Copy a tree, merging prop overrides into the components they name.
+// Adds the IDs that were found to `found`.
+const applyOverrides = (
+  components: Component[],
+  overrides: Record<string, Record<string, any>>,
+  found: Set<string>
+): Component[] =>
+  components.map((component) => {
+    const props = overrides[component.id];
+    if (props) found.add(component.id);
+    return {
+      ...component,
+      ...(props && { props: { ...component.props, ...props } }),
+      ...(component.children && { children: applyOverrides(component.children, overrides, found) })
+    };
+  });
+
+// Separates an instance's ID from the IDs of the fragment's components, so
+// "pricing" including a fragment with "plans" gives "pricing__plans". Not ".",
+// which would split the ID in condition paths and {{form.<id>.<field>}} templates.
+export const FRAGMENT_ID_SEPARATOR = '__';
+
+// IDs of every component in a tree
+const collectIds = (components: Component[], ids: Set<string> = new Set()) => {
+  for (const component of components) {
+    ids.add(component.id);
+    if (component.children) collectIds(component.children, ids);
+  }
+  return ids;
+};
+
+// Copy a value, renaming the component IDs it references: refresh targets,
+// form/data condition paths and {{form.<id>}}/{{data.<id>}} templates
+const renameReferences = (value: unknown, rename: (id: string) => string): any => {
+  if (typeof value === 'string') {
+    return value.replace(/\{\{[^}]*\}\}/g, (expression) =>
+      expression.replace(/\b(form|data)\.([\w$-]+)/g, (_, root, id) => `${root}.${rename(id)}`)
+    );
+  }
+  if (Array.isArray(value)) return value.map((item) => renameReferences(item, rename));
+  if (!isPlainObject(value)) return value;
+
+  const result = Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renameReferences(item, rename)]));
+  if (typeof value.refresh === 'string') {
+    result.refresh = rename(value.refresh);
+  } else if (Array.isArray(value.refresh)) {
+    result.refresh = value.refresh.map((target: unknown) => (typeof target === 'string' ? rename(target) : target));
+  }
+  if ((value.source === 'form' || value.source === 'data') && typeof value.path === 'string') {
+    const [id, ...rest] = value.path.split('.');
+    result.path = [rename(id), ...rest].join('.');
+  }
+  return result;
+};
+
+// Copy a fragment's expanded components into an instance's ID namespace, along with
+// the references between them. References to other IDs are left alone.
+const namespaceComponents = (components: Component[], instanceId: string): Component[] => {
+  const localIds = collectIds(components);
+  const rename = (id: string) => (localIds.has(id) ? `${instanceId}${FRAGMENT_ID_SEPARATOR}${id}` : id);
+
+  const copy = (list: Component[]): Component[] =>
+    list.map(({ id, type, children, ...rest }) => ({
+      id: rename(id),
+      type,
+      ...renameReferences(rest, rename),
+      ...(children && { children: copy(children) })
+    }));
+
+  return copy(components);
+};
+
+interface ExpandState {
+  load: FragmentLoader;
+  errors: ValidationError[];
+  // Component ID → where it is first used, to keep IDs unique once fragments are expanded
+  seenIds: Map<string, string>;
+}
+
+const checkId = (state: ExpandState, id: string, path: string, firstPath: string) => {
+  if (state.seenIds.has(id)) {
+    state.errors.push({
+      path,
+      message: `Component id "${id}" is used more than once after including fragments (first at ${state.seenIds.get(id)})`
+    });
+  } else {
+    state.seenIds.set(id, firstPath);
+  }
+};
+
+// Replace fragment instances with containers holding the fragment's components,
+// with IDs prefixed by the instance's ID (see FRAGMENT_ID_SEPARATOR). `chain` lists
+// the fragments being expanded, to catch cycles. Problems inside an included fragment
+// are reported at `at`, the path of the outermost instance's ref. IDs are checked for
+// uniqueness at the outermost level, where they are final. Broken instances are left out.
+const expand = async (
+  components: Component[],
+  path: string,
+  chain: string[],
+  state: ExpandState,
+  at?: string
+): Promise<Component[]> => {
+  const result: Component[] = [];
+
+  for (const [index, component] of components.entries()) {
+    const componentPath = `${path}[${index}]`;
+
+    if (at === undefined) {
+      checkId(state, component.id, `${componentPath}.id`, componentPath);
+    }
+
+    if (component.type !== 'fragment') {
+      result.push(
+        component.children
+          ? { ...component, children: await expand(component.children, `${componentPath}.children`, chain, state, at) }
+          : component
+      );
+      continue;
+    }
+
+    const ref = component.ref as string;
+    const refPath = at ?? `${componentPath}.ref`;
+    const includedBy = chain.length > 0 ? ` (included by "${chain[chain.length - 1]}")` : '';
+
+    if (chain.includes(ref)) {
+      state.errors.push({ path: refPath, message: `Fragment cycle: ${[...chain, ref].join(' → ')}` });
+      continue;
+    }
+
+    const fragment = await state.load(ref);
+    if (!fragment) {
+      state.errors.push({ path: refPath, message: `Unknown fragment "${ref}"${includedBy}` });
+      continue;
+    }
+
+    const expanded = await expand(fragment.components, `${componentPath}.children`, [...chain, ref], state, refPath);
+
+    // Overrides name components by their IDs within the fragment
+    const found = new Set<string>();
+    const overrides = component.overrides || {};
+    const children = namespaceComponents(applyOverrides(expanded, overrides, found), component.id);
+    const { ref: _, overrides: __, ...instance } = component;
+    result.push({ ...instance, type: 'container', props: {}, children });
+
+    for (const targetId of Object.keys(overrides)) {
+      if (!found.has(targetId)) {
+        state.errors.push({
+          path: at ?? `${componentPath}.overrides.${targetId}`,
+          message: `Fragment "${ref}" has no component "${targetId}"`
+        });
+      }
+    }
+
+    if (at === undefined) {
+      for (const id of collectIds(children)) {
+        checkId(state, id, refPath, refPath);
+      }
+    }
+  }
+
+  return result;
+};
+
+// Path in the unexpanded tree for an error found in an expanded one: inside a
+// fragment instance, the instance's ref
+const toSourcePath = (components: Component[], root: string, path: string) => {
+  let list: Component[] | undefined = components;
+  let sourcePath = root;
+  let rest = path.slice(root.length);
+
+  for (let match = rest.match(/^\[(\d+)\]/); match && list; match = rest.match(/^\[(\d+)\]/)) {
+    const component: Component | undefined = list[Number(match[1])];
+    sourcePath += match[0];
+    rest = rest.slice(match[0].length);
+    if (component?.type === 'fragment') return `${sourcePath}.ref`;
+    if (!rest.startsWith('.children')) break;
+    list = component?.children;
+    sourcePath += '.children';
+    rest = rest.slice('.children'.length);
+  }
+
+  return path;
+};
+
+// Check the references of a tree once its fragments are expanded: a fragment's
+// components can only be referenced by their namespaced IDs
+const validateExpandedTree = (
+  components: Component[],
+  expanded: Component[],
+  path: string,
+  errors: ValidationError[]
+) => {
+  const treeErrors: ValidationError[] = [];
+  validateTree(expanded, path, treeErrors);
+  for (const error of treeErrors) {
+    errors.push({ ...error, path: toSourcePath(components, path, error.path) });
+  }
+};
+
+// Expand every fragment instance in a page, variants included
+const expandPage = async (page: Page, load: FragmentLoader, errors: ValidationError[]): Promise<Page> => {
+  const components = await expand(page.components, 'components', [], { load, errors, seenIds: new Map() });
+
+  const variants = page.variants && await Promise.all(
+    page.variants.map(async (variant, index) =>
+      variant.components
+        ? {
+            ...variant,
+            components: await expand(variant.components, `variants[${index}].components`, [], {
+              load,
+              errors,
+              seenIds: new Map()
+            })
+          }
+        : variant
+    )
+  );
+
+  return { ...page, components, ...(variants && { variants }) };
+};
+
+// Fragment IDs referenced directly in a component tree
+export const collectRefs = (components: unknown, refs: Set<string> = new Set()) => {
+  if (!Array.isArray(components)) return refs;
+  for (const component of components) {
+    if (component?.type === 'fragment' && typeof component.ref === 'string') {
+      refs.add(component.ref);
+    }
+    collectRefs(component?.children, refs);
+  }
+  return refs;
+};
+
+// Fragment IDs referenced directly in a stored page config, variants included
+const pageRefs = (config: any) => {
+  const refs = collectRefs(config?.components);
+  if (Array.isArray(config?.variants)) {
+    config.variants.forEach((variant: any) => collectRefs(variant?.components, refs));
+  }
+  return refs;
+};
+
+// Check the fragments a (valid) page includes: they exist, don't include each other in
+// a cycle, contain the components named in overrides and don't reuse the page's IDs.
+// References to components inside fragments are checked against the expanded page.
+export const validatePageFragments = async (page: Page): Promise<ValidationError[]> => {
+  if (pageRefs(page).size === 0) return [];
+
+  const errors: ValidationError[] = [];
+  const expanded = await expandPage(page, createLoader(), errors);
+  if (errors.length > 0) return errors;
+
+  validateExpandedTree(page.components, expanded.components, 'components', errors);
+  page.variants?.forEach((variant, index) => {
+    const expandedVariant = expanded.variants?.[index];
+    if (variant.components && expandedVariant?.components) {
+      validateExpandedTree(variant.components, expandedVariant.components, `variants[${index}].components`, errors);
+    }
+  });
+  return errors;
+};
+
+// The same checks for a (valid) fragment's own components
+export const validateFragmentRefs = async (fragment: Fragment): Promise<ValidationError[]> => {
+  const errors: ValidationError[] = [];
+  const expanded = await expand(fragment.components, 'components', [fragment.fragmentId], {
+    load: createLoader(),
+    errors,
+    seenIds: new Map()
+  });
+  if (errors.length === 0 && collectRefs(fragment.components).size > 0) {
+    validateExpandedTree(fragment.components, expanded, 'components', errors);
+  }
+  return errors;
+};
+
+// Expand the fragments of a page before it is served. A fragment can change or
+// disappear after the page was published, so broken instances are left out and logged.
+export const resolvePageFragments = async (page: Page): Promise<Page> => {
+  if (pageRefs(page).size === 0) return page;
+
+  const errors: ValidationError[] = [];
+  const resolved = await expandPage(page, createLoader(), errors);
+  if (errors.length > 0) {
+    console.warn(`Fragments of page "${page.pageId}" could not be fully resolved:`, errors);
+  }
+  return resolved;
+};
+
+// IDs of published pages that include a fragment edited since they were published.
+// Their snapshot still has the fragment as it was, until they are published again.
+export const findPagesWithFragmentChanges = async (): Promise<Set<string>> => {
+  const fragments = await prisma.fragment.findMany({
+    select: { fragment_id: true, components: true, updated_at: true }
+  });
+  const byId = new Map(fragments.map((fragment) => [fragment.fragment_id, fragment]));
+
+  // Latest edit of a fragment or any fragment it includes
+  const lastEdit = (fragmentId: string, seen: Set<string> = new Set()): number => {
+    const fragment = byId.get(fragmentId);
+    if (!fragment || seen.has(fragmentId)) return 0;
+    seen.add(fragmentId);
+    return Math.max(
+      fragment.updated_at.getTime(),
+      ...[...collectRefs(fragment.components)].map((ref) => lastEdit(ref, seen))
+    );
+  };
+
+  const pageConfigs = await prisma.pageConfig.findMany({
+    where: { published_version: { not: null } },
+    select: { id: true, page_id: true, published_version: true, published_at: true, published_config_json: true }
+  });
+  // Pages published before snapshots were stored expand their fragments when served
+  const snapshotted = pageConfigs.filter((pageConfig) => pageConfig.published_config_json !== null);
+
+  const publishedVersions = await prisma.pageConfigVersion.findMany({
+    where: {
+      OR: snapshotted.map((pageConfig) => ({
+        page_config_id: pageConfig.id,
+        version: pageConfig.published_version as number
+      }))
+    },
+    select: { page_config_id: true, config_json: true }
+  });
+  const publishedConfigs = new Map(publishedVersions.map((version) => [version.page_config_id, version.config_json]));
+
+  return new Set(
+    snapshotted
+      .filter((pageConfig) =>
+        [...pageRefs(publishedConfigs.get(pageConfig.id))].some(
+          (ref) => lastEdit(ref) > (pageConfig.published_at?.getTime() ?? 0)
+        )
+      )
+      .map((pageConfig) => pageConfig.page_id)
+  );
+};
+
+// Pages and fragments that include a fragment, directly or through other fragments.
+// `draft` and `published` say which of a page's versions include it.
+export const getFragmentUsage = async (fragmentId: string) => {
+  const fragments = await prisma.fragment.findMany({ select: { fragment_id: true, components: true } });
+
+  // Follow "is included by" links out from the fragment
+  const includedBy = new Map<string, string[]>();
+  for (const fragment of fragments) {
+    for (const ref of collectRefs(fragment.components)) {
+      includedBy.set(ref, [...(includedBy.get(ref) || []), fragment.fragment_id]);
+    }
+  }
+  const affected = new Set([fragmentId]);
+  const queue = [fragmentId];
+  while (queue.length > 0) {
+    for (const includer of includedBy.get(queue.shift() as string) || []) {
+      if (!affected.has(includer)) {
+        affected.add(includer);
+        queue.push(includer);
+      }
+    }
+  }
+
+  const pages = await findPagesUsing((config) => [...pageRefs(config)].some((ref) => affected.has(ref)));
+
+  return {
+    fragments: [...affected].filter((id) => id !== fragmentId).sort(),
+    pages
+  };
+};
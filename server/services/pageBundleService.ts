@@ -0,0 +1,215 @@
+import prisma from '../config/prisma.js';
+import {
+  Page,
+  RESERVED_PAGE_IDS,
+  ValidationError,
+  toPage,
+  validatePageConfig
+} from '../models/PageConfig.js';
+import { createPageConfig, publishPageConfig, updatePageConfig } from './pageConfigService.js';
+import { logUserAction, AUDIT_TYPES } from './auditService.js';
+import { FieldChange, diffFields } from './pageDiffService.js';
+import { validatePageFragments } from './fragmentService.js';
+import { validatePageTheme } from './themeService.js';
+
+// Identifies bundle files so unrelated JSON is rejected early
+export const BUNDLE_FORMAT = 'config2page-page-bundle';
+export const BUNDLE_VERSION = 1;
+
+// Portable set of page configs for moving pages between instances
+export interface PageBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  pages: Page[];
+}
+
+// What to do when an imported pageId already exists
+export const CONFLICT_STRATEGIES = ['skip', 'overwrite', 'rename'] as const;
+export type ConflictStrategy = typeof CONFLICT_STRATEGIES[number];
+
+export interface ImportPlanItem {
+  pageId: string;
+  targetPageId: string;
+  action: 'create' | 'update' | 'skip' | 'unchanged';
+  changes: FieldChange[];
+}
+
+export interface ImportResult extends ImportPlanItem {
+  version?: number;
+}
+
+// Export the current drafts of the given pages (or every page) as a bundle.
+// Returns the bundle and any requested page IDs that don't exist.
+export const exportPageBundle = async (pageIds?: string[]) => {
+  const pageConfigs = await prisma.pageConfig.findMany({
+    where: pageIds ? { page_id: { in: pageIds } } : undefined,
+    orderBy: { page_id: 'asc' }
+  });
+
+  const found = new Set(pageConfigs.map((pageConfig) => pageConfig.page_id));
+  const bundle: PageBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    pages: pageConfigs.map(toPage)
+  };
+
+  return {
+    bundle,
+    missing: (pageIds || []).filter((pageId) => !found.has(pageId))
+  };
+};
+
+// Check a bundle's envelope and validate every page in it
+export const validateBundle = (bundle: any): ValidationError[] => {
+  if (typeof bundle !== 'object' || bundle === null || bundle.format !== BUNDLE_FORMAT) {
+    return [{ path: 'format', message: `Not a page bundle (expected format "${BUNDLE_FORMAT}")` }];
+  }
+  if (bundle.version !== BUNDLE_VERSION) {
+    return [{ path: 'version', message: `Unsupported bundle version ${bundle.version}` }];
+  }
+  if (!Array.isArray(bundle.pages)) {
+    return [{ path: 'pages', message: 'Must be an array of pages' }];
+  }
+
+  const errors: ValidationError[] = [];
+  const seen = new Set<string>();
+
+  bundle.pages.forEach((page: any, index: number) => {
+    for (const error of validatePageConfig(page)) {
+      errors.push({ path: `pages[${index}].${error.path}`, message: error.message });
+    }
+    if (seen.has(page?.pageId)) {
+      errors.push({ path: `pages[${index}].pageId`, message: `Duplicate page "${page.pageId}" in bundle` });
+    }
+    seen.add(page?.pageId);
+  });
+
+  return errors;
+};
+
+// Check that the fragments and themes the pages of a (valid) bundle use exist on
+// this instance. Neither is part of a bundle, so they must be created first.
+export const validateBundleReferences = async (bundle: PageBundle): Promise<ValidationError[]> => {
+  const errors: ValidationError[] = [];
+  for (const [index, page] of bundle.pages.entries()) {
+    for (const error of [...(await validatePageFragments(page)), ...(await validatePageTheme(page))]) {
+      errors.push({ path: `pages[${index}].${error.path}`, message: error.message });
+    }
+  }
+  return errors;
+};
+
+// First free "<pageId>-imported[-n]" ID
+const findFreePageId = (pageId: string, taken: Set<string>) => {
+  let candidate = `${pageId}-imported`;
+  for (let n = 2; taken.has(candidate) || RESERVED_PAGE_IDS.includes(candidate); n++) {
+    candidate = `${pageId}-imported-${n}`;
+  }
+  return candidate;
+};
+
+// Work out what importing a (valid) bundle would do, without changing anything
+export const planImport = async (
+  bundle: PageBundle,
+  strategy: ConflictStrategy
+): Promise<ImportPlanItem[]> => {
+  const existing = await prisma.pageConfig.findMany();
+  const existingById = new Map(existing.map((pageConfig) => [pageConfig.page_id, toPage(pageConfig)]));
+  const taken = new Set(existingById.keys());
+
+  return bundle.pages.map((page) => {
+    const current = existingById.get(page.pageId);
+
+    if (!current) {
+      taken.add(page.pageId);
+      return { pageId: page.pageId, targetPageId: page.pageId, action: 'create', changes: [] };
+    }
+
+    const changes = diffFields(current, page);
+
+    if (changes.length === 0) {
+      return { pageId: page.pageId, targetPageId: page.pageId, action: 'unchanged', changes };
+    }
+
+    switch (strategy) {
+      case 'overwrite':
+        return { pageId: page.pageId, targetPageId: page.pageId, action: 'update', changes };
+      case 'rename': {
+        const targetPageId = findFreePageId(page.pageId, taken);
+        taken.add(targetPageId);
+        return { pageId: page.pageId, targetPageId, action: 'create', changes: [] };
+      }
+      default:
+        return { pageId: page.pageId, targetPageId: page.pageId, action: 'skip', changes };
+    }
+  });
+};
+
+// Apply an import plan. Each page is saved as a new version with a change note,
+// and optionally published straight away.
+export const applyImport = async (
+  bundle: PageBundle,
+  plan: ImportPlanItem[],
+  authorId?: number,
+  publish: boolean = false
+): Promise<ImportResult[]> => {
+  const results: ImportResult[] = [];
+
+  for (const [index, item] of plan.entries()) {
+    if (item.action !== 'create' && item.action !== 'update') {
+      results.push(item);
+      continue;
+    }
+
+    const page = { ...bundle.pages[index], pageId: item.targetPageId };
+    const changeNote = item.targetPageId === item.pageId
+      ? 'Imported from bundle'
+      : `Imported from bundle as a copy of "${item.pageId}"`;
+
+    const pageConfig = item.action === 'create'
+      ? await createPageConfig(page, authorId, changeNote)
+      : await updatePageConfig(page.pageId, page, authorId, changeNote);
+
+    if (pageConfig && publish) {
+      await publishPageConfig(pageConfig.page_id, pageConfig.current_version);
+    }
+
+    results.push({ ...item, version: pageConfig?.current_version });
+  }
+
+  return results;
+};
+
+// Write an IMPORT_PAGE audit entry for every page an import created or updated
+export const logImportResults = async (
+  actorId: number,
+  bundle: PageBundle,
+  results: ImportResult[],
+  ipAddress?: string
+) => {
+  for (const [index, result] of results.entries()) {
+    if (result.action !== 'create' && result.action !== 'update') continue;
+
+    await logUserAction(
+      actorId,
+      AUDIT_TYPES.IMPORT_PAGE,
+      undefined,
+      {
+        page_details: {
+          page_id: result.targetPageId,
+          title: bundle.pages[index].title,
+          version: result.version
+        },
+        import_details: {
+          action: result.action,
+          source_page_id: result.pageId,
+          exported_at: bundle.exported_at
+        },
+        ...(result.changes.length > 0 ? { changed_fields: result.changes.map(({ field }) => field) } : {})
+      },
+      ipAddress
+    );
+  }
+};
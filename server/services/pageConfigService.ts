@@ -0,0 +1,373 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/prisma.js';
+import { Page, PageConfigRecord, toPage, toPageConfigData } from '../models/PageConfig.js';
+import { resolvePageFragments } from './fragmentService.js';
+
+// Author fields included with each version
+const authorSelect = {
+  select: { id: true, first_name: true, last_name: true, email: true }
+};
+
+// Create a page config together with its first version.
+// `yamlSource` keeps the original text (with comments) for configs authored in YAML.
+export const createPageConfig = async (
+  page: Page,
+  authorId?: number,
+  changeNote?: string,
+  yamlSource: string | null = null
+) => {
+  const data = toPageConfigData(page);
+
+  return prisma.pageConfig.create({
+    data: {
+      ...data,
+      yaml_source: yamlSource,
+      current_version: 1,
+      versions: {
+        create: {
+          version: 1,
+          title: data.title,
+          config_json: data.config_json,
+          yaml_source: yamlSource,
+          author_id: authorId,
+          change_note: changeNote
+        }
+      }
+    }
+  });
+};
+
+// Save a new version of an existing page config and make it current.
+// Returns null if the page does not exist.
+export const updatePageConfig = async (
+  pageId: string,
+  page: Page,
+  authorId?: number,
+  changeNote?: string,
+  yamlSource: string | null = null
+) => {
+  const data = toPageConfigData(page);
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.pageConfig.findUnique({
+      where: { page_id: pageId }
+    });
+
+    if (!existing) return null;
+
+    const version = existing.current_version + 1;
+
+    await tx.pageConfigVersion.create({
+      data: {
+        page_config_id: existing.id,
+        version,
+        title: data.title,
+        config_json: data.config_json,
+        yaml_source: yamlSource,
+        author_id: authorId,
+        change_note: changeNote
+      }
+    });
+
+    return tx.pageConfig.update({
+      where: { id: existing.id },
+      data: {
+        title: data.title,
+        config_json: data.config_json,
+        yaml_source: yamlSource,
+        current_version: version
+      }
+    });
+  });
+};
+
+// List versions of a page, newest first (without the config bodies)
+export const listPageConfigVersions = async (pageConfigId: string) => {
+  return prisma.pageConfigVersion.findMany({
+    where: { page_config_id: pageConfigId },
+    select: {
+      version: true,
+      title: true,
+      change_note: true,
+      created_at: true,
+      author: authorSelect
+    },
+    orderBy: { version: 'desc' }
+  });
+};
+
+// Get a single version of a page, including its config
+export const getPageConfigVersion = async (pageConfigId: string, version: number) => {
+  return prisma.pageConfigVersion.findUnique({
+    where: {
+      page_config_id_version: { page_config_id: pageConfigId, version }
+    },
+    include: { author: authorSelect }
+  });
+};
+
+// Get a page as it was saved in a version (defaults to the current draft).
+// Returns null if the page or version does not exist.
+export const getPageAtVersion = async (pageId: string, version?: number) => {
+  const pageConfig = await prisma.pageConfig.findUnique({
+    where: { page_id: pageId }
+  });
+
+  if (!pageConfig) return null;
+
+  const pageVersion = await getPageConfigVersion(pageConfig.id, version ?? pageConfig.current_version);
+  if (!pageVersion) return null;
+
+  return {
+    version: pageVersion.version,
+    page: toPage({ ...pageConfig, title: pageVersion.title, config_json: pageVersion.config_json })
+  };
+};
+
+// Make an old version current again by saving a copy of it as a new version.
+// Versions are never modified, so the history keeps both the original and the rollback.
+export const rollbackPageConfig = async (
+  pageId: string,
+  version: number,
+  authorId?: number,
+  changeNote?: string
+) => {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.pageConfig.findUnique({
+      where: { page_id: pageId }
+    });
+
+    if (!existing) return null;
+
+    const target = await tx.pageConfigVersion.findUnique({
+      where: {
+        page_config_id_version: { page_config_id: existing.id, version }
+      }
+    });
+
+    if (!target) return null;
+
+    const newVersion = existing.current_version + 1;
+
+    await tx.pageConfigVersion.create({
+      data: {
+        page_config_id: existing.id,
+        version: newVersion,
+        title: target.title,
+        config_json: target.config_json as object,
+        yaml_source: target.yaml_source,
+        author_id: authorId,
+        change_note: changeNote || `Rollback to version ${version}`
+      }
+    });
+
+    return tx.pageConfig.update({
+      where: { id: existing.id },
+      data: {
+        title: target.title,
+        config_json: target.config_json as object,
+        yaml_source: target.yaml_source,
+        current_version: newVersion
+      }
+    });
+  });
+};
+
+// Get the published version of a page as served to visitors.
+// Returns null if the page does not exist or is not published.
+export const getPublishedPage = async (pageId: string) => {
+  const pageConfig = await prisma.pageConfig.findUnique({
+    where: { page_id: pageId }
+  });
+
+  if (!pageConfig || pageConfig.published_version === null) return null;
+
+  const published = await prisma.pageConfigVersion.findUnique({
+    where: {
+      page_config_id_version: {
+        page_config_id: pageConfig.id,
+        version: pageConfig.published_version
+      }
+    }
+  });
+
+  if (!published) return null;
+
+  // Pages published before snapshots were stored expand their fragments when served
+  return toPage({
+    ...pageConfig,
+    title: published.title,
+    config_json: pageConfig.published_config_json ?? published.config_json
+  });
+};
+
+// Config of a version with its fragments expanded, stored when the version is
+// published. Returns null if the version does not exist.
+const snapshotVersion = async (pageConfig: PageConfigRecord, version: number) => {
+  const pageVersion = await getPageConfigVersion(pageConfig.id, version);
+  if (!pageVersion) return null;
+
+  const page = await resolvePageFragments(
+    toPage({ ...pageConfig, title: pageVersion.title, config_json: pageVersion.config_json })
+  );
+  return toPageConfigData(page).config_json;
+};
+
+// Publish a version of a page immediately (defaults to the current draft).
+// Clears any pending scheduled publish. Returns null if the page or version does not exist.
+export const publishPageConfig = async (pageId: string, version?: number) => {
+  const pageConfig = await prisma.pageConfig.findUnique({
+    where: { page_id: pageId }
+  });
+
+  if (!pageConfig) return null;
+
+  const versionToPublish = version ?? pageConfig.current_version;
+  const snapshot = await snapshotVersion(pageConfig, versionToPublish);
+  if (!snapshot) return null;
+
+  return prisma.pageConfig.update({
+    where: { id: pageConfig.id },
+    data: {
+      published_version: versionToPublish,
+      published_at: new Date(),
+      published_config_json: snapshot,
+      scheduled_version: null,
+      scheduled_publish_at: null,
+      scheduled_by: null
+    }
+  });
+};
+
+// Schedule a version of a page to be published at a future time.
+// Replaces any earlier schedule. Returns null if the page or version does not exist.
+export const schedulePublish = async (
+  pageId: string,
+  publishAt: Date,
+  scheduledBy?: number,
+  version?: number
+) => {
+  const pageConfig = await prisma.pageConfig.findUnique({
+    where: { page_id: pageId }
+  });
+
+  if (!pageConfig) return null;
+
+  const versionToPublish = version ?? pageConfig.current_version;
+  const exists = await getPageConfigVersion(pageConfig.id, versionToPublish);
+  if (!exists) return null;
+
+  return prisma.pageConfig.update({
+    where: { id: pageConfig.id },
+    data: {
+      scheduled_version: versionToPublish,
+      scheduled_publish_at: publishAt,
+      scheduled_by: scheduledBy ?? null
+    }
+  });
+};
+
+// Cancel a pending scheduled publish
+export const cancelScheduledPublish = async (pageId: string) => {
+  const pageConfig = await prisma.pageConfig.findUnique({
+    where: { page_id: pageId }
+  });
+
+  if (!pageConfig) return null;
+
+  return prisma.pageConfig.update({
+    where: { id: pageConfig.id },
+    data: {
+      scheduled_version: null,
+      scheduled_publish_at: null,
+      scheduled_by: null
+    }
+  });
+};
+
+// Take a page offline without deleting it. Also cancels any scheduled publish,
+// so the page stays offline until someone publishes it again.
+export const unpublishPageConfig = async (pageId: string) => {
+  const pageConfig = await prisma.pageConfig.findUnique({
+    where: { page_id: pageId }
+  });
+
+  if (!pageConfig) return null;
+
+  return prisma.pageConfig.update({
+    where: { id: pageConfig.id },
+    data: {
+      published_version: null,
+      published_at: null,
+      published_config_json: Prisma.DbNull,
+      scheduled_version: null,
+      scheduled_publish_at: null,
+      scheduled_by: null
+    }
+  });
+};
+
+// Publish every page whose scheduled time has passed.
+// Returns the pages that were published by this call.
+export const publishDuePages = async (now: Date = new Date()) => {
+  const duePages = await prisma.pageConfig.findMany({
+    where: { scheduled_publish_at: { lte: now } }
+  });
+
+  const published = [];
+  for (const page of duePages) {
+    // Fragments are expanded as they are when the schedule comes due
+    const snapshot = page.scheduled_version === null ? null : await snapshotVersion(page, page.scheduled_version);
+
+    // Only publish if the schedule has not changed since we read it,
+    // so overlapping runs (or server instances) publish each schedule once
+    const result = await prisma.pageConfig.updateMany({
+      where: {
+        id: page.id,
+        scheduled_publish_at: page.scheduled_publish_at,
+        scheduled_version: page.scheduled_version
+      },
+      data: {
+        published_version: page.scheduled_version,
+        published_at: page.scheduled_publish_at,
+        published_config_json: snapshot ?? Prisma.DbNull,
+        scheduled_version: null,
+        scheduled_publish_at: null,
+        scheduled_by: null
+      }
+    });
+
+    if (result.count > 0) {
+      published.push(page);
+    }
+  }
+
+  return published;
+};
+
+// Pages whose draft or published config passes `matches`, e.g. the pages that use a
+// fragment or theme. `draft` and `published` say which of the two versions match.
+export const findPagesUsing = async (matches: (config: any) => boolean) => {
+  const pageConfigs = await prisma.pageConfig.findMany({
+    select: { id: true, page_id: true, title: true, config_json: true, published_version: true },
+    orderBy: { page_id: 'asc' }
+  });
+  const publishedVersions = await prisma.pageConfigVersion.findMany({
+    where: {
+      OR: pageConfigs
+        .filter((pageConfig) => pageConfig.published_version !== null)
+        .map((pageConfig) => ({ page_config_id: pageConfig.id, version: pageConfig.published_version as number }))
+    },
+    select: { page_config_id: true, config_json: true }
+  });
+  const publishedConfigs = new Map(publishedVersions.map((version) => [version.page_config_id, version.config_json]));
+
+  return pageConfigs
+    .map((pageConfig) => ({
+      page_id: pageConfig.page_id,
+      title: pageConfig.title,
+      draft: matches(pageConfig.config_json),
+      published: publishedConfigs.has(pageConfig.id) && matches(publishedConfigs.get(pageConfig.id))
+    }))
+    .filter((page) => page.draft || page.published);
+};
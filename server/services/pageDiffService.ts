@@ -0,0 +1,194 @@
+import { Component, Page, isPlainObject } from '../models/PageConfig.js';
+
+// Same shape as the `changes` entries written by logUserEdit
+export interface FieldChange {
+  field: string;
+  oldValue: any;
+  newValue: any;
+}
+
+// Where a component sits: its parent container (null at the top level) and position
+export interface ComponentLocation {
+  parentId: string | null;
+  index: number;
+}
+
+export interface ComponentEntry extends ComponentLocation {
+  id: string;
+  type: string;
+}
+
+export interface ComponentMove {
+  id: string;
+  type: string;
+  from: ComponentLocation;
+  to: ComponentLocation;
+}
+
+export interface ComponentChange {
+  id: string;
+  type: string;
+  changes: FieldChange[];
+}
+
+// Structural diff between two page configs. Components are matched by `id`,
+// so inserting one component doesn't show every later one as changed.
+export interface PageDiff {
+  // Page-level fields (title, access, ...)
+  fields: FieldChange[];
+  added: ComponentEntry[];
+  removed: ComponentEntry[];
+  moved: ComponentMove[];
+  changed: ComponentChange[];
+}
+
+// JSON with object keys sorted, so key order (which jsonb doesn't keep) isn't a difference
+export const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+};
+
+const isEqual = (a: any, b: any) => stableStringify(a) === stableStringify(b);
+
+// Top-level fields that differ between two objects
+export const diffFields = (current: object, incoming: object): FieldChange[] => {
+  const fields = new Set([...Object.keys(current), ...Object.keys(incoming)]);
+  const changes: FieldChange[] = [];
+
+  for (const field of fields) {
+    const oldValue = (current as any)[field];
+    const newValue = (incoming as any)[field];
+    if (!isEqual(oldValue, newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+};
+
+// Differences between two values as dotted paths, descending into objects
+// (e.g. "props.submit.api.url"). Arrays are compared as a whole.
+const diffDeep = (oldValue: any, newValue: any, path: string, changes: FieldChange[]) => {
+  if (isEqual(oldValue, newValue)) return;
+
+  if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+    const keys = new Set([...Object.keys(oldValue), ...Object.keys(newValue)]);
+    for (const key of keys) {
+      diffDeep(oldValue[key], newValue[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  changes.push({ field: path, oldValue, newValue });
+};
+
+interface FlatComponent extends ComponentEntry {
+  component: Component;
+}
+
+// Index every component in the tree by ID, with its location
+const flatten = (components: Component[], parentId: string | null = null, index = new Map<string, FlatComponent>()) => {
+  components.forEach((component, position) => {
+    index.set(component.id, { id: component.id, type: component.type, parentId, index: position, component });
+    flatten(component.children || [], component.id, index);
+  });
+  return index;
+};
+
+// IDs in the longest common subsequence of two lists; these kept their relative order
+const keptInOrder = (before: string[], after: string[]): Set<string> => {
+  const lengths = before.map(() => after.map(() => 0));
+  const at = (i: number, j: number) => (i < before.length && j < after.length ? lengths[i][j] : 0);
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j] ? at(i + 1, j + 1) + 1 : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  const kept = new Set<string>();
+  for (let i = 0, j = 0; i < before.length && j < after.length; ) {
+    if (before[i] === after[j]) {
+      kept.add(before[i]);
+      i++;
+      j++;
+    } else if (at(i + 1, j) >= at(i, j + 1)) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return kept;
+};
+
+// A component's own fields; children are compared as components of their own
+const ownFields = ({ id, children, ...rest }: Component) => rest;
+
+const toEntry = ({ id, type, parentId, index }: FlatComponent): ComponentEntry => ({ id, type, parentId, index });
+
+// Compare two page configs: page fields, and components added, removed, moved or changed.
+// A component counts as moved when its parent changed, or when it changed places with
+// its siblings (not merely shifted by an insert or delete next to it).
+export const diffPageConfigs = (oldPage: Page, newPage: Page): PageDiff => {
+  const { components: oldComponents, ...oldFields } = oldPage;
+  const { components: newComponents, ...newFields } = newPage;
+
+  const fields: FieldChange[] = [];
+  diffDeep(oldFields, newFields, '', fields);
+
+  const before = flatten(oldComponents || []);
+  const after = flatten(newComponents || []);
+
+  const added = [...after.values()].filter(({ id }) => !before.has(id)).map(toEntry);
+  const removed = [...before.values()].filter(({ id }) => !after.has(id)).map(toEntry);
+
+  // For each parent, the children that stayed under it, in old and new order
+  const stayed = new Map<string | null, { before: FlatComponent[]; after: FlatComponent[] }>();
+  for (const entry of after.values()) {
+    const old = before.get(entry.id);
+    if (!old || old.parentId !== entry.parentId) continue;
+    const group = stayed.get(entry.parentId) || { before: [], after: [] };
+    group.before.push(old);
+    group.after.push(entry);
+    stayed.set(entry.parentId, group);
+  }
+
+  const byIndex = (a: FlatComponent, b: FlatComponent) => a.index - b.index;
+  const kept = new Set<string>();
+  for (const group of stayed.values()) {
+    const ids = (entries: FlatComponent[]) => [...entries].sort(byIndex).map(({ id }) => id);
+    keptInOrder(ids(group.before), ids(group.after)).forEach((id) => kept.add(id));
+  }
+
+  const moved: ComponentMove[] = [];
+  const changed: ComponentChange[] = [];
+
+  for (const entry of after.values()) {
+    const old = before.get(entry.id);
+    if (!old) continue;
+
+    if (!kept.has(entry.id)) {
+      moved.push({
+        id: entry.id,
+        type: entry.type,
+        from: { parentId: old.parentId, index: old.index },
+        to: { parentId: entry.parentId, index: entry.index }
+      });
+    }
+
+    const changes: FieldChange[] = [];
+    diffDeep(ownFields(old.component), ownFields(entry.component), '', changes);
+    if (changes.length > 0) {
+      changed.push({ id: entry.id, type: entry.type, changes });
+    }
+  }
+
+  return { fields, added, removed, moved, changed };
+};
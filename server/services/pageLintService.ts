@@ -0,0 +1,301 @@
+import { ValidationError, isPlainObject, validatePageConfig } from '../models/PageConfig.js';
+import { getByPath } from '../utils/templates.js';
+
+// Severities a lint rule can report at; "off" disables a rule
+export const LINT_SEVERITIES = ['error', 'warning', 'info'] as const;
+
+export type LintSeverity = typeof LINT_SEVERITIES[number];
+
+// Lint rules and the severity they report at unless configured otherwise
+export const LINT_RULES: Record<string, LintSeverity> = {
+  'image-alt': 'warning',
+  'form-required-field': 'warning',
+  'table-column-field': 'warning',
+  'api-allowlist': 'warning',
+  'container-depth': 'warning',
+  'duplicate-label': 'warning'
+};
+
+// Validation errors are reported under this rule, always as errors
+export const VALIDATION_RULE = 'valid-config';
+
+// Containers may be nested this deep before container-depth reports them
+export const MAX_CONTAINER_DEPTH = 4;
+
+export interface LintFinding {
+  rule: string;
+  severity: LintSeverity;
+  path: string;
+  message: string;
+}
+
+export interface LintOptions {
+  // Severity per rule, replacing the default ("off" disables the rule)
+  rules?: Record<string, LintSeverity | 'off'>;
+  // Sample API responses keyed by table component ID, for table-column-field
+  samples?: Record<string, unknown>;
+  // URL prefixes actions and forms may send requests to; relative URLs are always allowed
+  allowedUrls?: string[];
+}
+
+// URL prefixes from LINT_ALLOWED_API_URLS (comma-separated)
+export const getAllowedApiUrls = () =>
+  (process.env.LINT_ALLOWED_API_URLS || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+// Check the rules and samples given by a caller
+export const validateLintOptions = (options: any): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (options.rules !== undefined) {
+    if (!isPlainObject(options.rules)) {
+      errors.push({ path: 'rules', message: 'Rules must be an object of rule names and severities' });
+    } else {
+      for (const [rule, severity] of Object.entries(options.rules)) {
+        if (!Object.prototype.hasOwnProperty.call(LINT_RULES, rule)) {
+          errors.push({
+            path: `rules.${rule}`,
+            message: `Unknown lint rule "${rule}". Expected one of: ${Object.keys(LINT_RULES).join(', ')}`
+          });
+        } else if (severity !== 'off' && !LINT_SEVERITIES.includes(severity as LintSeverity)) {
+          errors.push({ path: `rules.${rule}`, message: `Severity must be one of: ${LINT_SEVERITIES.join(', ')}, off` });
+        }
+      }
+    }
+  }
+
+  if (options.samples !== undefined && !isPlainObject(options.samples)) {
+    errors.push({ path: 'samples', message: 'Samples must be an object keyed by table component ID' });
+  }
+
+  return errors;
+};
+
+// Pick the rows out of a sample response the way the client's TableComponent does:
+// the value at dataPath, or the response itself, or its first array property
+const extractRows = (data: unknown, dataPath: unknown): unknown[] => {
+  if (typeof dataPath === 'string' && dataPath !== '') {
+    const rows = getByPath(data, dataPath.split('.').filter(Boolean));
+    return Array.isArray(rows) ? rows : [];
+  }
+  if (Array.isArray(data)) return data;
+  if (isPlainObject(data)) {
+    return (Object.values(data).find(Array.isArray) as unknown[] | undefined) || [];
+  }
+  return [];
+};
+
+// Relative URLs go to this app; absolute ones must share an allowed prefix's origin
+// and start with its path
+const isAllowedUrl = (url: string, allowedUrls: string[]) => {
+  if (url.startsWith('/') && !url.startsWith('//')) return true;
+
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch (error) {
+    return false;
+  }
+
+  return allowedUrls.some((prefix) => {
+    try {
+      const allowed = new URL(prefix);
+      return allowed.origin === target.origin && target.pathname.startsWith(allowed.pathname);
+    } catch (error) {
+      return false;
+    }
+  });
+};
+
+const normalizeLabel = (label: unknown) => (typeof label === 'string' ? label.trim().toLowerCase() : '');
+
+// Findings collected while linting one page
+interface LintContext {
+  options: LintOptions;
+  findings: LintFinding[];
+}
+
+type LabelEntry = { label: unknown; path: string };
+
+const report = (context: LintContext, rule: string, path: string, message: string) => {
+  const severity = context.options.rules?.[rule] ?? LINT_RULES[rule];
+  if (severity !== 'off') {
+    context.findings.push({ rule, severity, path, message });
+  }
+};
+
+// Flag requests that change data (anything but GET) sent to URLs outside the allowlist
+const checkApi = (context: LintContext, api: unknown, path: string) => {
+  if (!isPlainObject(api) || typeof api.url !== 'string' || api.url === '') return;
+
+  const method = typeof api.method === 'string' ? api.method : 'POST';
+  if (method !== 'GET' && !isAllowedUrl(api.url, context.options.allowedUrls || [])) {
+    report(context, 'api-allowlist', `${path}.url`, `${method} request to "${api.url}", which is not on the API allowlist`);
+  }
+};
+
+// Walk a button action with its sequence and success/failure branches
+const checkAction = (context: LintContext, action: unknown, path: string) => {
+  if (!isPlainObject(action)) return;
+
+  checkApi(context, action.api, `${path}.api`);
+  if (Array.isArray(action.sequence)) {
+    action.sequence.forEach((step: unknown, index: number) => checkAction(context, step, `${path}.sequence[${index}]`));
+  }
+  for (const branch of ['onSuccess', 'onFailure']) {
+    checkAction(context, action[branch], `${path}.${branch}`);
+  }
+};
+
+// Report every label used a second time in a list, pointing at its first use
+const checkDuplicateLabels = (context: LintContext, entries: LabelEntry[], kind: string) => {
+  const seen = new Map<string, string>();
+  for (const { label, path } of entries) {
+    const key = normalizeLabel(label);
+    if (key === '') continue;
+    if (seen.has(key)) {
+      report(context, 'duplicate-label', path, `${kind} label "${label}" is also used at ${seen.get(key)}`);
+    } else {
+      seen.set(key, path);
+    }
+  }
+};
+
+const checkForm = (context: LintContext, props: Record<string, any>, path: string) => {
+  const fields: any[] = Array.isArray(props.fields) ? props.fields : [];
+
+  if (fields.length > 0 && !fields.some((field) => field?.required === true)) {
+    report(context, 'form-required-field', `${path}.fields`, 'Form has no required field');
+  }
+
+  checkDuplicateLabels(
+    context,
+    fields.map((field, index) => ({ label: field?.label, path: `${path}.fields[${index}].label` })),
+    'Field'
+  );
+
+  if (isPlainObject(props.submit)) {
+    checkApi(context, props.submit.api, `${path}.submit.api`);
+  }
+};
+
+const checkTable = (context: LintContext, id: unknown, props: Record<string, any>, path: string) => {
+  const columns: any[] = Array.isArray(props.columns) ? props.columns : [];
+
+  checkDuplicateLabels(
+    context,
+    columns.map((column, index) => ({ label: column?.label, path: `${path}.columns[${index}].label` })),
+    'Column'
+  );
+
+  // Columns can only be checked against a sample response for this table
+  const samples = context.options.samples || {};
+  if (typeof id !== 'string' || !Object.prototype.hasOwnProperty.call(samples, id)) return;
+
+  const rows = extractRows(samples[id], props.dataPath).filter(isPlainObject);
+  if (rows.length === 0) {
+    report(context, 'table-column-field', path, `Sample response for "${id}" has no rows to check the columns against`);
+    return;
+  }
+
+  columns.forEach((column, index) => {
+    if (typeof column?.field !== 'string') return;
+    const keys = column.field.split('.').filter(Boolean);
+    if (!rows.some((row) => getByPath(row, keys) !== undefined)) {
+      report(
+        context,
+        'table-column-field',
+        `${path}.columns[${index}].field`,
+        `Field "${column.field}" does not appear in the sample response for "${id}"`
+      );
+    }
+  });
+};
+
+// `depth` is the number of containers around the list
+const checkComponents = (
+  context: LintContext,
+  components: unknown,
+  path: string,
+  depth: number,
+  buttons: LabelEntry[]
+) => {
+  if (!Array.isArray(components)) return;
+
+  components.forEach((component, index) => {
+    const componentPath = `${path}[${index}]`;
+    if (!isPlainObject(component)) return;
+
+    const props = isPlainObject(component.props) ? component.props : {};
+    const propsPath = `${componentPath}.props`;
+
+    switch (component.type) {
+      case 'image':
+        if (typeof props.alt !== 'string' || props.alt.trim() === '') {
+          report(context, 'image-alt', `${propsPath}.alt`, 'Image has no alt text');
+        }
+        break;
+      case 'form':
+        checkForm(context, props, propsPath);
+        break;
+      case 'table':
+        checkTable(context, component.id, props, propsPath);
+        break;
+      case 'button':
+        buttons.push({ label: props.label, path: `${propsPath}.label` });
+        checkAction(context, props.onClick, `${propsPath}.onClick`);
+        break;
+      case 'container': {
+        // Report only the container that crosses the limit, not every one inside it
+        const level = depth + 1;
+        if (level === MAX_CONTAINER_DEPTH + 1) {
+          report(
+            context,
+            'container-depth',
+            componentPath,
+            `Container is nested ${level} levels deep (more than ${MAX_CONTAINER_DEPTH})`
+          );
+        }
+        checkComponents(context, component.children, `${componentPath}.children`, level, buttons);
+        break;
+      }
+    }
+  });
+};
+
+// Lint one component tree; button labels are compared across the whole tree
+const checkTree = (context: LintContext, components: unknown, path: string) => {
+  const buttons: LabelEntry[] = [];
+  checkComponents(context, components, path, 0, buttons);
+  checkDuplicateLabels(context, buttons, 'Button');
+};
+
+// Validation errors (e.g. of the fragments and theme a page uses) as lint findings
+export const toLintFindings = (errors: ValidationError[]): LintFinding[] =>
+  errors.map((error) => ({ rule: VALIDATION_RULE, severity: 'error', path: error.path, message: error.message }));
+
+// Lint a page config: validation errors (as errors), then findings of the lint rules.
+// Rules are checked even when the config is invalid, skipping parts they can't read.
+export const lintPage = (page: unknown, options: LintOptions = {}): LintFinding[] => {
+  const context: LintContext = { options, findings: toLintFindings(validatePageConfig(page)) };
+  if (!isPlainObject(page)) return context.findings;
+
+  checkTree(context, page.components, 'components');
+  if (Array.isArray(page.variants)) {
+    page.variants.forEach((variant: unknown, index: number) => {
+      if (isPlainObject(variant) && variant.components !== undefined) {
+        checkTree(context, variant.components, `variants[${index}].components`);
+      }
+    });
+  }
+
+  return context.findings;
+};
+
+// Number of findings per severity
+export const countFindings = (findings: LintFinding[]) =>
+  Object.fromEntries(
+    LINT_SEVERITIES.map((severity) => [severity, findings.filter((finding) => finding.severity === severity).length])
+  ) as Record<LintSeverity, number>;
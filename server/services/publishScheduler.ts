@@ -0,0 +1,54 @@
+import { publishDuePages } from './pageConfigService.js';
+import { logUserAction, AUDIT_TYPES } from './auditService.js';
+
+// How often to check for pages due to be published
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+
+// Publish due pages and record who scheduled them
+const runScheduledPublishing = async () => {
+  try {
+    const pages = await publishDuePages();
+
+    for (const page of pages) {
+      console.log(`Published scheduled page "${page.page_id}" (version ${page.scheduled_version})`);
+
+      if (page.scheduled_by) {
+        await logUserAction(
+          page.scheduled_by,
+          AUDIT_TYPES.PUBLISH_PAGE,
+          undefined,
+          {
+            page_details: {
+              page_id: page.page_id,
+              title: page.title,
+              version: page.scheduled_version
+            },
+            scheduled: true
+          }
+        );
+      }
+    }
+  } catch (error) {
+    console.error('Error publishing scheduled pages:', error);
+  }
+};
+
+// Start polling for scheduled publishes. Runs once immediately so pages
+// that fell due while the server was down are published on startup.
+export const startPublishScheduler = (intervalMs: number = DEFAULT_INTERVAL_MS) => {
+  if (timer) return;
+
+  runScheduledPublishing();
+  timer = setInterval(runScheduledPublishing, intervalMs);
+  timer.unref();
+};
+
+// Stop polling for scheduled publishes
+export const stopPublishScheduler = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
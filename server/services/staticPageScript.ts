@@ -0,0 +1,235 @@
+// Progressive enhancement for pages rendered by staticPageService: submits forms,
+// runs button actions and sends analytics events. Everything else on a static
+// page works without it. Plain ES2017 so it runs as-is in the browser; settings
+// come from the #c2p-page JSON block and data- attributes written by the renderer.
+export const STATIC_PAGE_SCRIPT = `(function () {
+  var page = JSON.parse(document.getElementById('c2p-page').textContent);
+
+  // Analytics, batched like the client app: every few seconds, at 50 events,
+  // and as a beacon when the tab is hidden
+  var queue = [];
+  var timer = null;
+  var eventsUrl = page.apiUrl + '/events';
+
+  function flush() {
+    clearTimeout(timer);
+    timer = null;
+    if (queue.length === 0) return;
+    var body = JSON.stringify({ events: queue });
+    queue = [];
+    fetch(eventsUrl, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: body, credentials: 'include' })
+      .catch(function () {});
+  }
+
+  function track(type, componentId) {
+    queue.push({ type: type, pageId: page.pageId, componentId: componentId || undefined, variant: page.variant || undefined });
+    if (queue.length >= 50) flush();
+    else if (!timer) timer = setTimeout(flush, 5000);
+  }
+
+  document.addEventListener('visibilitychange', function () {
+    if (document.visibilityState !== 'hidden' || queue.length === 0) return;
+    var body = new Blob([JSON.stringify({ events: queue })], { type: 'text/plain' });
+    if (navigator.sendBeacon && navigator.sendBeacon(eventsUrl, body)) queue = [];
+    else flush();
+  });
+
+  // JSON request; rejects with the status and response body on 4xx/5xx
+  function request(method, url, data) {
+    var options = { method: method, credentials: 'include', headers: { Accept: 'application/json' } };
+    if (data !== undefined && method !== 'GET') {
+      options.headers['Content-Type'] = 'application/json';
+      options.body = JSON.stringify(data);
+    }
+    return fetch(url, options).then(function (response) {
+      return response.json().catch(function () { return {}; }).then(function (body) {
+        if (response.ok) return body;
+        var error = new Error(body.message || 'Request failed');
+        error.status = response.status;
+        error.body = body;
+        throw error;
+      });
+    });
+  }
+
+  function showMessage(element, type, text) {
+    element.textContent = text;
+    element.className = 'c2p-message c2p-' + type;
+    element.setAttribute('role', type === 'error' ? 'alert' : 'status');
+    element.hidden = false;
+  }
+
+  // Button actions, as in client/src/utils/actions.ts. Templates were filled in
+  // when the page was rendered, and navigate targets are already URLs.
+  function runAction(action, notify, tone) {
+    if (action.confirm) {
+      var text = typeof action.confirm === 'string' ? action.confirm : action.confirm.message;
+      if (!window.confirm(text)) return Promise.reject({ cancelled: true });
+    }
+
+    return (action.sequence || [])
+      .reduce(function (chain, step) {
+        return chain.then(function () { return runAction(step, notify, tone); });
+      }, Promise.resolve())
+      .then(function () {
+        if (action.api) return request(action.api.method || 'POST', action.api.url, action.api.body);
+      })
+      .then(function () {
+        if (action.message) notify(tone, action.message);
+        if (action.navigate && action.navigate.href) window.location.assign(action.navigate.href);
+      }, function (error) {
+        if (error.cancelled || !action.onFailure) throw error;
+        return runAction(action.onFailure, notify, 'error').then(function () {
+          error.handled = true;
+          throw error;
+        });
+      })
+      .then(function () {
+        if (action.onSuccess) return runAction(action.onSuccess, notify, tone);
+      });
+  }
+
+  document.querySelectorAll('[data-c2p-button]').forEach(function (button) {
+    var componentId = button.getAttribute('data-c2p-button');
+    var action = button.getAttribute('data-action');
+    button.addEventListener('click', function () {
+      track('button_click', componentId);
+      if (!action) return;
+
+      var message = button.parentNode.querySelector('.c2p-message');
+      var label = button.textContent;
+      message.hidden = true;
+      button.disabled = true;
+      button.textContent = 'Please wait...';
+      runAction(JSON.parse(action), function (type, text) { showMessage(message, type, text); }, 'success')
+        .catch(function (error) {
+          if (!error.cancelled && !error.handled) {
+            showMessage(message, 'error', (error.body && error.body.message) || 'Action failed');
+          }
+        })
+        .then(function () {
+          button.disabled = false;
+          button.textContent = label;
+        });
+    });
+  });
+
+  // Forms. The browser checks required, format, range, length and pattern; the
+  // field's own messages (data-messages) replace the browser's wording.
+  var VALIDITY_MESSAGES = [
+    ['valueMissing', 'required'], ['typeMismatch', 'format'], ['badInput', 'format'],
+    ['rangeUnderflow', 'min'], ['rangeOverflow', 'max'], ['tooShort', 'minLength'],
+    ['tooLong', 'maxLength'], ['patternMismatch', 'pattern']
+  ];
+
+  function setFieldError(input, text) {
+    var error = document.getElementById(input.id + '-error');
+    error.textContent = text || '';
+    error.hidden = !text;
+    input.setAttribute('aria-invalid', text ? 'true' : 'false');
+  }
+
+  function validate(input) {
+    input.setCustomValidity('');
+    var messages = JSON.parse(input.getAttribute('data-messages') || '{}');
+    for (var i = 0; i < VALIDITY_MESSAGES.length; i++) {
+      if (input.validity[VALIDITY_MESSAGES[i][0]] && messages[VALIDITY_MESSAGES[i][1]]) {
+        input.setCustomValidity(messages[VALIDITY_MESSAGES[i][1]]);
+        break;
+      }
+    }
+    var valid = input.checkValidity();
+    setFieldError(input, valid ? '' : input.validationMessage);
+    return valid;
+  }
+
+  function setPath(target, path, value) {
+    var keys = path.split('.');
+    var current = target;
+    keys.slice(0, -1).forEach(function (key) {
+      if (typeof current[key] !== 'object' || current[key] === null) current[key] = {};
+      current = current[key];
+    });
+    current[keys[keys.length - 1]] = value;
+  }
+
+  document.querySelectorAll('form[data-submit]').forEach(function (form) {
+    var formId = form.getAttribute('data-component');
+    var submit = JSON.parse(form.getAttribute('data-submit'));
+    var message = form.querySelector('.c2p-message');
+    var button = form.querySelector('button[type="submit"]');
+    var inputs = Array.prototype.slice.call(form.querySelectorAll('[data-field]'));
+
+    inputs.forEach(function (input) {
+      input.addEventListener('blur', function () { validate(input); });
+    });
+
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      message.hidden = true;
+      track('form_submit', formId);
+
+      var valid = inputs.map(validate).every(Boolean);
+      if (!valid) {
+        track('form_failure', formId);
+        return;
+      }
+      if (!submit.url) {
+        showMessage(message, 'error', 'This form has no submit target configured');
+        track('form_failure', formId);
+        return;
+      }
+
+      var values = {};
+      inputs.forEach(function (input) {
+        var value = input.type === 'checkbox' ? input.checked : input.value;
+        values[input.getAttribute('data-field')] = input.type === 'number' && value !== '' ? Number(value) : value;
+      });
+      var mapping = submit.payloadMapping;
+      if (!mapping) {
+        mapping = {};
+        Object.keys(values).forEach(function (fieldId) { mapping[fieldId] = fieldId; });
+      }
+      var payload = {};
+      Object.keys(mapping).forEach(function (key) {
+        if (values[mapping[key]] !== undefined) setPath(payload, key, values[mapping[key]]);
+      });
+
+      var label = button.textContent;
+      button.disabled = true;
+      button.textContent = 'Submitting...';
+      request(submit.method, submit.url, payload)
+        .then(function () {
+          showMessage(message, 'success', submit.successMessage || 'Submitted successfully');
+          track('form_success', formId);
+          if (page.variant) {
+            request('POST', page.apiUrl + '/page-config/' + encodeURIComponent(page.pageId) + '/conversions', { componentId: formId })
+              .catch(function () {});
+          }
+          if (submit.resetOnSuccess !== false) form.reset();
+        }, function (error) {
+          track('form_failure', formId);
+          var errors = error.status >= 400 && error.status < 500 && error.body ? error.body.errors : null;
+          if (errors) {
+            var entries = Array.isArray(errors)
+              ? errors.filter(function (item) { return item && (item.field || item.path); })
+                  .map(function (item) { return [String(item.field || item.path), String(item.message || 'Invalid value')]; })
+              : Object.keys(errors).map(function (key) { return [key, String(errors[key])]; });
+            entries.forEach(function (entry) {
+              var fieldId = (submit.payloadMapping && submit.payloadMapping[entry[0]]) || entry[0];
+              var input = inputs.filter(function (item) { return item.getAttribute('data-field') === fieldId; })[0];
+              if (input) setFieldError(input, entry[1]);
+            });
+          }
+          showMessage(message, 'error', submit.errorMessage || (error.body && error.body.message) || 'Submission failed');
+        })
+        .then(function () {
+          button.disabled = false;
+          button.textContent = label;
+        });
+    });
+  });
+
+  track('page_view');
+})();
+`;
@@ -0,0 +1,460 @@
+import prisma from '../config/prisma.js';
+import { getComponentDefinition } from '../models/ComponentRegistry.js';
+import { Component, Page, isSafeUrl } from '../models/PageConfig.js';
+import { BASE_THEME, STYLE_PROPERTIES, ThemeGroup, ThemeTokens, TokenValue, isSafeCssValue } from '../models/Theme.js';
+import { getDefaultLocale } from '../models/Translation.js';
+import { TemplateContext, evaluateCondition, renderDeep, renderTemplate } from '../utils/templates.js';
+import { getPublishedPage } from './pageConfigService.js';
+import { resolvePageFragments } from './fragmentService.js';
+import { resolveTheme } from './themeService.js';
+import { translatePage } from './translationService.js';
+import { STATIC_PAGE_SCRIPT } from './staticPageScript.js';
+
+// Where links and requests on a rendered page point
+export interface StaticRenderOptions {
+  theme: ThemeTokens;
+  locale: string;
+  // Base URL of the API ("https://example.com/api"), for forms, actions and analytics
+  apiUrl: string;
+  // URL of the client app, for tables and anything else that needs it
+  appUrl: string;
+  // URL of another page, for navigate actions
+  pageHref: (pageId: string) => string;
+  // Query parameters templates and conditions may read (none for exported files)
+  query?: Record<string, string>;
+  // The visitor's A/B variant, for analytics and conversions
+  variant?: string;
+}
+
+// State a page is rendered in: an anonymous visitor who hasn't typed anything yet
+interface RenderState {
+  options: StaticRenderOptions;
+  context: TemplateContext;
+}
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// JSON safe to put inside a <script> block
+const scriptJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const cssValue = (value: TokenValue | undefined) => (typeof value === 'number' ? `${value}px` : value);
+
+const attributes = (values: Record<string, unknown>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null && value !== false)
+    .map(([name, value]) => (value === true ? ` ${name}` : ` ${name}="${escapeHtml(value)}"`))
+    .join('');
+
+// Declarations for a style attribute. Values that could end the declaration are
+// dropped; the result is HTML-escaped by attributes() like every attribute value.
+const inlineStyle = (declarations: Record<string, TokenValue | undefined>) =>
+  Object.entries(declarations)
+    .filter(([, value]) => value !== undefined && isSafeCssValue(value))
+    .map(([property, value]) => `${property}:${cssValue(value)}`)
+    .join(';');
+
+// A component's `style` prop as inline CSS, like styleFor() in client/src/utils/theme.ts
+const styleCss = (style: Record<string, string>, theme: ThemeTokens) => {
+  const token = (key: string) =>
+    style[key] === undefined ? undefined : (theme[STYLE_PROPERTIES[key]] as Record<string, TokenValue>)[style[key]];
+  const borderColor = token('borderColor');
+
+  return inlineStyle({
+    color: token('color'),
+    'background-color': token('background'),
+    border: borderColor === undefined ? undefined : `1px solid ${borderColor}`,
+    'font-family': token('fontFamily'),
+    'font-size': token('fontSize'),
+    'font-weight': token('fontWeight'),
+    padding: token('padding'),
+    'border-radius': token('radius'),
+    'text-align': style.align
+  });
+};
+
+// Resolve an api block to a URL, as resolveApi() does in client/src/utils/apiUrl.ts
+const apiUrlFor = (api: Record<string, any>, state: RenderState) => {
+  const { apiUrl } = state.options;
+  if (api.source) {
+    const path = api.path === undefined ? '/' : renderTemplate(api.path, state.context, true);
+    return `${apiUrl}/data/${encodeURIComponent(api.source)}${path}`;
+  }
+
+  const url = renderTemplate(api.url || '', state.context, true);
+  if (/^https?:\/\//i.test(url)) return url;
+  if (url.startsWith('/api/')) return `${apiUrl}${url.slice('/api'.length)}`;
+  return url;
+};
+
+// URL of a navigate action; none when a filled-in template isn't relative or http(s)
+const navigateHref = (navigate: Record<string, any>, state: RenderState) => {
+  if (navigate.pageId !== undefined) {
+    return state.options.pageHref(renderTemplate(navigate.pageId, state.context, true));
+  }
+  const url = renderTemplate(navigate.url || '', state.context, true);
+  return isSafeUrl(url) ? url : undefined;
+};
+
+// Fill in a button action for the page script: templates rendered, api blocks
+// and navigate targets turned into URLs
+const bindAction = (action: Record<string, any>, state: RenderState): Record<string, any> => ({
+  confirm: renderDeep(action.confirm, state.context),
+  sequence: action.sequence?.map((step: Record<string, any>) => bindAction(step, state)),
+  api: action.api && {
+    method: action.api.method || 'POST',
+    url: apiUrlFor(action.api, state),
+    body: renderDeep(action.api.body, state.context)
+  },
+  navigate: action.navigate && { href: navigateHref(action.navigate, state) },
+  message: action.message === undefined ? undefined : renderTemplate(action.message, state.context),
+  onSuccess: action.onSuccess && bindAction(action.onSuccess, state),
+  onFailure: action.onFailure && bindAction(action.onFailure, state)
+});
+
+// Actions that only go somewhere render as plain links, so crawlers can follow them
+const isLinkAction = (action: Record<string, any> | undefined) =>
+  action?.navigate && Object.keys(action).every((key) => key === 'navigate');
+
+const renderButton = (component: Component, state: RenderState) => {
+  const label = escapeHtml(renderTemplate(String(component.props.label ?? ''), state.context));
+  const action = component.props.onClick;
+
+  const href = isLinkAction(action) ? navigateHref(action.navigate, state) : undefined;
+  if (href !== undefined) {
+    return `<div><a class="c2p-button"${attributes({ href, 'data-c2p-button': component.id })}>${label}</a></div>`;
+  }
+
+  return `<div><button type="button" class="c2p-button"${attributes({
+    'data-c2p-button': component.id,
+    'data-action': action ? JSON.stringify(bindAction(action, state)) : undefined
+  })}>${label}</button><p class="c2p-message" hidden></p></div>`;
+};
+
+// Validation attributes the browser enforces, and the field's own messages for the page script
+const renderField = (formId: string, field: Record<string, any>, state: RenderState) => {
+  const inputId = `${formId}-${field.id}`;
+  const label = `${escapeHtml(renderTemplate(String(field.label || field.id), state.context))}${
+    field.required ? '<span class="c2p-required"> *</span>' : ''
+  }`;
+  const common = {
+    id: inputId,
+    name: field.id,
+    'data-field': field.id,
+    'data-messages': field.messages ? JSON.stringify(field.messages) : undefined,
+    required: field.required === true,
+    'aria-describedby': `${inputId}-error`
+  };
+  const placeholder = field.placeholder === undefined ? undefined : renderTemplate(String(field.placeholder), state.context);
+  const defaultValue = field.defaultValue === undefined ? undefined : String(field.defaultValue);
+  const lengths = { minlength: field.minLength, maxlength: field.maxLength };
+
+  let input: string;
+  switch (field.type) {
+    case 'textarea':
+      input = `<textarea${attributes({ ...common, ...lengths, placeholder, rows: 4 })}>${escapeHtml(defaultValue)}</textarea>`;
+      break;
+    case 'select':
+      input = `<select${attributes(common)}><option value="">${escapeHtml(placeholder || 'Select...')}</option>${(field.options || [])
+        .map((option: Record<string, any>) =>
+          `<option${attributes({ value: option.value, selected: defaultValue !== undefined && String(option.value) === defaultValue })}>${escapeHtml(
+            renderTemplate(String(option.label ?? option.value), state.context)
+          )}</option>`
+        )
+        .join('')}</select>`;
+      break;
+    case 'checkbox':
+      input = `<input${attributes({ ...common, type: 'checkbox', checked: Boolean(field.defaultValue) })}>`;
+      break;
+    default:
+      input = `<input${attributes({
+        ...common,
+        ...lengths,
+        type: field.type || 'text',
+        value: defaultValue,
+        placeholder,
+        min: field.min,
+        max: field.max,
+        pattern: field.pattern
+      })}>`;
+  }
+
+  const error = `<p class="c2p-field-error" id="${escapeHtml(inputId)}-error" hidden></p>`;
+  return field.type === 'checkbox'
+    ? `<div class="c2p-field"><div class="c2p-checkbox">${input}<label for="${escapeHtml(inputId)}">${label}</label></div>${error}</div>`
+    : `<div class="c2p-field"><label for="${escapeHtml(inputId)}">${label}</label>${input}${error}</div>`;
+};
+
+// Submit settings for the page script. Stored forms post to the page's own
+// submissions endpoint, others to their api block.
+const submitConfig = (component: Component, state: RenderState) => {
+  const submit = component.props.submit || {};
+  const page = state.context.route.pageId || '';
+  const target = submit.store
+    ? {
+        method: 'POST',
+        url: `${state.options.apiUrl}/page-config/${encodeURIComponent(page)}/forms/${encodeURIComponent(component.id)}/submissions`
+      }
+    : submit.api?.url || submit.api?.source
+      ? { method: submit.api.method || 'POST', url: apiUrlFor(submit.api, state), payloadMapping: submit.api.payloadMapping }
+      : {};
+
+  return {
+    ...target,
+    successMessage: submit.successMessage,
+    errorMessage: submit.errorMessage,
+    resetOnSuccess: submit.resetOnSuccess
+  };
+};
+
+const renderForm = (component: Component, state: RenderState) => {
+  const fields: Record<string, any>[] = component.props.fields || [];
+  const submit = component.props.submit || {};
+
+  // Fields hidden for a visitor who hasn't typed anything are left out entirely
+  const visibleFields = fields.filter((field) => !field.visibleWhen || evaluateCondition(field.visibleWhen, state.context));
+
+  return `<form class="c2p-form" novalidate${attributes({
+    'data-component': component.id,
+    'data-submit': JSON.stringify(submitConfig(component, state))
+  })}>${visibleFields.map((field) => renderField(component.id, field, state)).join('')}<p class="c2p-message" hidden></p><div><button type="submit" class="c2p-button">${escapeHtml(
+    renderTemplate(String(submit.label || 'Submit'), state.context)
+  )}</button></div></form>`;
+};
+
+// Table rows come from an API at view time, so the static page shows the
+// columns and links to the live page
+const renderTable = (component: Component, state: RenderState) => {
+  const columns: Record<string, any>[] = component.props.columns || [];
+  const href = `${state.options.appUrl}/${encodeURIComponent(state.context.route.pageId || '')}`;
+
+  return `<table class="c2p-table"><thead><tr>${columns
+    .map((column) => `<th>${escapeHtml(renderTemplate(String(column.label || column.field), state.context))}</th>`)
+    .join('')}</tr></thead><tbody><tr><td colspan="${Math.max(columns.length, 1)}"><a href="${escapeHtml(href)}">View the live data</a></td></tr></tbody></table>`;
+};
+
+const renderComponent = (component: Component, state: RenderState): string => {
+  const props = component.props || {};
+  const { theme } = state.options;
+
+  switch (component.type) {
+    case 'text':
+      return `<p>${escapeHtml(renderTemplate(String(props.value ?? ''), state.context))}</p>`;
+    case 'form':
+      return renderForm(component, state);
+    case 'table':
+      return renderTable(component, state);
+    case 'button':
+      return renderButton(component, state);
+    case 'image':
+      if (!props.src) return '';
+      return `<img${attributes({
+        src: renderTemplate(String(props.src), state.context),
+        alt: renderTemplate(String(props.alt ?? ''), state.context),
+        width: props.width,
+        height: props.height
+      })}>`;
+    case 'divider':
+      return '<hr>';
+    case 'spacer': {
+      const size = props.size ?? 'md';
+      const height = typeof size === 'number' ? size : (theme.spacing as Record<string, TokenValue>)[size] ?? theme.spacing.md;
+      return `<div aria-hidden="true"${attributes({ style: inlineStyle({ height }) })}></div>`;
+    }
+    case 'container':
+      return `<div class="c2p-container"${attributes({
+        style: inlineStyle({
+          'flex-direction': props.direction === 'row' ? 'row' : 'column',
+          'flex-wrap': props.direction === 'row' ? 'wrap' : undefined,
+          gap: props.gap ?? 16
+        })
+      })}>${renderComponents(component.children || [], state)}</div>`;
+    default: {
+      // Registered types render themselves; fragments are expanded before rendering
+      // and anything else is left out
+      const renderHtml = getComponentDefinition(component.type)?.renderHtml;
+      if (renderHtml) return renderHtml(renderDeep(props, state.context), escapeHtml);
+      return `<!-- ${escapeHtml(component.type)} "${escapeHtml(component.id)}" not rendered -->`;
+    }
+  }
+};
+
+// Render components as the client would on first load: conditions are
+// evaluated once, for the render state, and a component's `style` wraps it
+const renderComponents = (components: Component[], state: RenderState): string =>
+  components
+    .filter((component) => !component.visibleWhen || evaluateCondition(component.visibleWhen, state.context))
+    .map((component) => {
+      const style = component.props?.style;
+      let html = renderComponent(component, state);
+      if (style) {
+        html = `<div${attributes({ style: styleCss(style, state.options.theme) })}>${html}</div>`;
+      }
+      if (component.enabledWhen && !evaluateCondition(component.enabledWhen, state.context)) {
+        html = `<fieldset class="c2p-disabled" disabled aria-disabled="true">${html}</fieldset>`;
+      }
+      return html;
+    })
+    .join('\n');
+
+// Theme tokens that are safe to write into CSS. Unsafe values (e.g. stored before
+// token values were restricted) fall back to the built-in ones.
+const safeTheme = (theme: ThemeTokens): ThemeTokens =>
+  Object.fromEntries(
+    Object.entries(theme).map(([group, tokens]) => [
+      group,
+      Object.fromEntries(
+        Object.entries(tokens as Record<string, TokenValue>).map(([name, value]) => [
+          name,
+          isSafeCssValue(value) ? value : (BASE_THEME[group as ThemeGroup] as Record<string, TokenValue>)[name]
+        ])
+      )
+    ])
+  ) as ThemeTokens;
+
+// Base look of the page in the theme's tokens (the client app uses Tailwind classes)
+const pageCss = (theme: ThemeTokens) => `*,*::before,*::after{box-sizing:border-box}
+body{margin:0;background:${theme.colors.background};color:${theme.colors.text};font-family:${theme.fonts.body};font-size:${cssValue(theme.fontSizes.md)};line-height:1.5}
+main{max-width:80rem;margin:0 auto;padding:2rem 1rem;display:flex;flex-direction:column;gap:1.5rem}
+p{margin:0}
+img{max-width:100%;height:auto;border-radius:0.25rem}
+hr{border:0;border-top:1px solid ${theme.colors.border};margin:1rem 0}
+.c2p-container{display:flex}
+.c2p-button{display:inline-block;padding:0.5rem 1rem;border:0;font:inherit;font-size:0.875rem;font-weight:500;text-decoration:none;cursor:pointer;background:${theme.colors.primary};color:${theme.colors.primaryText};border-radius:${cssValue(theme.radii.md)}}
+.c2p-button:disabled{opacity:0.6;cursor:not-allowed}
+.c2p-form{display:flex;flex-direction:column;gap:1rem}
+.c2p-field label{display:block;font-size:0.875rem;font-weight:500;margin-bottom:0.5rem}
+.c2p-field input:not([type=checkbox]),.c2p-field select,.c2p-field textarea{display:block;width:100%;padding:0.375rem 0.75rem;font:inherit;border:1px solid ${theme.colors.border};border-radius:0.375rem;background:#fff}
+.c2p-field [aria-invalid=true]{border-color:${theme.colors.danger}}
+.c2p-checkbox{display:flex;align-items:center;gap:0.5rem}
+.c2p-checkbox label{margin:0}
+.c2p-required,.c2p-field-error{color:${theme.colors.danger}}
+.c2p-field-error{font-size:0.875rem;margin-top:0.5rem}
+.c2p-message{margin-top:0.5rem;padding:0.75rem 1rem;border:1px solid;border-radius:0.25rem}
+.c2p-success{background:#dcfce7;border-color:#4ade80;color:#15803d}
+.c2p-error{background:#fee2e2;border-color:#f87171;color:#b91c1c}
+.c2p-table{width:100%;border-collapse:collapse;background:${theme.colors.surface}}
+.c2p-table th{text-align:left;font-size:0.75rem;text-transform:uppercase;color:${theme.colors.muted};padding:0.75rem 1.5rem;border-bottom:1px solid ${theme.colors.border}}
+.c2p-table td{padding:1rem 1.5rem}
+.c2p-disabled{border:0;margin:0;padding:0;opacity:0.5}
+[hidden]{display:none!important}`;
+
+// CSS for a <style> element, with "<" CSS-escaped so nothing in it can close the element
+const styleBlock = (css: string) => css.replace(/</g, '\\3c ');
+
+// Initial values of every form on the page, as conditions see them before anyone types
+const initialFormValues = (components: Component[], values: TemplateContext['form'] = {}) => {
+  for (const component of components) {
+    if (component.type === 'form') {
+      values[component.id] = Object.fromEntries(
+        (component.props?.fields || []).map((field: Record<string, any>) => [
+          field.id,
+          field.type === 'checkbox' ? Boolean(field.defaultValue) : field.defaultValue !== undefined ? String(field.defaultValue) : ''
+        ])
+      );
+    }
+    initialFormValues(component.children || [], values);
+  }
+  return values;
+};
+
+// Render a page (fragments expanded, translated) as a complete HTML document
+// with inline CSS and the page script. Works without the React client bundle.
+export const renderPageHtml = (page: Page, renderOptions: StaticRenderOptions): string => {
+  const options = { ...renderOptions, theme: safeTheme(renderOptions.theme) };
+  const state: RenderState = {
+    options,
+    context: {
+      user: null,
+      route: { pageId: page.pageId },
+      query: options.query || {},
+      form: initialFormValues(page.components),
+      data: {}
+    }
+  };
+  const title = renderTemplate(page.title, state.context);
+  const pageData = { pageId: page.pageId, variant: options.variant, apiUrl: options.apiUrl };
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(options.locale)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${styleBlock(pageCss(options.theme))}
+</style>
+</head>
+<body>
+<main>
+${renderComponents(page.components, state)}
+</main>
+<script type="application/json" id="c2p-page">${scriptJson(pageData)}</script>
+<script>
+${STATIC_PAGE_SCRIPT}</script>
+</body>
+</html>
+`;
+};
+
+// Only pages anyone may view are rendered to static HTML
+export const isPublicPage = (page: Page) => !page.access || page.access.level === 'public';
+
+// Theme tokens for a page; pages still render with the built-in look if the theme can't be loaded
+export const loadPageTheme = async (page: Page) => {
+  try {
+    return await resolveTheme(page.theme);
+  } catch (error) {
+    console.error('Error resolving page theme:', error);
+    return BASE_THEME;
+  }
+};
+
+// Render every published public page for export. Pages with A/B variants are
+// rendered with their base components; restricted pages are skipped. Links to
+// other exported pages point at their file (<pageId>.html), links to any other
+// page at the client app.
+export const renderPublishedPages = async (options: { apiUrl: string; appUrl: string; locale?: string }) => {
+  const locale = options.locale || getDefaultLocale();
+  const pageConfigs = await prisma.pageConfig.findMany({
+    where: { published_version: { not: null } },
+    select: { page_id: true },
+    orderBy: { page_id: 'asc' }
+  });
+
+  const pages: Page[] = [];
+  const skipped: { pageId: string; reason: string }[] = [];
+  for (const { page_id: pageId } of pageConfigs) {
+    const published = await getPublishedPage(pageId);
+    if (!published) continue;
+
+    if (isPublicPage(published)) {
+      pages.push(published);
+    } else {
+      skipped.push({ pageId, reason: 'restricted access' });
+    }
+  }
+
+  const exported = new Set(pages.map((page) => page.pageId));
+  // Navigate targets can be templated, so the page ID may be anything
+  const pageHref = (pageId: string) =>
+    exported.has(pageId) ? `${pageId}.html` : `${options.appUrl}/${encodeURIComponent(pageId)}`;
+
+  const rendered: { pageId: string; html: string }[] = [];
+  for (const published of pages) {
+    const { variants: _variants, ...base } = published;
+    const page = await translatePage(await resolvePageFragments(base), locale);
+    const theme = await loadPageTheme(page);
+    rendered.push({
+      pageId: page.pageId,
+      html: renderPageHtml(page, { apiUrl: options.apiUrl, appUrl: options.appUrl, pageHref, theme, locale })
+    });
+  }
+
+  return { locale, rendered, skipped };
+};
@@ -0,0 +1,59 @@
+import prisma from '../config/prisma.js';
+import { Page, ValidationError } from '../models/PageConfig.js';
+import { Theme, ThemeTokens, mergeTokens, toTheme, toThemeData } from '../models/Theme.js';
+import { findPagesUsing } from './pageConfigService.js';
+
+const loadTheme = async (themeId: string) => {
+  const record = await prisma.theme.findUnique({ where: { theme_id: themeId } });
+  return record && toTheme(record);
+};
+
+const loadDefaultTheme = async () => {
+  const record = await prisma.theme.findFirst({ where: { is_default: true } });
+  return record && toTheme(record);
+};
+
+// Token values for a page: its own theme over the default theme over the built-in
+// values. A theme that no longer exists is skipped with a warning.
+export const resolveTheme = async (themeId?: string): Promise<ThemeTokens> => {
+  const defaultTheme = await loadDefaultTheme();
+  if (!themeId || themeId === defaultTheme?.themeId) {
+    return mergeTokens(defaultTheme?.tokens);
+  }
+
+  const theme = await loadTheme(themeId);
+  if (!theme) {
+    console.warn(`Theme "${themeId}" not found, using the default theme`);
+  }
+  return mergeTokens(defaultTheme?.tokens, theme?.tokens);
+};
+
+// Check that a (valid) page's theme exists
+export const validatePageTheme = async (page: Page): Promise<ValidationError[]> => {
+  if (page.theme === undefined || (await loadTheme(page.theme))) return [];
+  return [{ path: 'theme', message: `Unknown theme "${page.theme}"` }];
+};
+
+// Pages whose draft or published version selects a theme
+export const getThemeUsage = async (themeId: string) => ({
+  pages: await findPagesUsing((config) => config?.theme === themeId)
+});
+
+// Store a new theme, or replace an existing one. Marking a theme as the default
+// unmarks the previous default in the same transaction.
+export const saveTheme = async (theme: Theme, create: boolean) => {
+  const data = toThemeData(theme);
+
+  return prisma.$transaction(async (tx) => {
+    if (data.is_default) {
+      await tx.theme.updateMany({
+        where: { is_default: true, NOT: { theme_id: data.theme_id } },
+        data: { is_default: false }
+      });
+    }
+
+    return create
+      ? tx.theme.create({ data })
+      : tx.theme.update({ where: { theme_id: data.theme_id }, data });
+  });
+};
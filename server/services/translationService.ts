@@ -0,0 +1,153 @@
+import prisma from '../config/prisma.js';
+import { Page, isPlainObject, toPage } from '../models/PageConfig.js';
+import { StringTable, getDefaultLocale, toStringTable, toStringTableData, translationKey } from '../models/Translation.js';
+import { resolvePageFragments } from './fragmentService.js';
+
+// Locales that can be served: every stored string table, plus the default locale
+export const listLocales = async () => {
+  const records = await prisma.stringTable.findMany({
+    select: { locale: true },
+    orderBy: { locale: 'asc' }
+  });
+  const defaultLocale = getDefaultLocale();
+  const locales = records.map((record) => record.locale);
+
+  return locales.includes(defaultLocale) ? locales : [defaultLocale, ...locales];
+};
+
+// Language tags from an Accept-Language header, most preferred first.
+// Wildcards and tags with q=0 are dropped.
+export const parseAcceptLanguage = (header: string | undefined): string[] => {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((param) => param.trim().match(/^q=([\d.]+)$/)).find(Boolean);
+      return { tag: tag.trim(), q: q ? Number(q[1]) : 1, index };
+    })
+    .filter(({ tag, q }) => tag !== '' && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map(({ tag }) => tag);
+};
+
+// First requested locale that can be served: an exact match (ignoring case), else a
+// locale with the same base language ("de-AT" → "de"). Falls back to the default locale.
+export const negotiateLocale = (requested: (string | null | undefined)[], available: string[]) => {
+  for (const tag of requested) {
+    if (!tag) continue;
+    const wanted = tag.toLowerCase();
+    const base = wanted.split('-')[0];
+
+    const match = available.find((locale) => locale.toLowerCase() === wanted) ||
+      available.find((locale) => locale.toLowerCase() === base);
+    if (match) return match;
+  }
+
+  return getDefaultLocale();
+};
+
+// Strings of a locale, or an empty table if none is stored
+const loadStrings = async (locale: string) => {
+  const record = await prisma.stringTable.findUnique({ where: { locale } });
+  return record ? toStringTable(record).strings : {};
+};
+
+// Replace every "$t:" reference in a value, keeping everything else as is
+const translateValue = (value: unknown, lookup: (key: string) => string): unknown => {
+  const key = translationKey(value);
+  if (key !== null) return lookup(key);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => translateValue(item, lookup));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, translateValue(item, lookup)]));
+  }
+  return value;
+};
+
+// Translate a page for serving. Keys missing from the locale use the default
+// locale's string; keys missing from both are shown as the bare key.
+export const translatePage = async (page: Page, locale: string): Promise<Page> => {
+  const defaultLocale = getDefaultLocale();
+  const strings = await loadStrings(locale);
+  const fallback = locale === defaultLocale ? {} : await loadStrings(defaultLocale);
+
+  return translateValue(page, (key) => strings[key] ?? fallback[key] ?? key) as Page;
+};
+
+// Translation keys used in a value, with the paths they are used at
+export const collectTranslationKeys = (value: unknown, path = '', keys: Map<string, string[]> = new Map()) => {
+  const key = translationKey(value);
+  if (key !== null) {
+    keys.set(key, [...(keys.get(key) || []), path]);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectTranslationKeys(item, `${path}[${index}]`, keys));
+  } else if (isPlainObject(value)) {
+    for (const [name, item] of Object.entries(value)) {
+      collectTranslationKeys(item, path ? `${path}.${name}` : name, keys);
+    }
+  }
+  return keys;
+};
+
+// All string tables of the servable locales, keyed by locale
+const loadAllStrings = async () => {
+  const records = await prisma.stringTable.findMany();
+  const tables = new Map(records.map((record) => [record.locale, toStringTable(record).strings]));
+
+  return new Map((await listLocales()).map((locale) => [locale, tables.get(locale) || {}]));
+};
+
+// Keys of a page (fragments included) and, per locale, the ones without a translation
+const reportPage = async (page: Page, tables: Map<string, Record<string, string>>) => {
+  const keys = collectTranslationKeys(await resolvePageFragments(page));
+
+  return {
+    keys: [...keys].map(([key, paths]) => ({ key, paths })),
+    locales: [...tables].map(([locale, strings]) => {
+      const missing = [...keys.keys()].filter((key) => strings[key] === undefined);
+      return { locale, translated: keys.size - missing.length, missing };
+    })
+  };
+};
+
+// Missing-translation report for one page
+export const getPageTranslationReport = async (page: Page) => ({
+  default_locale: getDefaultLocale(),
+  ...(await reportPage(page, await loadAllStrings()))
+});
+
+// Missing-translation counts for the drafts of every page that uses translation keys
+export const getTranslationSummary = async () => {
+  const tables = await loadAllStrings();
+  const pageConfigs = await prisma.pageConfig.findMany({ orderBy: { page_id: 'asc' } });
+
+  const pages = [];
+  for (const pageConfig of pageConfigs) {
+    const report = await reportPage(toPage(pageConfig), tables);
+    if (report.keys.length === 0) continue;
+
+    pages.push({
+      page_id: pageConfig.page_id,
+      title: pageConfig.title,
+      keys: report.keys.length,
+      missing: Object.fromEntries(report.locales.map(({ locale, missing }) => [locale, missing.length]))
+    });
+  }
+
+  return { default_locale: getDefaultLocale(), locales: [...tables.keys()], pages };
+};
+
+// Store a locale's strings, replacing any stored before
+export const saveStringTable = (table: StringTable) => {
+  const data = toStringTableData(table);
+
+  return prisma.stringTable.upsert({
+    where: { locale: data.locale },
+    create: data,
+    update: { strings: data.strings }
+  });
+};
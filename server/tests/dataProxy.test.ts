@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DataSource } from '../config/dataSources.js';
+import { buildUpstreamUrl, proxyRequest } from '../services/dataProxyService.js';
+
+const source: DataSource = {
+  name: 'crm',
+  baseUrl: 'https://crm.example.com/api',
+  headers: { Authorization: 'Bearer secret' },
+  query: { key: 'server-key' },
+  methods: ['GET', 'POST'],
+  paths: ['/**'],
+  access: { level: 'public' },
+  timeoutMs: 1000,
+  maxResponseBytes: 64
+};
+
+const respond = (body: string, headers: Record<string, string>, status = 200) =>
+  vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(body || null, { status, headers }));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('buildUpstreamUrl', () => {
+  it('encodes each path segment and lets the source query win', () => {
+    const url = buildUpstreamUrl(source, '/customers/a%2F..%2Fadmin', '?key=mine&page=2');
+    expect(url.pathname).toBe('/api/customers/a%252F..%252Fadmin');
+    expect(url.searchParams.get('key')).toBe('server-key');
+    expect(url.searchParams.get('page')).toBe('2');
+  });
+});
+
+describe('proxyRequest', () => {
+  const request = { method: 'GET', path: '/customers', search: '' };
+
+  it('relays the upstream status and body', async () => {
+    respond('{"items":[]}', { 'Content-Type': 'application/json; charset=utf-8' }, 201);
+    expect(await proxyRequest(source, request)).toEqual({ ok: true, status: 201, body: Buffer.from('{"items":[]}') });
+  });
+
+  it('sends the source headers and a JSON body', async () => {
+    const fetch = respond('{}', { 'Content-Type': 'application/json' });
+    await proxyRequest(source, { method: 'POST', path: '/customers', search: '', body: { name: 'Ada' } });
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(String(url)).toBe('https://crm.example.com/api/customers?key=server-key');
+    expect(init).toMatchObject({
+      method: 'POST',
+      body: '{"name":"Ada"}',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json', Authorization: 'Bearer secret' }
+    });
+  });
+
+  it('accepts +json types and empty bodies', async () => {
+    respond('{"title":"Not found"}', { 'Content-Type': 'application/problem+json' }, 404);
+    expect(await proxyRequest(source, request)).toMatchObject({ ok: true, status: 404 });
+
+    respond('', {}, 204);
+    expect(await proxyRequest(source, request)).toMatchObject({ ok: true, status: 204 });
+  });
+
+  it('refuses responses that are not JSON', async () => {
+    for (const contentType of ['text/html', 'application/jsonp', 'text/plain; x=application/json']) {
+      respond('<script>alert(1)</script>', { 'Content-Type': contentType });
+      expect(await proxyRequest(source, request)).toEqual({
+        ok: false,
+        status: 502,
+        message: 'Data source did not respond with JSON'
+      });
+    }
+
+    respond('<script>alert(1)</script>', {});
+    expect(await proxyRequest(source, request)).toMatchObject({ ok: false, status: 502 });
+  });
+
+  it('refuses responses over the size limit', async () => {
+    respond(JSON.stringify({ data: 'x'.repeat(100) }), { 'Content-Type': 'application/json' });
+    expect(await proxyRequest(source, request)).toEqual({ ok: false, status: 502, message: 'Data source response too large' });
+  });
+});
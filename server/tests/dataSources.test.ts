@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DataSource, isPathAllowed } from '../config/dataSources.js';
+
+const source = (paths: string[]): DataSource => ({
+  name: 'crm',
+  baseUrl: 'https://crm.example.com/api',
+  headers: {},
+  query: {},
+  methods: ['GET'],
+  paths,
+  access: { level: 'public' },
+  timeoutMs: 1000,
+  maxResponseBytes: 1024
+});
+
+describe('isPathAllowed', () => {
+  it('matches exact paths', () => {
+    expect(isPathAllowed(source(['/customers']), '/customers')).toBe(true);
+    expect(isPathAllowed(source(['/customers']), '/customers/')).toBe(true);
+    expect(isPathAllowed(source(['/customers']), '/customers/1')).toBe(false);
+    expect(isPathAllowed(source(['/customers']), '/orders')).toBe(false);
+  });
+
+  it('matches one segment with "*"', () => {
+    const allowed = source(['/customers/*/orders']);
+    expect(isPathAllowed(allowed, '/customers/42/orders')).toBe(true);
+    expect(isPathAllowed(allowed, '/customers/orders')).toBe(false);
+    expect(isPathAllowed(allowed, '/customers/42/7/orders')).toBe(false);
+  });
+
+  it('matches the rest of the path with a trailing "**"', () => {
+    const allowed = source(['/reports/**']);
+    expect(isPathAllowed(allowed, '/reports')).toBe(true);
+    expect(isPathAllowed(allowed, '/reports/2024/q1')).toBe(true);
+    expect(isPathAllowed(allowed, '/admin/reports')).toBe(false);
+  });
+
+  it('allows nothing without patterns', () => {
+    expect(isPathAllowed(source([]), '/')).toBe(false);
+  });
+});
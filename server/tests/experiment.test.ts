@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import { readTokenUserId } from '../middleware/auth.js';
+import { PageVariant } from '../models/PageConfig.js';
+import { pickVariant } from '../services/experimentService.js';
+
+vi.mock('../config/prisma.js', () => ({ default: {} }));
+
+const variants: PageVariant[] = [
+  { id: 'a', weight: 1 },
+  { id: 'b', weight: 3 }
+];
+
+describe('pickVariant', () => {
+  it('gives a visitor the same variant every time', () => {
+    const first = pickVariant(variants, 'home', 'visitor-1');
+    for (let i = 0; i < 5; i++) {
+      expect(pickVariant(variants, 'home', 'visitor-1')).toBe(first);
+    }
+  });
+
+  it('splits visitors roughly by weight', () => {
+    let b = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (pickVariant(variants, 'home', `visitor-${i}`).id === 'b') b++;
+    }
+    expect(b / 2000).toBeGreaterThan(0.7);
+    expect(b / 2000).toBeLessThan(0.8);
+  });
+
+  it('never picks a variant without weight', () => {
+    const withZero: PageVariant[] = [{ id: 'off', weight: 0 }, { id: 'on', weight: 1 }];
+    for (let i = 0; i < 100; i++) {
+      expect(pickVariant(withZero, 'home', `visitor-${i}`).id).toBe('on');
+    }
+  });
+});
+
+describe('readTokenUserId', () => {
+  const withToken = (payload: object) =>
+    ({ cookies: { token: jwt.sign(payload, process.env.JWT_SECRET || 'default-secret') } }) as unknown as Request;
+
+  it('returns the user ID from a valid token', () => {
+    expect(readTokenUserId(withToken({ userId: 7, role: 'user' }))).toBe(7);
+  });
+
+  it('ignores tokens without a numeric user ID', () => {
+    expect(readTokenUserId(withToken({ role: 'user' }))).toBeNull();
+    expect(readTokenUserId(withToken({ userId: '7', role: 'user' }))).toBeNull();
+  });
+
+  it('ignores missing and invalid tokens', () => {
+    expect(readTokenUserId({ cookies: {} } as Request)).toBeNull();
+    expect(readTokenUserId({ cookies: { token: 'not-a-token' } } as unknown as Request)).toBeNull();
+  });
+});
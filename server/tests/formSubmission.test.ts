@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+import { validateSubmission } from '../services/formSubmissionService.js';
+
+vi.mock('../config/prisma.js', () => ({ default: {} }));
+
+const fields = [
+  { id: 'email', type: 'email', label: 'Email', required: true },
+  { id: 'plan', type: 'select', label: 'Plan', options: [{ value: 'free', label: 'Free' }, { value: 'pro', label: 'Pro' }] },
+  { id: 'code', type: 'text', label: 'Code', pattern: '[A-Z]{3}', visibleWhen: { source: 'form', path: 'signup.plan', op: 'eq', value: 'pro' } }
+];
+
+describe('validateSubmission', () => {
+  it('returns the values of a valid submission', () => {
+    expect(validateSubmission(fields, { email: 'a@example.com', plan: 'pro', code: 'ABC' })).toEqual({
+      data: { email: 'a@example.com', plan: 'pro', code: 'ABC' },
+      errors: []
+    });
+  });
+
+  it('accepts numeric option values, which arrive as strings', () => {
+    const seats = [{ id: 'seats', type: 'select', label: 'Seats', options: [{ value: 1, label: 'One' }, { value: 5, label: 'Five' }] }];
+    expect(validateSubmission(seats, { seats: '5' })).toEqual({ data: { seats: '5' }, errors: [] });
+    expect(validateSubmission(seats, { seats: '2' }).errors).toEqual([
+      { path: 'seats', message: 'Seats must be one of the listed options' }
+    ]);
+  });
+
+  it('skips hidden fields the client left out', () => {
+    expect(validateSubmission(fields, { email: 'a@example.com', plan: 'free' }).errors).toEqual([]);
+  });
+
+  it('rejects unlisted options, unknown fields and bad formats', () => {
+    expect(validateSubmission(fields, { email: 'nope', plan: 'gold', code: 'abc', extra: 'x' }).errors).toEqual([
+      { path: 'extra', message: 'Unknown field "extra"' },
+      { path: 'email', message: 'Enter a valid email address' },
+      { path: 'plan', message: 'Plan must be one of the listed options' },
+      { path: 'code', message: 'Code is not in the expected format' }
+    ]);
+  });
+
+  it('refuses long values before running the pattern', () => {
+    const slow = [{ id: 'code', type: 'text', label: 'Code', pattern: '(a+)+b' }];
+    expect(validateSubmission(slow, { code: 'a'.repeat(5000) }).errors).toEqual([
+      { path: 'code', message: 'Code must be at most 1000 characters' }
+    ]);
+  });
+
+  it('requires an object of field values', () => {
+    expect(validateSubmission(fields, 'email=a').errors).toEqual([
+      { path: '', message: 'Submission must be an object of field values' }
+    ]);
+  });
+});
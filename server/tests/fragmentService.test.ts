@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Component, Page } from '../models/PageConfig.js';
+import { resolvePageFragments, validateFragmentRefs, validatePageFragments } from '../services/fragmentService.js';
+
+const fragments = new Map<string, Component[]>();
+
+vi.mock('../config/prisma.js', () => ({
+  default: {
+    fragment: {
+      findUnique: async ({ where }: { where: { fragment_id: string } }) => {
+        const components = fragments.get(where.fragment_id);
+        return components
+          ? { fragment_id: where.fragment_id, title: where.fragment_id, components, created_at: new Date(), updated_at: new Date() }
+          : null;
+      }
+    }
+  }
+}));
+
+const table: Component = {
+  id: 'orders',
+  type: 'table',
+  props: { api: { url: '/api/orders' }, columns: [{ field: 'id', label: 'ID' }] }
+};
+
+const reload: Component = {
+  id: 'reload',
+  type: 'button',
+  props: { label: 'Reload', onClick: { refresh: 'orders' } },
+  visibleWhen: { source: 'data', path: 'orders.items', op: 'exists' }
+};
+
+const greeting: Component = { id: 'greeting', type: 'text', props: { content: 'Rows: {{data.orders.total}}' } };
+
+const instance = (id: string, ref: string, overrides?: Component['overrides']): Component => ({
+  id,
+  type: 'fragment',
+  ref,
+  props: {},
+  ...(overrides && { overrides })
+});
+
+const page = (components: Component[]): Page => ({ pageId: 'home', title: 'Home', components });
+
+beforeEach(() => {
+  fragments.clear();
+  fragments.set('order-list', [table, reload, greeting]);
+});
+
+describe('resolvePageFragments', () => {
+  it('prefixes fragment component IDs and their references with the instance ID', async () => {
+    const resolved = await resolvePageFragments(page([instance('recent', 'order-list')]));
+
+    expect(resolved.components).toEqual([
+      {
+        id: 'recent',
+        type: 'container',
+        props: {},
+        children: [
+          { ...table, id: 'recent__orders' },
+          {
+            ...reload,
+            id: 'recent__reload',
+            props: { label: 'Reload', onClick: { refresh: 'recent__orders' } },
+            visibleWhen: { source: 'data', path: 'recent__orders.items', op: 'exists' }
+          },
+          { ...greeting, id: 'recent__greeting', props: { content: 'Rows: {{data.recent__orders.total}}' } }
+        ]
+      }
+    ]);
+  });
+
+  it('applies overrides by the IDs inside the fragment', async () => {
+    const resolved = await resolvePageFragments(page([instance('recent', 'order-list', { reload: { label: 'Again' } })]));
+    expect(resolved.components[0].children?.[1].props.label).toBe('Again');
+  });
+
+  it('nests the prefixes of fragments inside fragments', async () => {
+    fragments.set('dashboard', [instance('list', 'order-list')]);
+    const resolved = await resolvePageFragments(page([instance('main', 'dashboard')]));
+    const [list] = resolved.components[0].children || [];
+
+    expect(list.id).toBe('main__list');
+    expect(list.children?.map(({ id }) => id)).toEqual(['main__list__orders', 'main__list__reload', 'main__list__greeting']);
+    expect(list.children?.[1].props.onClick).toEqual({ refresh: 'main__list__orders' });
+  });
+
+  it('leaves out instances of fragments that no longer exist', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const resolved = await resolvePageFragments(page([instance('gone', 'missing'), greeting]));
+    expect(resolved.components).toEqual([greeting]);
+    warn.mockRestore();
+  });
+});
+
+describe('validatePageFragments', () => {
+  it('allows the same fragment twice on one page', async () => {
+    expect(await validatePageFragments(page([instance('first', 'order-list'), instance('second', 'order-list')]))).toEqual([]);
+  });
+
+  it('resolves page references to fragment components by their prefixed IDs', async () => {
+    const refresh: Component = { id: 'refresh-all', type: 'button', props: { label: 'All', onClick: { refresh: ['a__orders', 'b__orders'] } } };
+    expect(await validatePageFragments(page([instance('a', 'order-list'), instance('b', 'order-list'), refresh]))).toEqual([]);
+
+    const broken: Component = { id: 'broken', type: 'button', props: { label: 'Broken', onClick: { refresh: 'c__orders' } } };
+    expect(await validatePageFragments(page([instance('a', 'order-list'), broken]))).toEqual([
+      { path: 'components[1].props.onClick.refresh', message: 'Unknown component "c__orders"' }
+    ]);
+  });
+
+  it('reports IDs that clash with a prefixed fragment ID', async () => {
+    expect(await validatePageFragments(page([{ ...greeting, id: 'a__orders' }, instance('a', 'order-list')]))).toEqual([
+      {
+        path: 'components[1].ref',
+        message: 'Component id "a__orders" is used more than once after including fragments (first at components[0])'
+      }
+    ]);
+  });
+
+  it('reports unknown fragments, cycles and unknown override targets', async () => {
+    fragments.set('loop-a', [instance('b', 'loop-b')]);
+    fragments.set('loop-b', [instance('a', 'loop-a')]);
+
+    expect(
+      await validatePageFragments(
+        page([instance('x', 'missing'), instance('y', 'loop-a'), instance('z', 'order-list', { nope: { label: 'No' } })])
+      )
+    ).toEqual([
+      { path: 'components[0].ref', message: 'Unknown fragment "missing"' },
+      { path: 'components[1].ref', message: 'Fragment cycle: loop-a → loop-b → loop-a' },
+      { path: 'components[2].overrides.nope', message: 'Fragment "order-list" has no component "nope"' }
+    ]);
+  });
+});
+
+describe('validateFragmentRefs', () => {
+  it('catches a fragment that includes itself', async () => {
+    expect(
+      await validateFragmentRefs({ fragmentId: 'self', title: 'Self', components: [instance('again', 'self')] })
+    ).toEqual([{ path: 'components[0].ref', message: 'Fragment cycle: self → self' }]);
+  });
+});
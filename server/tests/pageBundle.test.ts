@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BUNDLE_FORMAT, BUNDLE_VERSION, validateBundle } from '../services/pageBundleService.js';
+
+vi.mock('../config/prisma.js', () => ({ default: {} }));
+
+const page = (pageId: string) => ({ pageId, title: pageId, components: [] });
+
+const bundle = (pages: unknown) => ({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exported_at: '2024-01-01T00:00:00.000Z', pages });
+
+describe('validateBundle', () => {
+  it('accepts a bundle of valid pages', () => {
+    expect(validateBundle(bundle([page('home'), page('about')]))).toEqual([]);
+  });
+
+  it('rejects other JSON and other versions', () => {
+    expect(validateBundle({ pages: [] })).toEqual([
+      { path: 'format', message: `Not a page bundle (expected format "${BUNDLE_FORMAT}")` }
+    ]);
+    expect(validateBundle({ ...bundle([]), version: 2 })).toEqual([
+      { path: 'version', message: 'Unsupported bundle version 2' }
+    ]);
+    expect(validateBundle(bundle({}))).toEqual([{ path: 'pages', message: 'Must be an array of pages' }]);
+  });
+
+  it('prefixes page errors with the page index and reports duplicates', () => {
+    expect(validateBundle(bundle([page('home'), { ...page('home'), title: '' }]))).toEqual([
+      { path: 'pages[1].title', message: 'Title is required' },
+      { path: 'pages[1].pageId', message: 'Duplicate page "home" in bundle' }
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { hasNestedRepetition, isSafeUrl, validatePageConfig } from '../models/PageConfig.js';
+
+const page = (components: unknown[], fields: Record<string, unknown> = {}) => ({
+  pageId: 'orders',
+  title: 'Orders',
+  components,
+  ...fields
+});
+
+const button = (onClick: unknown) => ({ id: 'go', type: 'button', props: { label: 'Go', onClick } });
+
+const table = { id: 'orders', type: 'table', props: { columns: [{ field: 'id', label: 'ID' }], api: { url: '/api/orders' } } };
+
+describe('validatePageConfig', () => {
+  it('accepts a valid page', () => {
+    expect(validatePageConfig(page([table, button({ refresh: 'orders' })]))).toEqual([]);
+  });
+
+  it('rejects bad page IDs, reserved IDs and missing titles', () => {
+    expect(validatePageConfig(page([], { pageId: 'Bad ID', title: ' ' }))).toEqual([
+      { path: 'pageId', message: 'Page ID must contain only lowercase letters, numbers and single hyphens' },
+      { path: 'title', message: 'Title is required' }
+    ]);
+    expect(validatePageConfig(page([], { pageId: 'login' }))).toEqual([
+      { path: 'pageId', message: 'Page ID "login" is reserved' }
+    ]);
+  });
+
+  it('reports duplicate component IDs across containers', () => {
+    const errors = validatePageConfig(page([table, { id: 'box', type: 'container', props: {}, children: [{ ...table }] }]));
+    expect(errors).toContainEqual({
+      path: 'components[1].children[0].id',
+      message: 'Duplicate component id "orders" (first used at components[0].id)'
+    });
+  });
+
+  it('rejects unknown types, missing required props and children outside containers', () => {
+    const errors = validatePageConfig(
+      page([
+        { id: 'a', type: 'video', props: {} },
+        { id: 'b', type: 'button', props: {} },
+        { id: 'c', type: 'text', props: { content: 'Hi' }, children: [] }
+      ])
+    );
+    expect(errors).toEqual([
+      { path: 'components[0].type', message: expect.stringContaining('Unknown component type "video"') },
+      { path: 'components[1].props.label', message: 'button component requires "label"' },
+      { path: 'components[2].children', message: 'Only container components can have children' }
+    ]);
+  });
+
+  it('rejects patterns that are invalid, too long or slow', () => {
+    const form = (pattern: unknown) => page([{
+      id: 'signup',
+      type: 'form',
+      props: { fields: [{ id: 'code', type: 'text', pattern }], submit: { label: 'Send', store: true } }
+    }]);
+    const path = 'components[0].props.fields[0].pattern';
+    expect(validatePageConfig(form('[A-Z]{3}'))).toEqual([]);
+    expect(validatePageConfig(form(5))).toEqual([{ path, message: 'Pattern must be a string' }]);
+    expect(validatePageConfig(form('a'.repeat(201)))).toEqual([{ path, message: 'Pattern must be at most 200 characters' }]);
+    expect(validatePageConfig(form('a)|(b'))).toEqual([{ path, message: 'Pattern is not a valid regular expression' }]);
+    expect(validatePageConfig(form('(a+)+'))).toEqual([{ path, message: expect.stringContaining('can be very slow') }]);
+  });
+
+  it('checks api blocks', () => {
+    const errors = validatePageConfig(page([{ ...table, props: { ...table.props, api: { url: '', method: 'TRACE' } } }]));
+    expect(errors).toEqual([
+      { path: 'components[0].props.api.method', message: 'Unsupported HTTP method "TRACE"' },
+      { path: 'components[0].props.api.url', message: 'API url is required' }
+    ]);
+  });
+
+  it('requires either a url or a known data source', () => {
+    const errors = validatePageConfig(
+      page([{ ...table, props: { ...table.props, api: { url: '/api/orders', source: 'nope', path: 'orders' } } }])
+    );
+    expect(errors).toEqual([
+      { path: 'components[0].props.api.url', message: 'Use either "url" or "source", not both' },
+      { path: 'components[0].props.api.path', message: 'Data source path must start with "/"' },
+      { path: 'components[0].props.api.source', message: 'Unknown data source "nope"' }
+    ]);
+  });
+
+  it('checks refresh targets against the tree', () => {
+    expect(validatePageConfig(page([table, button({ refresh: ['orders'] })]))).toEqual([]);
+    expect(validatePageConfig(page([button({ refresh: 'missing' })]))).toEqual([
+      { path: 'components[0].props.onClick.refresh', message: 'Unknown component "missing"' }
+    ]);
+    expect(validatePageConfig(page([{ id: 'intro', type: 'text', props: { content: 'Hi' } }, button({ refresh: 'intro' })]))).toEqual([
+      { path: 'components[1].props.onClick.refresh', message: 'Component "intro" is a text, expected a table' }
+    ]);
+  });
+
+  it('leaves unknown references in trees with fragments to the fragment checks', () => {
+    const fragment = { id: 'promo', type: 'fragment', ref: 'promo-block' };
+    expect(validatePageConfig(page([fragment, button({ refresh: 'promo__orders' })]))).toEqual([]);
+  });
+
+  it('rejects navigate URLs with unsafe schemes', () => {
+    for (const url of ['javascript:alert(1)', 'JavaScript:alert(1)', ' java\tscript:alert(1)', 'data:text/html,<script>']) {
+      expect(validatePageConfig(page([button({ navigate: { url } })]))).toEqual([
+        { path: 'components[0].props.onClick.navigate.url', message: 'Navigation URL must be relative or use http(s)' }
+      ]);
+    }
+  });
+
+  it('accepts relative, http(s) and templated navigate URLs', () => {
+    for (const url of ['/orders', 'orders?id=1', 'https://example.com', 'http://example.com/{{query.id}}', '{{query.next}}']) {
+      expect(validatePageConfig(page([button({ navigate: { url } })]))).toEqual([]);
+    }
+  });
+
+  it('requires a page or URL to navigate to', () => {
+    expect(validatePageConfig(page([button({ navigate: { pageId: 'home' } })]))).toEqual([]);
+    expect(validatePageConfig(page([button({ navigate: {} })]))).toEqual([
+      { path: 'components[0].props.onClick.navigate', message: 'Navigation requires a "pageId" or "url"' }
+    ]);
+  });
+
+  it('checks {{ }} template expressions in props', () => {
+    const text = (content: string) => page([{ id: 'intro', type: 'text', props: { content } }]);
+
+    expect(validatePageConfig(text('Hi {{user.name || query.name || "there"}}, order {{data.orders.items[0].id}}'))).toEqual([]);
+    expect(validatePageConfig(text('{{ secrets.key }}'))).toEqual([
+      { path: 'components[0].props.content', message: 'Unknown template value "secrets". Expected one of: user, route, query, form, data' }
+    ]);
+    expect(validatePageConfig(text('{{user.name + 1}}'))).toEqual([
+      { path: 'components[0].props.content', message: 'Invalid template expression "{{user.name + 1}}"' }
+    ]);
+  });
+});
+
+describe('hasNestedRepetition', () => {
+  it('flags repeated groups that contain a repetition', () => {
+    expect(hasNestedRepetition('(a+)+')).toBe(true);
+    expect(hasNestedRepetition('(\\w+\\s?)*')).toBe(true);
+    expect(hasNestedRepetition('((ab)*c){2,}')).toBe(true);
+    expect(hasNestedRepetition('(?:x(a|b)*)+')).toBe(true);
+  });
+
+  it('allows single repetitions, fixed counts and escaped or bracketed characters', () => {
+    expect(hasNestedRepetition('[0-9]{5}')).toBe(false);
+    expect(hasNestedRepetition('(\\d{3})-(\\d{4})')).toBe(false);
+    expect(hasNestedRepetition('(ab)+c*')).toBe(false);
+    expect(hasNestedRepetition('(a{2}){3}')).toBe(false);
+    expect(hasNestedRepetition('(a\\+)+')).toBe(false);
+    expect(hasNestedRepetition('([+*])+')).toBe(false);
+  });
+});
+
+describe('isSafeUrl', () => {
+  it('allows relative and http(s) URLs only', () => {
+    expect(isSafeUrl('/a/b')).toBe(true);
+    expect(isSafeUrl('https://example.com')).toBe(true);
+    expect(isSafeUrl('HTTP://example.com')).toBe(true);
+    expect(isSafeUrl('mailto:someone@example.com')).toBe(false);
+    expect(isSafeUrl('javascript:void(0)')).toBe(false);
+    expect(isSafeUrl('\u0000javascript:void(0)')).toBe(false);
+    expect(isSafeUrl('vbscript:msgbox')).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Component, Page } from '../models/PageConfig.js';
+import { diffPageConfigs } from '../services/pageDiffService.js';
+
+const text = (id: string, content = id): Component => ({ id, type: 'text', props: { content } });
+
+const page = (components: Component[], fields: Partial<Page> = {}): Page => ({
+  pageId: 'home',
+  title: 'Home',
+  components,
+  ...fields
+});
+
+const ids = (entries: { id: string }[]) => entries.map(({ id }) => id);
+
+describe('diffPageConfigs', () => {
+  it('reports nothing for identical pages', () => {
+    const components = [text('a'), text('b')];
+    expect(diffPageConfigs(page(components), page(components))).toEqual({
+      fields: [],
+      added: [],
+      removed: [],
+      moved: [],
+      changed: []
+    });
+  });
+
+  it('reports page fields, added, removed and changed components', () => {
+    const diff = diffPageConfigs(page([text('a'), text('b')]), page([text('a', 'A'), text('c')], { title: 'Start' }));
+
+    expect(diff.fields).toEqual([{ field: 'title', oldValue: 'Home', newValue: 'Start' }]);
+    expect(diff.added).toEqual([{ id: 'c', type: 'text', parentId: null, index: 1 }]);
+    expect(diff.removed).toEqual([{ id: 'b', type: 'text', parentId: null, index: 1 }]);
+    expect(diff.changed).toEqual([
+      { id: 'a', type: 'text', changes: [{ field: 'props.content', oldValue: 'a', newValue: 'A' }] }
+    ]);
+    expect(diff.moved).toEqual([]);
+  });
+
+  it('does not count components shifted by an insert as moved', () => {
+    const diff = diffPageConfigs(page([text('a'), text('b'), text('c')]), page([text('x'), text('a'), text('b'), text('c')]));
+    expect(ids(diff.added)).toEqual(['x']);
+    expect(diff.moved).toEqual([]);
+  });
+
+  it('moves only the components outside the longest kept order', () => {
+    const before = page([text('a'), text('b'), text('c'), text('d')]);
+    const diff = diffPageConfigs(before, page([text('b'), text('c'), text('d'), text('a')]));
+    expect(diff.moved).toEqual([
+      { id: 'a', type: 'text', from: { parentId: null, index: 0 }, to: { parentId: null, index: 3 } }
+    ]);
+  });
+
+  it('counts a change of parent as a move', () => {
+    const before = page([text('a'), { id: 'box', type: 'container', props: {}, children: [] }]);
+    const after = page([{ id: 'box', type: 'container', props: {}, children: [text('a')] }]);
+    expect(diffPageConfigs(before, after).moved).toEqual([
+      { id: 'a', type: 'text', from: { parentId: null, index: 0 }, to: { parentId: 'box', index: 0 } }
+    ]);
+  });
+
+  it('ignores object key order', () => {
+    const before = page([{ id: 'a', type: 'text', props: { content: 'x', style: { color: 'primary', align: 'left' } } }]);
+    const after = page([{ id: 'a', type: 'text', props: { style: { align: 'left', color: 'primary' }, content: 'x' } }]);
+    expect(diffPageConfigs(before, after).changed).toEqual([]);
+  });
+});
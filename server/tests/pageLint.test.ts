@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { countFindings, lintPage, validateLintOptions } from '../services/pageLintService.js';
+
+const page = (components: unknown[]) => ({ pageId: 'home', title: 'Home', components });
+
+const rules = (findings: { rule: string }[]) => findings.map(({ rule }) => rule);
+
+describe('lintPage', () => {
+  it('reports validation errors as valid-config errors', () => {
+    expect(lintPage({ pageId: 'home', components: [] })).toEqual([
+      { rule: 'valid-config', severity: 'error', path: 'title', message: 'Title is required' }
+    ]);
+  });
+
+  it('finds images without alt text and forms without required fields', () => {
+    const findings = lintPage(
+      page([
+        { id: 'logo', type: 'image', props: { src: '/logo.png' } },
+        {
+          id: 'signup',
+          type: 'form',
+          props: { fields: [{ id: 'email', type: 'email', label: 'Email' }], submit: { store: true } }
+        }
+      ])
+    );
+    expect(findings).toEqual([
+      { rule: 'image-alt', severity: 'warning', path: 'components[0].props.alt', message: 'Image has no alt text' },
+      { rule: 'form-required-field', severity: 'warning', path: 'components[1].props.fields', message: 'Form has no required field' }
+    ]);
+  });
+
+  it('checks table columns against sample responses', () => {
+    const table = {
+      id: 'orders',
+      type: 'table',
+      props: { api: { url: '/api/orders' }, dataPath: 'items', columns: [{ field: 'id', label: 'ID' }, { field: 'total', label: 'Total' }] }
+    };
+    expect(lintPage(page([table]), { samples: { orders: { items: [{ id: 1 }] } } })).toEqual([
+      {
+        rule: 'table-column-field',
+        severity: 'warning',
+        path: 'components[0].props.columns[1].field',
+        message: 'Field "total" does not appear in the sample response for "orders"'
+      }
+    ]);
+  });
+
+  it('flags writes to URLs outside the allowlist', () => {
+    const button = (url: string) => ({ id: url.length.toString(), type: 'button', props: { label: url, onClick: { api: { url } } } });
+    const findings = lintPage(page([button('/api/local'), button('https://api.example.com/v1/x'), button('https://evil.test/x')]), {
+      allowedUrls: ['https://api.example.com/v1']
+    });
+    expect(findings.map(({ path }) => path)).toEqual(['components[2].props.onClick.api.url']);
+    expect(rules(findings)).toEqual(['api-allowlist']);
+  });
+
+  it('flags containers nested too deeply and duplicate labels', () => {
+    const nest = (depth: number): any =>
+      depth === 0 ? [] : [{ id: `box${depth}`, type: 'container', props: {}, children: nest(depth - 1) }];
+    const buttons = [
+      { id: 'a', type: 'button', props: { label: 'Save' } },
+      { id: 'b', type: 'button', props: { label: ' save ' } }
+    ];
+    expect(rules(lintPage(page([...nest(5), ...buttons])))).toEqual(['container-depth', 'duplicate-label']);
+  });
+
+  it('applies configured severities', () => {
+    const image = { id: 'logo', type: 'image', props: { src: '/logo.png' } };
+    expect(lintPage(page([image]), { rules: { 'image-alt': 'off' } })).toEqual([]);
+    expect(lintPage(page([image]), { rules: { 'image-alt': 'error' } })[0].severity).toBe('error');
+  });
+});
+
+describe('validateLintOptions', () => {
+  it('rejects unknown rules and severities', () => {
+    expect(validateLintOptions({ rules: { 'image-alt': 'fatal', nope: 'error' }, samples: [] })).toEqual([
+      { path: 'rules.image-alt', message: 'Severity must be one of: error, warning, info, off' },
+      { path: 'rules.nope', message: expect.stringContaining('Unknown lint rule "nope"') },
+      { path: 'samples', message: 'Samples must be an object keyed by table component ID' }
+    ]);
+  });
+});
+
+describe('countFindings', () => {
+  it('counts findings per severity', () => {
+    expect(countFindings(lintPage({ pageId: 'home', components: [] }))).toEqual({ error: 1, warning: 0, info: 0 });
+  });
+});
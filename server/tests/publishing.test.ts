@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Component } from '../models/PageConfig.js';
+import { findPagesWithFragmentChanges } from '../services/fragmentService.js';
+import { getPublishedPage, publishPageConfig } from '../services/pageConfigService.js';
+
+const db = vi.hoisted(() => ({
+  fragments: new Map<string, { components: unknown; updated_at: Date }>(),
+  pageConfig: null as Record<string, any> | null,
+  versions: new Map<number, Record<string, any>>()
+}));
+
+vi.mock('../config/prisma.js', () => ({
+  default: {
+    fragment: {
+      findUnique: async ({ where }: { where: { fragment_id: string } }) => {
+        const fragment = db.fragments.get(where.fragment_id);
+        return fragment && { fragment_id: where.fragment_id, title: where.fragment_id, created_at: new Date(), ...fragment };
+      },
+      findMany: async () =>
+        [...db.fragments].map(([fragment_id, fragment]) => ({ fragment_id, ...fragment }))
+    },
+    pageConfig: {
+      findUnique: async () => db.pageConfig,
+      findMany: async () => (db.pageConfig ? [db.pageConfig] : []),
+      update: async ({ data }: { data: Record<string, any> }) => {
+        db.pageConfig = { ...db.pageConfig, ...data };
+        return db.pageConfig;
+      }
+    },
+    pageConfigVersion: {
+      findUnique: async ({ where }: { where: { page_config_id_version: { version: number } } }) =>
+        db.versions.get(where.page_config_id_version.version) ?? null,
+      findMany: async () => [...db.versions.values()]
+    }
+  }
+}));
+
+const notice = (content: string): Component[] => [{ id: 'text', type: 'text', props: { content } }];
+
+const config = { components: [{ id: 'notice', type: 'fragment', ref: 'notice', props: {} }] };
+
+beforeEach(() => {
+  db.fragments.clear();
+  db.fragments.set('notice', { components: notice('Old'), updated_at: new Date('2025-06-01') });
+  db.versions.clear();
+  db.versions.set(1, { page_config_id: 'p1', version: 1, title: 'Home', config_json: config });
+  db.pageConfig = {
+    id: 'p1',
+    page_id: 'home',
+    title: 'Home',
+    config_json: config,
+    current_version: 1,
+    published_version: null,
+    published_at: null,
+    published_config_json: null,
+    scheduled_version: null,
+    scheduled_publish_at: null,
+    created_at: new Date('2025-06-01'),
+    updated_at: new Date('2025-06-01')
+  };
+});
+
+describe('publishing pages with fragments', () => {
+  it('serves the fragments as they were when the page was published', async () => {
+    await publishPageConfig('home');
+    db.fragments.set('notice', { components: notice('New'), updated_at: new Date() });
+
+    const page = await getPublishedPage('home');
+    expect(page?.components).toEqual([
+      { id: 'notice', type: 'container', props: {}, children: [{ id: 'notice__text', type: 'text', props: { content: 'Old' } }] }
+    ]);
+
+    await publishPageConfig('home');
+    expect((await getPublishedPage('home'))?.components[0].children?.[0].props.content).toBe('New');
+  });
+
+  it('reports published pages whose fragments were edited since', async () => {
+    await publishPageConfig('home');
+    expect(await findPagesWithFragmentChanges()).toEqual(new Set());
+
+    db.fragments.set('notice', { components: notice('New'), updated_at: new Date(Date.now() + 1000) });
+    expect(await findPagesWithFragmentChanges()).toEqual(new Set(['home']));
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { rateLimit } from '../middleware/rateLimit.js';
+
+const request = (ip: string) => ({ ip }) as Request;
+
+const response = () => {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    set(name: string, value: string) {
+      res.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json: vi.fn()
+  };
+  return res;
+};
+
+describe('rateLimit', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('refuses requests over the limit until the window ends', () => {
+    vi.useFakeTimers();
+    const limit = rateLimit({ windowMs: 60000, max: 2 });
+    const next = vi.fn();
+
+    limit(request('1.2.3.4'), response() as unknown as Response, next);
+    limit(request('1.2.3.4'), response() as unknown as Response, next);
+    const refused = response();
+    limit(request('1.2.3.4'), refused as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(refused.statusCode).toBe(429);
+    expect(refused.headers['Retry-After']).toBe('60');
+
+    vi.advanceTimersByTime(60000);
+    limit(request('1.2.3.4'), response() as unknown as Response, next);
+    expect(next).toHaveBeenCalledTimes(3);
+  });
+
+  it('counts each client IP separately', () => {
+    const limit = rateLimit({ windowMs: 60000, max: 1 });
+    const next = vi.fn();
+
+    limit(request('1.2.3.4'), response() as unknown as Response, next);
+    limit(request('5.6.7.8'), response() as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Component, Page } from '../models/PageConfig.js';
+import { BASE_THEME, ThemeTokens } from '../models/Theme.js';
+import { StaticRenderOptions, renderPageHtml } from '../services/staticPageService.js';
+
+vi.mock('../config/prisma.js', () => ({ default: {} }));
+
+const options: StaticRenderOptions = {
+  theme: BASE_THEME,
+  locale: 'en',
+  apiUrl: 'https://example.com/api',
+  appUrl: 'https://example.com',
+  pageHref: (pageId) => `/pages/${pageId}.html`
+};
+
+const render = (components: Component[], renderOptions: Partial<StaticRenderOptions> = {}) =>
+  renderPageHtml({ pageId: 'home', title: 'Home', components } as Page, { ...options, ...renderOptions });
+
+// The part of the document between <main> and </main>
+const body = (html: string) => html.slice(html.indexOf('<main>'), html.indexOf('</main>'));
+
+const link = (id: string, navigate: Record<string, string>): Component => ({
+  id,
+  type: 'button',
+  props: { label: 'Go', onClick: { navigate } }
+});
+
+describe('renderPageHtml', () => {
+  it('escapes text and attributes', () => {
+    const html = render([
+      { id: 'intro', type: 'text', props: { value: '<script>alert(1)</script> & "quotes"' } },
+      { id: 'logo', type: 'image', props: { src: '/logo.png', alt: '"><script>alert(1)</script>' } }
+    ]);
+
+    expect(body(html)).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt; &amp; &quot;quotes&quot;');
+    expect(html).toContain('alt="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;"');
+  });
+
+  it('escapes templated values from the query string', () => {
+    const html = render([{ id: 'intro', type: 'text', props: { value: 'Hi {{query.name}}' } }], {
+      query: { name: '<img src=x onerror=alert(1)>' }
+    });
+    expect(body(html)).toContain('Hi &lt;img src=x onerror=alert(1)&gt;');
+  });
+
+  it('keeps unsafe theme values out of the style element', () => {
+    const theme = {
+      ...BASE_THEME,
+      colors: { ...BASE_THEME.colors, primary: 'red}</style><script>alert(1)</script>' }
+    } as ThemeTokens;
+    const html = render([], { theme });
+    const style = html.slice(html.indexOf('<style>'), html.indexOf('</style>') + '</style>'.length);
+
+    expect(html.match(/<\/style>/g)).toHaveLength(1);
+    expect(style).not.toContain('<script>');
+    expect(style).toContain(`background:${BASE_THEME.colors.primary}`);
+  });
+
+  it('leaves unsafe theme values out of inline styles', () => {
+    const theme = { ...BASE_THEME, colors: { ...BASE_THEME.colors, text: 'red;" onmouseover="alert(1)' } } as ThemeTokens;
+    const html = render([{ id: 'intro', type: 'text', props: { value: 'Hi', style: { color: 'text' } } }], { theme });
+    expect(html).not.toContain('onmouseover="alert(1)');
+  });
+
+  it('renders relative and http(s) navigate URLs as links', () => {
+    const html = body(render([link('a', { url: '/orders?id={{query.id}}' }), link('b', { url: 'https://example.org' }), link('c', { pageId: 'about' })], {
+      query: { id: '5' }
+    }));
+
+    expect(html).toContain('href="/orders?id=5"');
+    expect(html).toContain('href="https://example.org"');
+    expect(html).toContain('href="/pages/about.html"');
+  });
+
+  it('drops navigate URLs with other schemes', () => {
+    const html = body(render([link('a', { url: 'javascript:alert(1)' }), link('b', { url: 'JavaScript:{{query.code}}' })], {
+      query: { code: 'alert(document.cookie)' }
+    }));
+
+    expect(html).not.toContain('href=');
+    expect(html).not.toContain('alert(');
+  });
+
+  it('encodes templated values, so they cannot add a scheme', () => {
+    const html = body(render([link('a', { url: '{{query.next}}' })], { query: { next: 'javascript:alert(1)' } }));
+    expect(html).toContain('href="javascript%3Aalert(1)"');
+  });
+});
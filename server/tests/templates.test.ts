@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { TemplateContext, evaluateCondition, renderDeep, renderTemplate } from '../utils/templates.js';
+
+const context: TemplateContext = {
+  user: { name: 'Ada', roles: ['admin'] },
+  route: { pageId: 'home' },
+  query: { id: '5', q: 'a&b' },
+  form: { signup: { email: 'ada@example.com', plan: '' } },
+  data: { orders: { items: [{ id: 1, total: 9.5 }] } }
+};
+
+describe('renderTemplate', () => {
+  it('reads dotted and indexed paths', () => {
+    expect(renderTemplate('Hi {{user.name}} ({{user.roles[0]}})', context)).toBe('Hi Ada (admin)');
+    expect(renderTemplate('{{ data.orders.items[0].total }}', context)).toBe('9.5');
+    expect(renderTemplate('{{form.signup.email}}', context)).toBe('ada@example.com');
+  });
+
+  it('uses the first fallback with a value', () => {
+    expect(renderTemplate('{{form.signup.plan || query.missing || "free"}}', context)).toBe('free');
+    expect(renderTemplate('{{query.missing || 0}}', context)).toBe('0');
+  });
+
+  it('renders missing values, objects and malformed expressions as empty', () => {
+    expect(renderTemplate('[{{user.missing}}]', context)).toBe('[]');
+    expect(renderTemplate('[{{data.orders}}]', context)).toBe('[]');
+    expect(renderTemplate('[{{user.name + 1}}]', context)).toBe('[]');
+    expect(renderTemplate('[{{user.name ||}}]', context)).toBe('[]');
+  });
+
+  it('does not read through prototypes', () => {
+    expect(renderTemplate('[{{user.constructor.name}}]', context)).toBe('[]');
+    expect(renderTemplate('[{{user.__proto__}}]', context)).toBe('[]');
+  });
+
+  it('URL-encodes values when asked', () => {
+    expect(renderTemplate('/search?q={{query.q}}', context, true)).toBe('/search?q=a%26b');
+  });
+
+  it('renders every string in a value', () => {
+    expect(renderDeep({ id: '{{query.id}}', tags: ['{{route.pageId}}'], n: 1 }, context)).toEqual({ id: '5', tags: ['home'], n: 1 });
+  });
+});
+
+describe('evaluateCondition', () => {
+  it('compares values loosely', () => {
+    expect(evaluateCondition({ source: 'query', path: 'id', op: 'eq', value: 5 }, context)).toBe(true);
+    expect(evaluateCondition({ source: 'form', path: 'signup.plan', op: 'exists' }, context)).toBe(false);
+  });
+
+  it('combines conditions', () => {
+    expect(
+      evaluateCondition(
+        { all: [{ source: 'user', path: 'name', op: 'exists' }, { not: { source: 'query', path: 'id', op: 'eq', value: '6' } }] },
+        context
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from '../models/PageConfig.js';
+import { BASE_THEME, isSafeCssValue, mergeTokens, validateStyle, validateTheme } from '../models/Theme.js';
+
+const theme = (tokens: unknown) => ({ themeId: 'brand', name: 'Brand', tokens });
+
+describe('validateTheme', () => {
+  it('accepts known tokens with string or number values', () => {
+    expect(validateTheme(theme({ colors: { primary: '#ff0000' }, spacing: { md: 12 }, fonts: { body: 'Inter, sans-serif' } }))).toEqual([]);
+    expect(validateTheme(theme(BASE_THEME))).toEqual([]);
+  });
+
+  it('rejects unknown groups and tokens', () => {
+    expect(validateTheme(theme({ shadows: {}, colors: { accent: 'red' } }))).toEqual([
+      { path: 'tokens.shadows', message: expect.stringContaining('Unknown token group "shadows"') },
+      { path: 'tokens.colors.accent', message: expect.stringContaining('Unknown colors token "accent"') }
+    ]);
+  });
+
+  it('rejects empty values and values that could break out of CSS', () => {
+    const values = [' ', NaN, null, 'red</style><script>alert(1)</script>', 'red; background: url(x)', 'red}body{color:red', '"Inter"', 'red/*'];
+    for (const value of values) {
+      expect(validateTheme(theme({ colors: { primary: value } }))).toEqual([
+        { path: 'tokens.colors.primary', message: expect.stringContaining('Token value must be') }
+      ]);
+    }
+  });
+});
+
+describe('isSafeCssValue', () => {
+  it('allows plain values', () => {
+    expect(isSafeCssValue('#fff')).toBe(true);
+    expect(isSafeCssValue('rgb(0, 0, 0)')).toBe(true);
+    expect(isSafeCssValue(16)).toBe(true);
+  });
+
+  it('rejects markup, rule breaks, quotes and non-finite numbers', () => {
+    expect(isSafeCssValue('<b>')).toBe(false);
+    expect(isSafeCssValue('a{b}')).toBe(false);
+    expect(isSafeCssValue("'a'")).toBe(false);
+    expect(isSafeCssValue('\\3c')).toBe(false);
+    expect(isSafeCssValue(Infinity)).toBe(false);
+    expect(isSafeCssValue({})).toBe(false);
+  });
+});
+
+describe('validateStyle', () => {
+  it('accepts token names and alignments', () => {
+    const errors: ValidationError[] = [];
+    validateStyle({ color: 'primary', padding: 'md', align: 'center' }, 'props.style', errors);
+    expect(errors).toEqual([]);
+  });
+
+  it('rejects raw values and unknown properties', () => {
+    const errors: ValidationError[] = [];
+    validateStyle({ color: '#ff0000', shadow: 'lg', align: 'justify' }, 'props.style', errors);
+    expect(errors).toEqual([
+      { path: 'props.style.color', message: expect.stringContaining('Unknown colors token "#ff0000"') },
+      { path: 'props.style.shadow', message: expect.stringContaining('Unknown style property "shadow"') },
+      { path: 'props.style.align', message: 'Alignment must be one of: left, center, right' }
+    ]);
+  });
+});
+
+describe('mergeTokens', () => {
+  it('layers partial themes over each other', () => {
+    const tokens = mergeTokens(BASE_THEME, { colors: { primary: 'red' } }, { colors: { text: 'black' }, spacing: { md: 20 } });
+    expect(tokens.colors).toEqual({ ...BASE_THEME.colors, primary: 'red', text: 'black' });
+    expect(tokens.spacing.md).toBe(20);
+  });
+});
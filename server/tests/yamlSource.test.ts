@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml } from '../utils/yamlSource.js';
+
+const source = `pageId: home
+title: Home
+components:
+  - id: intro
+    type: text
+    props:
+      content: Hello
+  - id: logo
+    type: image
+`;
+
+describe('parseYaml', () => {
+  it('parses a document', () => {
+    const parsed = parseYaml(source);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.yamlSource).toBe(source);
+    expect(parsed.value).toMatchObject({ pageId: 'home', components: [{ id: 'intro' }, { id: 'logo' }] });
+  });
+
+  it('reports syntax errors with their position', () => {
+    const parsed = parseYaml('pageId: home\ntitle: [Home\n');
+    expect(parsed.value).toBeUndefined();
+    expect(parsed.errors[0]).toMatchObject({ path: '', line: expect.any(Number), column: expect.any(Number) });
+  });
+
+  it('locates validation errors at the node they name', () => {
+    const [content] = parseYaml(source).locate([{ path: 'components[0].props.content', message: 'Bad' }]);
+    expect(content).toEqual({ path: 'components[0].props.content', message: 'Bad', line: 7, column: 16 });
+  });
+
+  it('falls back to the deepest node that exists', () => {
+    const [missing] = parseYaml(source).locate([{ path: 'components[1].props.src', message: 'Required' }]);
+    expect(missing).toMatchObject({ line: 8, column: 5 });
+  });
+});
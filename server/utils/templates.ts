@@ -0,0 +1,157 @@
+import { Condition } from '../models/PageConfig.js';
+
+// Server-side copies of the client's template and condition evaluation
+// (client/src/utils/template.ts and conditions.ts), for pages rendered to HTML.
+// Keep the two in step.
+
+// Values templates and conditions can read from
+export interface TemplateContext {
+  user: Record<string, any> | null;
+  route: Record<string, string | undefined>;
+  query: Record<string, string>;
+  form: Record<string, Record<string, any>>;
+  data: Record<string, any>;
+}
+
+type Term = { literal: string | number } | { path: string[] };
+
+const TEMPLATE_PATTERN = /\{\{([^}]*)\}\}/g;
+
+const TERM_PATTERN =
+  /^\s*(?:"([^"]*)"|'([^']*)'|(-?\d+(?:\.\d+)?)|([A-Za-z_$][\w$]*(?:\.[\w$-]+|\[\d+\])*))\s*/;
+
+// Keys that would reach into prototypes rather than the data itself
+const BLOCKED_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Parse `a.b || "fallback"` into terms; null for anything else
+const parseExpression = (expression: string): Term[] | null => {
+  const terms: Term[] = [];
+  let rest = expression;
+
+  for (;;) {
+    const match = rest.match(TERM_PATTERN);
+    if (!match) return null;
+
+    const [whole, doubleQuoted, singleQuoted, number, path] = match;
+    if (doubleQuoted !== undefined || singleQuoted !== undefined) {
+      terms.push({ literal: doubleQuoted ?? singleQuoted });
+    } else if (number !== undefined) {
+      terms.push({ literal: Number(number) });
+    } else {
+      terms.push({ path: path.replace(/\[(\d+)\]/g, '.$1').split('.') });
+    }
+
+    rest = rest.slice(whole.length);
+    if (rest === '') return terms;
+    if (!rest.startsWith('||')) return null;
+    rest = rest.slice(2);
+  }
+};
+
+// Read a value from an object by path, using own properties only
+export const getByPath = (source: any, path: string[]): any =>
+  path.reduce<any>((current, key) => {
+    if (current === null || current === undefined || BLOCKED_KEYS.has(key)) return undefined;
+    if (typeof current !== 'object') return undefined;
+    return Object.prototype.hasOwnProperty.call(current, key) ? current[key] : undefined;
+  }, source);
+
+const isPresent = (value: any): boolean =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+// The first term with a value wins; missing values and objects become ''
+const evaluate = (expression: string, context: TemplateContext): string => {
+  const terms = parseExpression(expression);
+  if (!terms) return '';
+
+  for (const term of terms) {
+    const value = 'literal' in term ? term.literal : getByPath(context, term.path);
+    if (!isPresent(value)) continue;
+    return ['string', 'number', 'boolean'].includes(typeof value) ? String(value) : '';
+  }
+  return '';
+};
+
+// Replace every {{ expression }} in a string; `encode` URL-encodes the values
+export const renderTemplate = (template: string, context: TemplateContext, encode = false): string => {
+  if (!template.includes('{{')) return template;
+
+  return template.replace(TEMPLATE_PATTERN, (_, expression: string) => {
+    const value = evaluate(expression, context);
+    return encode ? encodeURIComponent(value) : value;
+  });
+};
+
+// Render templates in every string inside a JSON value (e.g. a request body)
+export const renderDeep = (value: any, context: TemplateContext): any => {
+  if (typeof value === 'string') return renderTemplate(value, context);
+  if (Array.isArray(value)) return value.map((item) => renderDeep(item, context));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderDeep(item, context)]));
+  }
+  return value;
+};
+
+// Loose equality so "5" from a query string matches 5 in a config
+const equals = (a: any, b: any): boolean =>
+  a === b || (a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b));
+
+const resolveValue = (source: string, path: string, context: TemplateContext): any => {
+  const keys = path.split('.').filter(Boolean);
+  switch (source) {
+    case 'form':
+      return getByPath(context.form, keys);
+    case 'user':
+      return getByPath(context.user, keys);
+    case 'query':
+      return context.query[path];
+    case 'data':
+      return getByPath(context.data, keys);
+    default:
+      return undefined;
+  }
+};
+
+// Evaluate a condition; malformed conditions are false
+export const evaluateCondition = (condition: Condition, context: TemplateContext): boolean => {
+  if ('all' in condition) return condition.all.every((child) => evaluateCondition(child, context));
+  if ('any' in condition) return condition.any.some((child) => evaluateCondition(child, context));
+  if ('not' in condition) return !evaluateCondition(condition.not, context);
+
+  const actual = resolveValue(condition.source, condition.path, context);
+  const expected = condition.value;
+
+  switch (condition.op) {
+    case 'eq':
+      return equals(actual, expected);
+    case 'neq':
+      return !equals(actual, expected);
+    case 'in':
+      return Array.isArray(expected) && expected.some((value) => equals(actual, value));
+    case 'notIn':
+      return Array.isArray(expected) && !expected.some((value) => equals(actual, value));
+    case 'gt':
+      return isPresent(actual) && Number(actual) > Number(expected);
+    case 'gte':
+      return isPresent(actual) && Number(actual) >= Number(expected);
+    case 'lt':
+      return isPresent(actual) && Number(actual) < Number(expected);
+    case 'lte':
+      return isPresent(actual) && Number(actual) <= Number(expected);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some((value) => equals(value, expected));
+      return typeof actual === 'string' && actual.includes(String(expected));
+    case 'matches':
+      try {
+        return isPresent(actual) && new RegExp(expected).test(String(actual));
+      } catch (error) {
+        return false;
+      }
+    case 'exists':
+      return isPresent(actual);
+    case 'notExists':
+      return !isPresent(actual);
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,67 @@
+import { Request } from 'express';
+import { LineCounter, parseDocument, stringify } from 'yaml';
+import { ValidationError } from '../models/PageConfig.js';
+
+// Content types treated as YAML request bodies
+export const YAML_CONTENT_TYPES = ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/x-yaml'];
+
+export interface ParsedBody {
+  value: any;
+  // Original text for YAML bodies, null for JSON
+  yamlSource: string | null;
+  // Syntax errors in the YAML source
+  errors: ValidationError[];
+  // Add line/column positions to validation errors (no-op for JSON)
+  locate: (errors: ValidationError[]) => ValidationError[];
+}
+
+// Split a validation path like "components[2].children[0].props" into YAML keys
+const toKeys = (path: string): (string | number)[] =>
+  Array.from(path.matchAll(/([^.[\]]+)|\[(\d+)\]/g), (match) =>
+    match[2] !== undefined ? Number(match[2]) : match[1]
+  );
+
+// Parse a YAML page config, keeping enough of the document to map
+// validation error paths back to lines and columns
+export const parseYaml = (source: string): ParsedBody => {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(source, { lineCounter });
+
+  const errors = doc.errors.map((error) => ({
+    path: '',
+    message: error.message.split('\n')[0],
+    line: error.linePos?.[0].line,
+    column: error.linePos?.[0].col
+  }));
+
+  // Point at the deepest node that exists, e.g. the component for a missing prop
+  const position = (path: string) => {
+    const keys = toKeys(path);
+    for (let depth = keys.length; depth >= 0; depth--) {
+      const node: any = doc.getIn(keys.slice(0, depth), true);
+      if (node?.range) {
+        const { line, col } = lineCounter.linePos(node.range[0]);
+        return { line, column: col };
+      }
+    }
+    return {};
+  };
+
+  return {
+    value: errors.length === 0 ? doc.toJS() : undefined,
+    yamlSource: source,
+    errors,
+    locate: (validationErrors) => validationErrors.map((error) => ({ ...error, ...position(error.path) }))
+  };
+};
+
+// Read a request body that may be JSON (already parsed) or YAML (raw text, by Content-Type)
+export const parseConfigBody = (req: Request): ParsedBody => {
+  if (req.is(YAML_CONTENT_TYPES) && typeof req.body === 'string') {
+    return parseYaml(req.body);
+  }
+  return { value: req.body, yamlSource: null, errors: [], locate: (errors) => errors };
+};
+
+// Render a config as YAML (used when no YAML source was stored)
+export const toYaml = (value: unknown): string => stringify(value);